@@ -0,0 +1,254 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
+import {
+  assignmentResult,
+  createAssignmentTable,
+  decimalToFraction,
+  HungarianTable,
+  hungarianStageLabels,
+  jobLabel,
+  nextHungarianStep,
+  OptType,
+  solveAssignment,
+  workerLabel,
+} from "@/lib/simplex";
+import AssignmentMatrix from "@/components/AssignmentMatrix";
+
+type RootStackParamList = {
+  Home: undefined;
+  Assignment: undefined;
+};
+
+// Grow or shrink a list of inputs, keeping what was already typed
+const resize = <T,>(values: T[], length: number, fill: () => T): T[] =>
+  Array.from({ length }, (_, i) => (i < values.length ? values[i] : fill()));
+
+export default function AssignmentPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const [optimization, setOptimization] = useState<OptType>("Minimize");
+  const [workerCount, setWorkerCount] = useState("3");
+  const [jobCount, setJobCount] = useState("3");
+  const [costs, setCosts] = useState<string[][]>(() => Array.from({ length: 3 }, () => Array(3).fill("")));
+
+  // Hungarian state
+  const [table, setTable] = useState<HungarianTable | null>(null);
+  const [initialTable, setInitialTable] = useState<HungarianTable | null>(null); // kept for reset
+  const [step, setStep] = useState<number>(0);
+
+  const handleWorkerCountChange = (value: string) => {
+    setWorkerCount(value);
+    const m = parseInt(value);
+    if (!(m >= 1 && m <= 10)) return;
+    setCosts(resize(costs, m, () => Array(costs[0]?.length ?? 0).fill("")));
+  };
+
+  const handleJobCountChange = (value: string) => {
+    setJobCount(value);
+    const n = parseInt(value);
+    if (!(n >= 1 && n <= 10)) return;
+    setCosts(costs.map((row) => resize(row, n, () => "")));
+  };
+
+  const handleCostChange = (row: number, col: number, value: string) => {
+    const updated = costs.map((r) => [...r]);
+    updated[row][col] = value;
+    setCosts(updated);
+  };
+
+  const showTable = (next: HungarianTable, stepNumber: number) => {
+    setTable(next);
+    setStep(stepNumber);
+  };
+
+  const handleStart = () => {
+    if (costs.some((row) => row.some((cell) => cell.trim() === "" || isNaN(Number(cell))))) {
+      alert("Please enter a cost for every worker and job.");
+      return;
+    }
+    const initial = createAssignmentTable({
+      costs: costs.map((row) => row.map((cell) => parseFloat(cell))),
+      optType: optimization,
+    });
+    setInitialTable(initial);
+    showTable(initial, 0);
+  };
+
+  const handleNextStep = () => {
+    if (!table) return;
+    showTable(nextHungarianStep(table), step + 1);
+  };
+
+  const handleReset = () => {
+    if (!initialTable) return;
+    showTable(initialTable, 0);
+  };
+
+  // Solve to optimal automatically, replaying each step with a small delay
+  const handleSolveToOptimal = () => {
+    if (!table) return;
+
+    solveAssignment(table)
+      .slice(1)
+      .forEach((next, i) => {
+        setTimeout(() => showTable(next, step + i + 1), 100 * i);
+      });
+  };
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  const finished = table?.stage === "optimal";
+  const result = table && finished ? assignmentResult(table) : null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Assignment Problem</Text>
+
+        <View style={styles.toggleContainer}>
+          {(["Minimize", "Maximize"] as OptType[]).map((type) => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.toggleButton, optimization === type && styles.activeToggle]}
+              onPress={() => setOptimization(type)}
+            >
+              <Text style={[styles.toggleText, optimization === type && styles.activeToggleText]}>{type}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.equationsContainer}>
+          <View style={styles.row}>
+            <Text style={styles.label}>Workers</Text>
+            <TextInput
+              style={styles.cellInput}
+              keyboardType="numeric"
+              value={workerCount}
+              onChangeText={handleWorkerCountChange}
+            />
+            <Text style={styles.label}>Jobs</Text>
+            <TextInput style={styles.cellInput} keyboardType="numeric" value={jobCount} onChangeText={handleJobCountChange} />
+          </View>
+
+          <Text style={styles.subHeading}>{optimization === "Minimize" ? "Costs" : "Profits"}:</Text>
+          <ScrollView horizontal>
+            <View>
+              {costs.map((row, i) => (
+                <View key={i} style={styles.row}>
+                  <Text style={styles.rowLabel}>W{i + 1}</Text>
+                  {row.map((cell, j) => (
+                    <TextInput
+                      key={j}
+                      style={styles.cellInput}
+                      value={cell}
+                      keyboardType="numbers-and-punctuation"
+                      placeholder={`J${j + 1}`}
+                      placeholderTextColor="#ccc"
+                      onChangeText={(value) => handleCostChange(i, j, value)}
+                    />
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+
+        <TouchableOpacity style={styles.solveButton} onPress={handleStart}>
+          <Text style={styles.solveButtonText}>Start Hungarian Method</Text>
+        </TouchableOpacity>
+
+        {table && (
+          <>
+            <Text style={styles.subHeading}>
+              Step {step}: {hungarianStageLabels[table.stage]}
+            </Text>
+            {table.note ? <Text style={styles.noteText}>{table.note}</Text> : null}
+            <AssignmentMatrix table={table} />
+          </>
+        )}
+
+        {result && table && (
+          <View style={styles.equationsContainer}>
+            <Text style={styles.subHeading}>Optimal Assignment:</Text>
+            {result.pairs.map(({ row, col, cost }) => (
+              <Text key={row} style={styles.equationText}>
+                {workerLabel(table, row)} → {jobLabel(table, col)} ({decimalToFraction(cost)})
+              </Text>
+            ))}
+            <Text style={[styles.equationText, { fontStyle: "normal" }]}>
+              Total {table.problem.optType === "Maximize" ? "profit" : "cost"}: {decimalToFraction(result.total)}
+            </Text>
+            {table.rows !== table.cols && (
+              <Text style={styles.equationText}>
+                {table.rows > table.cols ? "Workers" : "Jobs"} paired with a dummy are left unassigned.
+              </Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Reset</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.nextButton, (finished || !table) && { backgroundColor: "#9E9E9E" }]}
+            onPress={handleNextStep}
+            disabled={finished || !table}
+          >
+            <Text style={styles.nextButtonText}>Next Step</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ marginTop: 10, flexDirection: "row", justifyContent: "space-between" }}>
+          <TouchableOpacity style={[styles.solveButton, { flex: 1 }]} onPress={handleSolveToOptimal}>
+            <Text style={styles.solveButtonText}>Solve to Optimal</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  noteText: { color: "#fff", fontSize: 14, marginBottom: 10, textAlign: "center" },
+  toggleContainer: { flexDirection: "row", justifyContent: "center", marginBottom: 15 },
+  toggleButton: { borderWidth: 1, borderColor: "#fff", paddingVertical: 10, paddingHorizontal: 25, borderRadius: 25, marginHorizontal: 5 },
+  activeToggle: { backgroundColor: "#fff" },
+  toggleText: { color: "#fff", fontWeight: "bold" },
+  activeToggleText: { color: "#3b5998" },
+  row: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  label: { color: "#fff", fontSize: 16, marginRight: 8 },
+  rowLabel: { color: "#fff", fontWeight: "bold", width: 30 },
+  cellInput: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, padding: 5, color: "#fff", width: 60, marginRight: 8, textAlign: "center" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  resetButton: { backgroundColor: "#FFD54F", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginHorizontal: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  resetButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  solveButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 30, alignItems: "center" },
+  solveButtonText: { color: "#fff", fontWeight: "bold" },
+});
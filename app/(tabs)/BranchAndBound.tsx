@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useRoute, useNavigation, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  arithmeticFor,
+  bestBound,
+  BranchAndBoundState,
+  branchAndBoundStep,
+  decimalToFraction,
+  formatEquations,
+  formatValue,
+  LPModel,
+  MAX_NODES,
+  optimalityGap,
+  Scalar,
+  solveBranchAndBound,
+  SolverSettings,
+  SolveStatus,
+  startBranchAndBound,
+} from "@/lib/simplex";
+import BranchTree from "@/components/BranchTree";
+
+type RootStackParamList = {
+  Home: undefined;
+  NextComponent: { optimization: string; variables: string; constraints: string };
+  BranchAndBound: LPModel & SolverSettings;
+};
+
+type BranchAndBoundRouteProp = RouteProp<RootStackParamList, "BranchAndBound">;
+
+const statusMessage = <T,>({ status, stopped }: BranchAndBoundState<T>): string => {
+  if (stopped && status === stopped.status) {
+    return `Stopped: the LP relaxation of node ${stopped.node} couldn't be solved (${stopped.status}), so its subtree is unexplored and the incumbent isn't proven optimal.`;
+  }
+  switch (status) {
+    case SolveStatus.Optimal: return "Branch and bound complete. The incumbent is optimal.";
+    case SolveStatus.Infeasible: return "Branch and bound complete. No integer solution exists.";
+    case SolveStatus.Unbounded: return "The LP relaxation is unbounded, so branch and bound can't bound the search.";
+    default: return `Stopped: solved the maximum of ${MAX_NODES} nodes.`;
+  }
+};
+
+export default function BranchAndBoundPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<BranchAndBoundRouteProp>();
+  const { objective, constraintsMatrix, rhs, optType, constraintTypes, arithmetic, pivotRule, bounds, kinds, variableNames, constraintNames, exactValues } =
+    route.params;
+
+  const [search, setSearch] = useState<BranchAndBoundState<Scalar> | null>(null);
+  const [initialSearch, setInitialSearch] = useState<BranchAndBoundState<Scalar> | null>(null); // kept for reset
+  const [equations, setEquations] = useState<string[]>([]);
+
+  useEffect(() => {
+    const model: LPModel = { objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, kinds, variableNames, constraintNames };
+    setEquations(formatEquations(model));
+    const initial = startBranchAndBound(model, arithmeticFor(arithmetic ?? "float", exactValues), pivotRule ?? "dantzig");
+    setInitialSearch(initial);
+    setSearch(initial);
+  }, [objective, constraintsMatrix, rhs, optType, constraintTypes, arithmetic, exactValues, pivotRule, bounds, kinds, variableNames, constraintNames]);
+
+  const handleNextNode = () => {
+    if (!search) return;
+    setSearch(branchAndBoundStep(search));
+  };
+
+  const handleReset = () => {
+    if (!initialSearch) return;
+    setSearch(initialSearch);
+  };
+
+  const handleSolveAll = () => {
+    if (!search) return;
+    setSearch(solveBranchAndBound(search));
+  };
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  const incumbent = search && search.incumbent !== null ? search.nodes[search.incumbent] : null;
+  const bound = search ? bestBound(search) : null;
+  const gap = search ? optimalityGap(search) : null;
+  const solvedCount = search ? search.nodes.filter((node) => node.outcome !== "pending").length : 0;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Branch and Bound</Text>
+
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Problem Formulation:</Text>
+          {equations.map((equation, index) => (
+            <Text key={index} style={styles.equationText}>
+              {equation}
+            </Text>
+          ))}
+        </View>
+
+        {/* Search progress */}
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Incumbent:</Text>
+          {incumbent && incumbent.values && incumbent.tableau ? (
+            <>
+              {Object.entries(incumbent.values).map(([name, value]) => (
+                <Text key={name} style={styles.equationText}>
+                  {name} = {formatValue(incumbent.tableau!, value)}
+                </Text>
+              ))}
+              <Text style={styles.equationText}>Z = {decimalToFraction(incumbent.objective ?? 0)}</Text>
+            </>
+          ) : (
+            <Text style={styles.equationText}>No integer solution found yet.</Text>
+          )}
+          <Text style={styles.equationText}>
+            Best bound: {bound === null ? "None" : Number.isFinite(bound) ? decimalToFraction(bound) : "Not known yet"}
+          </Text>
+          <Text style={styles.equationText}>Gap: {gap === null ? "—" : `${(gap * 100).toFixed(2)}%`}</Text>
+          <Text style={styles.equationText}>
+            Nodes solved: {solvedCount}, waiting: {search?.open.length ?? 0}
+          </Text>
+          {search?.status ? (
+            <Text style={[styles.equationText, { fontStyle: "normal" }]}>{statusMessage(search)}</Text>
+          ) : null}
+        </View>
+
+        <Text style={styles.subHeading}>Search Tree</Text>
+        {search && <BranchTree search={search} />}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Reset</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.nextButton, search?.status && { backgroundColor: "#9E9E9E" }]}
+            onPress={handleNextNode}
+            disabled={!!search?.status}
+          >
+            <Text style={styles.nextButtonText}>Next Node</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ marginTop: 10, flexDirection: "row", justifyContent: "space-between" }}>
+          <TouchableOpacity style={styles.solveButton} onPress={handleSolveAll}>
+            <Text style={styles.solveButtonText}>Solve to Optimal</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  resetButton: { backgroundColor: "#FFD54F", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginHorizontal: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  resetButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  solveButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 30, alignItems: "center", flex: 1 },
+  solveButtonText: { color: "#fff", fontWeight: "bold" },
+});
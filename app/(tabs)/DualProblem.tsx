@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useRoute, useNavigation, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  arithmeticFor,
+  complementarySlackness,
+  decimalToFraction,
+  formatBounds,
+  formatConstraints,
+  formatEquations,
+  formatObjective,
+  formulateDual,
+  LPModel,
+  modelVariableNames,
+  ModelSolution,
+  SlacknessCondition,
+  solveModel,
+  SolverSettings,
+  SolveStatus,
+  substituteBounds,
+} from "@/lib/simplex";
+
+type RootStackParamList = {
+  Home: undefined;
+  NextComponent: { optimization: string; variables: string; constraints: string };
+  Solution: LPModel & SolverSettings;
+  Phase1: LPModel & SolverSettings;
+  DualProblem: LPModel & SolverSettings;
+};
+
+type DualProblemRouteProp = RouteProp<RootStackParamList, "DualProblem">;
+
+type DualityCheck = {
+  primal: ModelSolution;
+  dual: ModelSolution;
+  conditions: SlacknessCondition[] | null;
+};
+
+const statusText = (status: SolveStatus): string => {
+  switch (status) {
+    case SolveStatus.Optimal: return "optimal";
+    case SolveStatus.Unbounded: return "unbounded";
+    case SolveStatus.Infeasible: return "infeasible";
+    default: return `stopped (${status})`;
+  }
+};
+
+export default function DualProblemPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<DualProblemRouteProp>();
+  const { objective, constraintsMatrix, rhs, optType, constraintTypes, arithmetic, pivotRule, bounds, kinds, variableNames, constraintNames, exactValues } =
+    route.params;
+
+  const [check, setCheck] = useState<DualityCheck | null>(null);
+
+  const formulation = useMemo(
+    () => formulateDual({ objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames }),
+    [objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames]
+  );
+  const { primal, dual } = formulation;
+  const primalConstraints = formatConstraints(primal);
+  const dualConstraints = formatConstraints(dual);
+  const xNames = modelVariableNames(primal);
+  const yNames = modelVariableNames(dual);
+
+  // Solve both problems to optimality and compare them
+  const handleCheckSlackness = () => {
+    const ar = arithmeticFor(arithmetic ?? "float", exactValues);
+    const primalSolution = solveModel(primal, ar, pivotRule ?? "dantzig");
+    const dualSolution = solveModel(dual, ar, pivotRule ?? "dantzig");
+    setCheck({
+      primal: primalSolution,
+      dual: dualSolution,
+      conditions:
+        primalSolution.values && dualSolution.values
+          ? complementarySlackness(formulation, primalSolution.values, dualSolution.values)
+          : null,
+    });
+  };
+
+  // The dual goes to the same screens a typed-in model would
+  const handleSolveDual = () => {
+    const standard = dual.constraintTypes.every((type) => type === "≤") && substituteBounds(dual).model.rhs.every((v) => v >= 0);
+    navigation.navigate(standard ? "Solution" : "Phase1", { ...dual, exactValues, arithmetic, pivotRule });
+  };
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Dual Problem</Text>
+
+        <View style={styles.sideBySide}>
+          <View style={[styles.equationsContainer, styles.half]}>
+            <Text style={styles.subHeading}>Primal:</Text>
+            {formatEquations(primal).map((equation, index) => (
+              <Text key={index} style={styles.equationText}>
+                {equation}
+              </Text>
+            ))}
+          </View>
+          <View style={[styles.equationsContainer, styles.half]}>
+            <Text style={styles.subHeading}>Dual:</Text>
+            {[formatObjective(dual, "W"), ...dualConstraints, ...formatBounds(dual)].map((equation, index) => (
+              <Text key={index} style={styles.equationText}>
+                {equation}
+              </Text>
+            ))}
+          </View>
+        </View>
+
+        {kinds?.some((kind) => kind !== "continuous") ? (
+          <Text style={styles.noteText}>Integrality is dropped: this is the dual of the LP relaxation.</Text>
+        ) : null}
+
+        {/* Which dual variable prices which row, and which dual row belongs to which variable */}
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Correspondence:</Text>
+          {primalConstraints.map((constraint, i) => (
+            <Text key={`y${i}`} style={styles.equationText}>
+              {yNames[i]} ↔ {constraint}
+            </Text>
+          ))}
+          {dualConstraints.map((constraint, j) => (
+            <Text key={`x${j}`} style={styles.equationText}>
+              {xNames[j]} ↔ {constraint}
+            </Text>
+          ))}
+        </View>
+
+        {check ? (
+          <View style={styles.equationsContainer}>
+            <Text style={styles.subHeading}>Complementary Slackness:</Text>
+            <Text style={styles.equationText}>Primal: {statusText(check.primal.status)}</Text>
+            {check.primal.values?.map((value, j) => (
+              <Text key={`x${j}`} style={styles.equationText}>
+                {xNames[j]} = {decimalToFraction(value)}
+              </Text>
+            ))}
+            {check.primal.objective !== null ? (
+              <Text style={styles.equationText}>Z = {decimalToFraction(check.primal.objective)}</Text>
+            ) : null}
+            <Text style={styles.equationText}>Dual: {statusText(check.dual.status)}</Text>
+            {check.dual.values?.map((value, i) => (
+              <Text key={`y${i}`} style={styles.equationText}>
+                {yNames[i]} = {decimalToFraction(value)}
+              </Text>
+            ))}
+            {check.dual.objective !== null ? (
+              <Text style={styles.equationText}>W = {decimalToFraction(check.dual.objective)}</Text>
+            ) : null}
+
+            {check.conditions ? (
+              <>
+                {check.conditions.map((condition, index) => (
+                  <Text key={index} style={[styles.equationText, { color: condition.holds ? "#A5D6A7" : "#FFAB91" }]}>
+                    {condition.holds ? "✓" : "✗"} {condition.description}
+                  </Text>
+                ))}
+                <Text style={[styles.equationText, { fontStyle: "normal" }]}>
+                  {check.conditions.every((condition) => condition.holds)
+                    ? "Every product is zero, so both solutions are optimal."
+                    : "Some products are not zero, so the two solutions are not a complementary pair."}
+                </Text>
+              </>
+            ) : (
+              <Text style={[styles.equationText, { fontStyle: "normal" }]}>
+                Complementary slackness needs optimal solutions of both problems. An unbounded problem has an infeasible dual.
+              </Text>
+            )}
+          </View>
+        ) : null}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.nextButton} onPress={handleSolveDual}>
+            <Text style={styles.nextButtonText}>Solve the Dual</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ marginTop: 10, flexDirection: "row", justifyContent: "space-between" }}>
+          <TouchableOpacity style={styles.solveButton} onPress={handleCheckSlackness}>
+            <Text style={styles.solveButtonText}>Check Complementary Slackness</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  sideBySide: { flexDirection: "row", justifyContent: "space-between" },
+  half: { flex: 1, marginHorizontal: 4 },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  noteText: { color: "#fff", fontSize: 14, marginBottom: 20, textAlign: "center" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  solveButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 30, alignItems: "center", flex: 1 },
+  solveButtonText: { color: "#fff", fontWeight: "bold" },
+});
@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useRoute, useNavigation, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  arithmeticFor,
+  chooseDualPivot,
+  choosePivot,
+  createDualSimplexTable,
+  formatConstraints,
+  formatNonNegativity,
+  formatObjective,
+  formatSubstitution,
+  isDecisionColumn,
+  isDualFeasible,
+  isPrimalFeasible,
+  LPModel,
+  Scalar,
+  MAX_ITERATIONS,
+  nextDualIteration,
+  slackColumnLabels,
+  solve,
+  toLessOrEqualForm,
+  SolverSettings,
+  SolveStatus,
+  substituteBounds,
+  Tableau,
+  plotRay,
+  unboundedRay,
+  VariableSubstitution,
+  withPivotRule,
+} from "@/lib/simplex";
+import SimplexTable from "@/components/SimplexTable";
+import SolutionSummary from "@/components/SolutionSummary";
+import UnboundedRayCard from "@/components/UnboundedRayCard";
+import GraphicalPlot from "@/components/GraphicalPlot";
+import DualSolutionCard from "@/components/DualSolutionCard";
+
+type RootStackParamList = {
+  Home: undefined;
+  NextComponent: { optimization: string; variables: string; constraints: string };
+  DualSimplex: LPModel & SolverSettings;
+};
+
+type DualSimplexRouteProp = RouteProp<RootStackParamList, "DualSimplex">;
+
+const statusMessage = (status: SolveStatus, error?: string): string => {
+  switch (status) {
+    case SolveStatus.Optimal: return "Optimal solution reached.";
+    case SolveStatus.Unbounded: return "Problem is unbounded (no valid leaving variable).";
+    case SolveStatus.Infeasible: return "Problem is infeasible (a negative RHS row has no negative coefficient).";
+    case SolveStatus.IterationLimit: return "Stopped: reached maximum automatic iterations limit.";
+    case SolveStatus.Cycling: return "Stopped: cycling detected (a basis repeated). Try Bland's rule.";
+    case SolveStatus.NotDualFeasible:
+      return "The tableau is not dual feasible (some Cj - Zj violate optimality) while an RHS is negative. Use Two-Phase or Big-M instead.";
+    default: return "Error during pivot: " + error;
+  }
+};
+
+export default function DualSimplexPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<DualSimplexRouteProp>();
+  const { objective, constraintsMatrix, rhs, optType, constraintTypes, arithmetic, pivotRule, bounds, variableNames, constraintNames, exactValues } =
+    route.params;
+
+  // Core simplex state
+  const [tableau, setTableau] = useState<Tableau<Scalar> | null>(null);
+  const [initialTableau, setInitialTableau] = useState<Tableau<Scalar> | null>(null); // kept for reset
+  const [equations, setEquations] = useState<string[]>([]);
+  const [enteringVar, setEnteringVar] = useState<string | null>(null);
+  const [leavingVar, setLeavingVar] = useState<string | null>(null);
+  const [degenerate, setDegenerate] = useState<boolean>(false);
+  const [iteration, setIteration] = useState<number>(1);
+  const [message, setMessage] = useState<string | null>(null);
+  const [substitution, setSubstitution] = useState<VariableSubstitution[]>([]);
+  const [solvedModel, setSolvedModel] = useState<LPModel | null>(null); // the model the tableau was built from
+  const [originalModel, setOriginalModel] = useState<LPModel | null>(null); // its rows before the ≤ rewrite
+
+  // The ray behind an "unbounded" verdict, drawn on the plot for two-variable problems
+  const ray = useMemo(
+    () =>
+      tableau && enteringVar && message === statusMessage(SolveStatus.Unbounded)
+        ? unboundedRay(tableau, enteringVar, objective, substitution)
+        : null,
+    [tableau, enteringVar, message, objective, substitution]
+  );
+  const rayOnPlot = useMemo(() => (tableau && ray ? plotRay(tableau, ray) : null), [tableau, ray]);
+  const plotModel = useMemo<LPModel | null>(
+    () =>
+      objective.length === 2
+        ? { objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames }
+        : null,
+    [objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames]
+  );
+
+  // every row of the ≤ form has its own slack, which shows the constraint it belongs to
+  const columnLabels = useMemo(() => (solvedModel ? slackColumnLabels(solvedModel) : {}), [solvedModel]);
+
+  useEffect(() => {
+    // bounded and free variables are rewritten over nonnegative columns first
+    const { model, substitution } = substituteBounds({
+      objective,
+      constraintsMatrix,
+      rhs,
+      optType,
+      constraintTypes,
+      bounds,
+      variableNames,
+      constraintNames,
+    });
+    setSubstitution(substitution);
+    setOriginalModel(model);
+    // ≥ rows are multiplied by -1 and = rows split, so every row gets a slack
+    const lessOrEqual = toLessOrEqualForm(model);
+    setSolvedModel(lessOrEqual);
+    const initial = withPivotRule(createDualSimplexTable(model, arithmeticFor(arithmetic ?? "float", exactValues)), pivotRule ?? "dantzig");
+    setEquations([
+      formatObjective(model),
+      ...formatConstraints(lessOrEqual),
+      ...formatNonNegativity(initial.variables.filter(isDecisionColumn)),
+      ...formatSubstitution(substitution),
+    ]);
+    setInitialTableau(initial);
+    showTableau(initial, 1);
+  }, [objective, constraintsMatrix, rhs, optType, constraintTypes, arithmetic, exactValues, pivotRule, bounds, variableNames, constraintNames]);
+
+  // Display a tableau along with the pivot the next iteration would make: a dual simplex
+  // pivot while some RHS is negative, a regular primal pivot afterwards
+  const showTableau = (next: Tableau<Scalar>, iterationNumber: number) => {
+    const dual = chooseDualPivot(next);
+    const primal = choosePivot(next);
+    setTableau(next);
+    setIteration(iterationNumber);
+    setMessage(isPrimalFeasible(next) || isDualFeasible(next) ? null : statusMessage(SolveStatus.NotDualFeasible));
+    if (dual.kind === "feasible") {
+      setEnteringVar(primal.kind === "optimal" ? null : primal.entering);
+      setLeavingVar(primal.kind === "pivot" ? primal.leaving : null);
+      setDegenerate(primal.kind === "pivot" && primal.degenerate);
+    } else {
+      setEnteringVar(dual.kind === "pivot" ? dual.entering : null);
+      setLeavingVar(dual.leaving);
+      setDegenerate(dual.kind === "pivot" && dual.degenerate);
+    }
+  };
+
+  const handleNextIteration = () => {
+    if (!tableau) return;
+
+    const step = nextDualIteration(tableau);
+    if (step.tableau !== tableau) {
+      showTableau(step.tableau, iteration + 1);
+    }
+    if (step.status !== null) {
+      setMessage(statusMessage(step.status, step.error));
+      setEnteringVar(step.status === SolveStatus.Unbounded ? step.entering : null);
+      setLeavingVar(step.status === SolveStatus.Infeasible ? step.leaving : null);
+    }
+  };
+
+  const handleReset = () => {
+    if (!initialTableau) return;
+    showTableau(initialTableau, 1);
+  };
+
+  // Solve to optimal automatically, replaying each tableau with a small delay
+  const handleSolveToOptimal = () => {
+    if (!tableau) return;
+    setMessage(null);
+
+    const result = solve(tableau, MAX_ITERATIONS, nextDualIteration);
+    result.history.slice(1).forEach((next, i) => {
+      setTimeout(() => showTableau(next, iteration + i + 1), 100 * i);
+    });
+    setTimeout(() => {
+      setMessage(statusMessage(result.status, result.error));
+      setEnteringVar(result.entering);
+      setLeavingVar(null);
+    }, 100 * result.iterations);
+  };
+
+  // no further pivot is possible once optimal, nor while the dual simplex can't start
+  const finished = message === statusMessage(SolveStatus.Optimal) || message === statusMessage(SolveStatus.NotDualFeasible);
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Dual Simplex Method</Text>
+
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Problem in ≤ Form:</Text>
+          {equations.map((equation, index) => (
+            <Text key={index} style={styles.equationText}>
+              {equation}
+            </Text>
+          ))}
+        </View>
+
+        <Text style={styles.subHeading}>Dual Simplex Table (Iteration {iteration})</Text>
+
+        {tableau && <SimplexTable tableau={tableau} columnLabels={columnLabels} />}
+
+        {/* Pivot information */}
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Pivot Information:</Text>
+          <Text style={styles.equationText}>Entering Variable: {enteringVar ?? "None"}</Text>
+          <Text style={styles.equationText}>Leaving Variable: {leavingVar ?? "None"}</Text>
+          {leavingVar && degenerate ? (
+            <Text style={styles.equationText}>Degenerate pivot: the minimum ratio is 0, so the objective value will not change.</Text>
+          ) : null}
+          {message ? <Text style={[styles.equationText, { fontStyle: "normal" }]}>{message}</Text> : null}
+        </View>
+
+        {tableau && ray && <UnboundedRayCard tableau={tableau} ray={ray} />}
+        {plotModel && rayOnPlot && <GraphicalPlot model={plotModel} ray={rayOnPlot} />}
+
+        {tableau && message === statusMessage(SolveStatus.Optimal) ? (
+          <>
+            <SolutionSummary tableau={tableau} objective={objective} substitution={substitution} columnLabels={columnLabels} />
+            {originalModel && <DualSolutionCard tableau={tableau} model={originalModel} lessOrEqual />}
+          </>
+        ) : null}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Reset</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.nextButton, finished && { backgroundColor: "#9E9E9E" }]}
+            onPress={handleNextIteration}
+            disabled={finished}
+          >
+            <Text style={styles.nextButtonText}>Next Iteration</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ marginTop: 10, flexDirection: "row", justifyContent: "space-between" }}>
+          <TouchableOpacity
+            style={[styles.solveButton, finished && { backgroundColor: "#9E9E9E" }]}
+            onPress={handleSolveToOptimal}
+            disabled={finished}
+          >
+            <Text style={styles.solveButtonText}>Solve to Optimal</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  resetButton: { backgroundColor: "#FFD54F", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginHorizontal: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  resetButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  solveButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 30, alignItems: "center", flex: 1 },
+  solveButtonText: { color: "#fff", fontWeight: "bold" },
+});
\ No newline at end of file
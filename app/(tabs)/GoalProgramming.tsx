@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useRoute, useNavigation, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  arithmeticFor,
+  createGoalTable,
+  decimalToFraction,
+  formatGoalProgram,
+  formatSubstitution,
+  formatValue,
+  Goal,
+  GoalMode,
+  goalOutcomes,
+  GoalProgram,
+  goalSolution,
+  GoalTableau,
+  levelAchievements,
+  LPModel,
+  nextGoalIteration,
+  Scalar,
+  solveGoalProgram,
+  SolverSettings,
+  SolveStatus,
+} from "@/lib/simplex";
+import GoalTable from "@/components/GoalTable";
+
+type RootStackParamList = {
+  Home: undefined;
+  NextComponent: { optimization: string; variables: string; constraints: string };
+  GoalProgramming: LPModel & SolverSettings & { goals: Goal[]; goalMode: GoalMode };
+};
+
+type GoalProgrammingRouteProp = RouteProp<RootStackParamList, "GoalProgramming">;
+
+const statusMessage = (status: SolveStatus, error?: string): string => {
+  switch (status) {
+    case SolveStatus.Optimal: return "Every priority level is at its best achievable value.";
+    case SolveStatus.Unbounded: return "Problem is unbounded (no valid leaving variable).";
+    case SolveStatus.IterationLimit: return "Stopped: reached maximum automatic iterations limit.";
+    case SolveStatus.Cycling: return "Stopped: cycling detected (a basis repeated). Try Bland's rule.";
+    case SolveStatus.Infeasible: return "The hard constraints have no common solution, so no goal can be considered.";
+    default: return "Error during pivot: " + error;
+  }
+};
+
+export default function GoalProgrammingPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<GoalProgrammingRouteProp>();
+  const {
+    objective,
+    constraintsMatrix,
+    rhs,
+    optType,
+    constraintTypes,
+    arithmetic,
+    pivotRule,
+    bounds,
+    kinds,
+    variableNames,
+    constraintNames,
+    goals,
+    goalMode,
+    exactValues,
+  } = route.params;
+
+  const program = useMemo<GoalProgram>(
+    () => ({
+      model: { objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames },
+      goals,
+      mode: goalMode,
+    }),
+    [objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames, goals, goalMode]
+  );
+
+  // Lexicographic tableau state; one Cj - Zj row per priority level
+  const [goal, setGoal] = useState<GoalTableau<Scalar> | null>(null);
+  const [initialGoal, setInitialGoal] = useState<GoalTableau<Scalar> | null>(null); // kept for reset
+  const [enteringVar, setEnteringVar] = useState<string | null>(null);
+  const [leavingVar, setLeavingVar] = useState<string | null>(null);
+  const [iteration, setIteration] = useState<number>(1);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const initial = createGoalTable(program, arithmeticFor(arithmetic ?? "float", exactValues), pivotRule ?? "dantzig");
+    setInitialGoal(initial);
+    showGoal(initial, 1);
+  }, [program, arithmetic, exactValues, pivotRule]);
+
+  const showGoal = (next: GoalTableau<Scalar>, iterationNumber: number) => {
+    setGoal(next);
+    setIteration(iterationNumber);
+    setMessage(null);
+    setEnteringVar(null);
+    setLeavingVar(null);
+  };
+
+  const handleNextIteration = () => {
+    if (!goal) return;
+
+    const step = nextGoalIteration(goal);
+    if (step.goal.levels !== goal.levels) {
+      showGoal(step.goal, iteration + 1);
+    } else {
+      setGoal(step.goal);
+    }
+    setEnteringVar(step.entering);
+    setLeavingVar(step.leaving);
+    if (step.status !== null) {
+      setMessage(statusMessage(step.status, step.error));
+    }
+  };
+
+  const handleReset = () => {
+    if (!initialGoal) return;
+    showGoal(initialGoal, 1);
+  };
+
+  // Solve to optimal automatically, replaying each tableau with a small delay
+  const handleSolveToOptimal = () => {
+    if (!goal) return;
+    setMessage(null);
+
+    const result = solveGoalProgram(goal);
+    result.history.slice(1).forEach((next, i) => {
+      setTimeout(() => showGoal(next, iteration + i + 1), 100 * i);
+    });
+    setTimeout(() => {
+      setGoal(result.goal);
+      setMessage(statusMessage(result.status, result.error));
+    }, 100 * result.iterations);
+  };
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  const finished = message === statusMessage(SolveStatus.Optimal);
+  const equations = goal ? [...formatGoalProgram(program), ...formatSubstitution(goal.substitution)] : [];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>{goalMode === "preemptive" ? "Preemptive" : "Weighted"} Goal Programming</Text>
+
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Problem Formulation:</Text>
+          {equations.map((equation, index) => (
+            <Text key={index} style={styles.equationText}>
+              {equation}
+            </Text>
+          ))}
+        </View>
+
+        {kinds?.some((kind) => kind !== "continuous") ? (
+          <Text style={styles.noteText}>Integrality is dropped: goals are met over the LP relaxation.</Text>
+        ) : null}
+
+        <Text style={styles.subHeading}>Goal Table (Iteration {iteration})</Text>
+        {goal && (
+          <Text style={styles.noteText}>
+            Minimizing {goal.labels[goal.current]}. Columns with a nonzero Cj - Zj on a level above it may not enter.
+          </Text>
+        )}
+
+        {goal && <GoalTable goal={goal} />}
+
+        {/* Pivot information */}
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Pivot Information:</Text>
+          <Text style={styles.equationText}>Entering Variable: {enteringVar ?? "None"}</Text>
+          <Text style={styles.equationText}>Leaving Variable: {leavingVar ?? "None"}</Text>
+          {message ? <Text style={[styles.equationText, { fontStyle: "normal" }]}>{message}</Text> : null}
+        </View>
+
+        {/* Achievement per priority level, then how each goal came out */}
+        {goal && finished ? (
+          <View style={styles.equationsContainer}>
+            <Text style={styles.subHeading}>Achievement:</Text>
+            {levelAchievements(goal).map(({ label, value, achieved }) => (
+              <Text key={label} style={styles.equationText}>
+                {label}: {formatValue(goal.levels[0], value)}
+                {achieved ? " (fully achieved)" : " (unwanted deviation left)"}
+              </Text>
+            ))}
+            {Object.entries(goalSolution(goal)).map(([name, value]) => (
+              <Text key={name} style={styles.equationText}>
+                {name} = {formatValue(goal.levels[0], value)}
+              </Text>
+            ))}
+            {goalOutcomes(goal, program).map((outcome, k) => (
+              <Text key={k} style={[styles.equationText, { color: outcome.achieved ? "#A5D6A7" : "#FFAB91" }]}>
+                {outcome.achieved ? "✓" : "✗"} Goal {k + 1}: {formatValue(goal.levels[0], outcome.value)}{" "}
+                {goals[k].type} {decimalToFraction(goals[k].target)}
+                {"  "}(d⁻ = {formatValue(goal.levels[0], outcome.under)}, d⁺ = {formatValue(goal.levels[0], outcome.over)})
+              </Text>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Reset</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.nextButton, finished && { backgroundColor: "#9E9E9E" }]}
+            onPress={handleNextIteration}
+            disabled={finished}
+          >
+            <Text style={styles.nextButtonText}>Next Iteration</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ marginTop: 10, flexDirection: "row", justifyContent: "space-between" }}>
+          <TouchableOpacity style={styles.solveButton} onPress={handleSolveToOptimal}>
+            <Text style={styles.solveButtonText}>Solve to Optimal</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  noteText: { color: "#fff", fontSize: 14, marginBottom: 10, textAlign: "center" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  resetButton: { backgroundColor: "#FFD54F", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginHorizontal: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  resetButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  solveButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 30, alignItems: "center", flex: 1 },
+  solveButtonText: { color: "#fff", fontWeight: "bold" },
+});
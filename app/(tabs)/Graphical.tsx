@@ -0,0 +1,110 @@
+import React, { useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useRoute, useNavigation, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  decimalToFraction,
+  formatEquations,
+  LPModel,
+  modelVariableNames,
+  solveGraphically,
+  SolverSettings,
+} from "@/lib/simplex";
+import GraphicalPlot from "@/components/GraphicalPlot";
+
+type RootStackParamList = {
+  Home: undefined;
+  NextComponent: { optimization: string; variables: string; constraints: string };
+  Graphical: LPModel & SolverSettings;
+};
+
+type GraphicalRouteProp = RouteProp<RootStackParamList, "Graphical">;
+
+export default function GraphicalPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<GraphicalRouteProp>();
+  const { objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames } = route.params;
+
+  const model = useMemo<LPModel>(
+    () => ({ objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames }),
+    [objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames]
+  );
+  const solution = useMemo(() => solveGraphically(model), [model]);
+  const [x1, x2] = modelVariableNames(model);
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Graphical Method</Text>
+
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Problem Formulation:</Text>
+          {formatEquations(model).map((equation, index) => (
+            <Text key={index} style={styles.equationText}>
+              {equation}
+            </Text>
+          ))}
+        </View>
+
+        <GraphicalPlot model={model} />
+
+        {/* Corner point method: the optimum of a bounded LP is at a vertex */}
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Corner Points:</Text>
+          <View style={styles.row}>
+            <Text style={[styles.cell, styles.headerCell]}>{x1}</Text>
+            <Text style={[styles.cell, styles.headerCell]}>{x2}</Text>
+            <Text style={[styles.cell, styles.headerCell]}>Z</Text>
+          </View>
+          {solution.corners.map((corner, index) => (
+            <View key={index} style={[styles.row, corner.optimal && styles.optimalRow]}>
+              <Text style={styles.cell}>{decimalToFraction(corner.x)}</Text>
+              <Text style={styles.cell}>{decimalToFraction(corner.y)}</Text>
+              <Text style={styles.cell}>{decimalToFraction(corner.z)}</Text>
+            </View>
+          ))}
+          <Text style={[styles.equationText, { fontStyle: "normal", marginTop: 10 }]}>
+            {solution.status === "infeasible"
+              ? "The feasible region is empty, so the problem is infeasible."
+              : solution.status === "unbounded"
+                ? `Z can be made arbitrarily ${optType === "Maximize" ? "large" : "small"}, so the problem is unbounded.`
+                : `The highlighted corner${solution.corners.filter((corner) => corner.optimal).length > 1 ? "s are" : " is"} optimal.`}
+          </Text>
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  row: { flexDirection: "row" },
+  optimalRow: { backgroundColor: "rgba(255, 213, 79, 0.3)" },
+  cell: { flex: 1, color: "#fff", padding: 6, fontSize: 14, textAlign: "center", borderBottomWidth: 1, borderColor: "rgba(255, 255, 255, 0.2)" },
+  headerCell: { fontWeight: "bold" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   View,
   Text,
@@ -10,45 +10,191 @@ import {
   Platform,
   TouchableWithoutFeedback,
   Keyboard,
+  Share,
 } from "react-native";
 import { Picker } from '@react-native-picker/picker';
 import { useNavigation, NavigationProp } from "@react-navigation/native";
+import {
+  ArithmeticMode,
+  ConstraintType,
+  decisionVariableNames,
+  evaluateExpression,
+  exactCellValues,
+  formatModelFile,
+  fractionalCutsApply,
+  fractionFromNumber,
+  isAuxiliaryColumn,
+  isIdentifier,
+  Goal,
+  GoalMode,
+  LPModel,
+  OptType,
+  ModelFormat,
+  modelConstraintNames,
+  modelFormatLabels,
+  modelVariableNames,
+  parseModelFile,
+  PivotRule,
+  SolverSettings,
+  substituteBounds,
+  VariableBound,
+  VariableKind,
+} from "@/lib/simplex";
 
 type RootStackParamList = {
   Home: undefined;
   NextComponent: { optimization: string; variables: string; constraints: string };
-  Solution: {
-    objective: number[];
-    constraintsMatrix: number[][];
-    rhs: number[];
-    optType: string;
-    constraintTypes: string[];
-  };
-  Phase1: {
-    objective: number[];
-    constraintsMatrix: number[][];
-    rhs: number[];
-    optType: string;
-    constraintTypes: string[];
+  Solution: LPModel & SolverSettings;
+  Phase1: LPModel & SolverSettings;
+  BigM: LPModel & SolverSettings;
+  DualSimplex: LPModel & SolverSettings;
+  BranchAndBound: LPModel & SolverSettings;
+  DualProblem: LPModel & SolverSettings;
+  Graphical: LPModel & SolverSettings;
+  Parametric: LPModel & SolverSettings;
+  GoalProgramming: LPModel & SolverSettings & { goals: Goal[]; goalMode: GoalMode };
+};
+
+// How problems with ≥ or = rows, or a negative RHS, get to a feasible basis
+type ArtificialMethod = "Two-Phase" | "Big-M" | "Dual Simplex";
+
+const methodRoutes = {
+  "Two-Phase": "Phase1",
+  "Big-M": "BigM",
+  "Dual Simplex": "DualSimplex",
+} as const;
+
+const pivotRuleLabels: Record<PivotRule, string> = {
+  dantzig: "Dantzig (largest Cj - Zj)",
+  bland: "Bland (smallest subscript)",
+  "greatest-improvement": "Greatest improvement",
+  "steepest-edge": "Steepest edge",
+};
+
+// How integer programs are solved; Gomory's fractional cuts need every variable and every coefficient,
+// right-hand side and bound to be integer
+type IntegerMethod = "Branch and Bound" | "Gomory Cuts";
+
+const integerMethods: IntegerMethod[] = ["Branch and Bound", "Gomory Cuts"];
+
+// One objective row, or several goals whose deviations from their targets are minimized
+type ObjectiveMode = "Single Objective" | "Goal Programming";
+
+const objectiveModes: ObjectiveMode[] = ["Single Objective", "Goal Programming"];
+
+const goalModeLabels: Record<GoalMode, string> = {
+  preemptive: "Preemptive",
+  weighted: "Weighted",
+};
+
+// The cell grid, or the whole model typed as "max: 3x + 2y; c1: x + y <= 4; ..."
+type InputMode = "Table" | "Text";
+
+const inputModes: InputMode[] = ["Table", "Text"];
+
+const textFormatHints: Record<ModelFormat, string> = {
+  algebraic: "One statement per line or separated by \";\": max: 3x + 2y; c1: x + y <= 4; x free; y int; 0 <= z <= 10 bounds a variable.",
+  lp: "Paste or edit a CPLEX LP file: Maximize / Subject To / Bounds / General / Binary / End sections.",
+  mps: "Paste or edit a free MPS file: NAME / OBJSENSE / ROWS / COLUMNS / RHS / BOUNDS / ENDATA sections.",
+};
+
+// Cells take exact expressions such as "3/4", "1 1/2" or "2*3-1"; an invalid cell counts as zero until fixed
+const cellValue = (text: string): number => {
+  const result = evaluateExpression(text);
+  return result.ok ? result.value.valueOf() : 0;
+};
+
+const cellError = (text: string): string | null => {
+  const result = evaluateExpression(text);
+  return result.ok ? null : `"${text.trim()}" (character ${result.column}): ${result.message}`;
+};
+
+// A loaded value is written as the fraction it stands for when its decimal would be rounded, e.g. 1/3
+const cellText = (value: number): string => {
+  const fraction = fractionFromNumber(value);
+  const decimal = String(value);
+  return /^-?\d+(\.\d+)?$/.test(decimal) && fraction.equals(decimal) ? decimal : fraction.toFraction();
+};
+
+// A grid edit as a layout: the old index each new row or column takes its values from, or null for a blank one
+type Layout = (number | null)[];
+
+const arrange = <V,>(values: V[], layout: Layout, fill: () => V): V[] =>
+  layout.map((i) => (i === null ? fill() : i < values.length ? values[i] : fill()));
+
+const indices = (length: number): Layout => Array.from({ length }, (_, i) => i);
+
+const insertLayout = (length: number, at: number): Layout => [...indices(at), null, ...indices(length).slice(at)];
+
+const removeLayout = (length: number, at: number): Layout => indices(length).filter((i) => i !== at);
+
+const swapLayout = (length: number, a: number, b: number): Layout => {
+  const layout = indices(length);
+  [layout[a], layout[b]] = [layout[b], layout[a]];
+  return layout;
+};
+
+const resizeLayout = (length: number, size: number): Layout =>
+  Array.from({ length: size }, (_, i) => (i < length ? i : null));
+
+// Names travel with their row or column and new ones take the first unused prefix + number, except that
+// untouched defaults (x1, x2, ...) are renumbered when lines are added or removed
+const arrangeNames = (names: string[], layout: Layout, prefix: string): string[] => {
+  const isDefault = names.every((name, i) => name === `${prefix}${i + 1}`);
+  const isPermutation = layout.length === names.length && layout.every((i) => i !== null);
+  if (isDefault && !isPermutation) return layout.map((_, i) => `${prefix}${i + 1}`);
+  const taken = new Set(names);
+  const fresh = () => {
+    let k = 1;
+    while (taken.has(`${prefix}${k}`)) k++;
+    taken.add(`${prefix}${k}`);
+    return `${prefix}${k}`;
   };
+  return arrange(names, layout, fresh);
 };
 
 type NextComponentProps = {
   optimization: string;
   variables: string;
   constraints: string;
+  // rows an infeasibility diagnosis found to conflict; highlighted until edited
+  conflictingRows?: number[];
+  // the grid's size after rows or columns are added, removed or loaded, for the home screen's counts
+  onSizeChange?: (variables: number, constraints: number) => void;
 };
 
-export default function NextComponent({ optimization, variables, constraints }: NextComponentProps) {
+export default function NextComponent({ optimization, variables, constraints, conflictingRows, onSizeChange }: NextComponentProps) {
   const navigation = useNavigation<NavigationProp<RootStackParamList>>();
 
   const numVars = parseInt(variables) || 0;
   const numConstraints = parseInt(constraints) || 0;
 
+  // Maximize or minimize; loading a text model can change it
+  const [optType, setOptType] = useState<OptType>(optimization as OptType);
+
+  // Column and row names; a text model brings its own
+  const [variableNames, setVariableNames] = useState<string[]>(decisionVariableNames(numVars));
+  const [constraintNames, setConstraintNames] = useState<string[]>([]);
+
+  // Text mode is parsed as it is typed, so errors show inline; it also reads and writes LP and MPS files
+  const [inputMode, setInputMode] = useState<InputMode>("Table");
+  const [textFormat, setTextFormat] = useState<ModelFormat>("algebraic");
+  const [modelText, setModelText] = useState<string>("");
+  const parsedText = useMemo(() => parseModelFile(textFormat, modelText), [textFormat, modelText]);
+
   // Objective function row
   const [objectiveRow, setObjectiveRow] = useState<string[]>(Array(numVars).fill(""));
   const [objectiveRHS, setObjectiveRHS] = useState<string>("");
 
+  // Goal rows: coefficients, ≥ / ≤ / = the target, a priority level and a weight
+  const [objectiveMode, setObjectiveMode] = useState<ObjectiveMode>("Single Objective");
+  const [goalMode, setGoalMode] = useState<GoalMode>("preemptive");
+  const [goalRows, setGoalRows] = useState<string[][]>([Array(numVars).fill("")]);
+  const [goalTypes, setGoalTypes] = useState<ConstraintType[]>(["≥"]);
+  const [goalTargets, setGoalTargets] = useState<string[]>([""]);
+  const [goalPriorities, setGoalPriorities] = useState<string[]>(["1"]);
+  const [goalWeights, setGoalWeights] = useState<string[]>(["1"]);
+
   // Constraints rows
   const [constraintRows, setConstraintRows] = useState<string[][]>(
     Array.from({ length: numConstraints }, () => Array(numVars).fill(""))
@@ -56,10 +202,156 @@ export default function NextComponent({ optimization, variables, constraints }:
   const [constraintRHS, setConstraintRHS] = useState<string[]>(Array(numConstraints).fill(""));
   
   // Constraint types (≤, ≥, =)
-  const [constraintTypes, setConstraintTypes] = useState<string[]>(
+  const [constraintTypes, setConstraintTypes] = useState<ConstraintType[]>(
     Array(numConstraints).fill("≤")
   );
 
+  // Variable bounds; an empty lower bound means -∞ and an empty upper bound ∞
+  const [lowerBounds, setLowerBounds] = useState<string[]>(Array(numVars).fill("0"));
+  const [upperBounds, setUpperBounds] = useState<string[]>(Array(numVars).fill(""));
+
+  // Integer and binary variables switch the solver to branch and bound
+  const [variableKinds, setVariableKinds] = useState<VariableKind[]>(Array(numVars).fill("continuous"));
+
+  // Floating point or exact rational tableau arithmetic
+  const [arithmetic, setArithmetic] = useState<ArithmeticMode>("float");
+
+  // Entering variable selection; Bland's rule guarantees the simplex method terminates
+  const [pivotRule, setPivotRule] = useState<PivotRule>("dantzig");
+
+  const [artificialMethod, setArtificialMethod] = useState<ArtificialMethod>("Two-Phase");
+
+  const [integerMethod, setIntegerMethod] = useState<IntegerMethod>("Branch and Bound");
+
+  // Conflicting constraints reported by Phase 1
+  const [conflicts, setConflicts] = useState<number[]>(conflictingRows ?? []);
+
+  useEffect(() => {
+    setConflicts(conflictingRows ?? []);
+  }, [conflictingRows]);
+
+  const clearConflict = (row: number) => {
+    setConflicts((rows) => rows.filter((r) => r !== row));
+  };
+
+  // The column or row the grid toolbar acts on
+  const [selectedVariable, setSelectedVariable] = useState<number | null>(null);
+  const [selectedConstraint, setSelectedConstraint] = useState<number | null>(null);
+
+  // Every per-variable array is rearranged together, so the columns stay aligned
+  const rearrangeVariables = (layout: Layout) => {
+    const blank = () => "";
+    setObjectiveRow(arrange(objectiveRow, layout, blank));
+    setConstraintRows(constraintRows.map((row) => arrange(row, layout, blank)));
+    setGoalRows(goalRows.map((row) => arrange(row, layout, blank)));
+    setLowerBounds(arrange(lowerBounds, layout, () => "0"));
+    setUpperBounds(arrange(upperBounds, layout, blank));
+    setVariableKinds(arrange(variableKinds, layout, (): VariableKind => "continuous"));
+    setVariableNames(arrangeNames(variableNames, layout, "x"));
+  };
+
+  // Likewise every per-constraint array; highlighted conflicts follow their rows
+  const rearrangeConstraints = (layout: Layout) => {
+    const width = objectiveRow.length;
+    setConstraintRows(arrange(constraintRows, layout, () => Array(width).fill("")));
+    setConstraintRHS(arrange(constraintRHS, layout, () => ""));
+    setConstraintTypes(arrange(constraintTypes, layout, (): ConstraintType => "≤"));
+    // without names of their own, rows are called c1, c2, ... by position
+    if (constraintNames.length > 0) setConstraintNames(arrangeNames(constraintNames, layout, "c"));
+    setConflicts(conflicts.flatMap((row) => (layout.includes(row) ? [layout.indexOf(row)] : [])));
+  };
+
+  // The counts and sense chosen on the home screen resize the grid rather than starting it over; the
+  // counts only change once editing them ends, and a count below one is put back to the grid's size
+  useEffect(() => {
+    if (numVars >= 1 && numVars !== objectiveRow.length) {
+      rearrangeVariables(resizeLayout(objectiveRow.length, numVars));
+      setSelectedVariable(null);
+    } else if (numVars < 1 && objectiveRow.length >= 1) {
+      onSizeChange?.(objectiveRow.length, constraintRows.length);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [numVars]);
+
+  useEffect(() => {
+    if (numConstraints >= 1 && numConstraints !== constraintRows.length) {
+      rearrangeConstraints(resizeLayout(constraintRows.length, numConstraints));
+      setSelectedConstraint(null);
+    } else if (numConstraints < 1 && constraintRows.length >= 1) {
+      onSizeChange?.(objectiveRow.length, constraintRows.length);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [numConstraints]);
+
+  // Rows and columns added or removed in the grid, or brought by a loaded model, update the counts
+  useEffect(() => {
+    if (objectiveRow.length !== numVars || constraintRows.length !== numConstraints) {
+      onSizeChange?.(objectiveRow.length, constraintRows.length);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [objectiveRow.length, constraintRows.length]);
+
+  useEffect(() => {
+    setOptType(optimization as OptType);
+  }, [optimization]);
+
+  const handleAddVariable = () => {
+    rearrangeVariables(insertLayout(objectiveRow.length, objectiveRow.length));
+    setSelectedVariable(null);
+  };
+
+  const handleInsertVariable = (at: number) => {
+    rearrangeVariables(insertLayout(objectiveRow.length, at));
+    setSelectedVariable(at);
+  };
+
+  const handleRemoveVariable = (col: number) => {
+    if (objectiveRow.length <= 1) return;
+    rearrangeVariables(removeLayout(objectiveRow.length, col));
+    setSelectedVariable(null);
+  };
+
+  const handleMoveVariable = (col: number, to: number) => {
+    if (to < 0 || to >= objectiveRow.length) return;
+    rearrangeVariables(swapLayout(objectiveRow.length, col, to));
+    setSelectedVariable(to);
+  };
+
+  const handleAddConstraint = () => {
+    rearrangeConstraints(insertLayout(constraintRows.length, constraintRows.length));
+    setSelectedConstraint(null);
+  };
+
+  const handleInsertConstraint = (at: number) => {
+    rearrangeConstraints(insertLayout(constraintRows.length, at));
+    setSelectedConstraint(at);
+  };
+
+  const handleRemoveConstraint = (row: number) => {
+    if (constraintRows.length <= 1) return;
+    rearrangeConstraints(removeLayout(constraintRows.length, row));
+    setSelectedConstraint(null);
+  };
+
+  const handleMoveConstraint = (row: number, to: number) => {
+    if (to < 0 || to >= constraintRows.length) return;
+    rearrangeConstraints(swapLayout(constraintRows.length, row, to));
+    setSelectedConstraint(to);
+  };
+
+  const handleRenameVariable = (col: number, name: string) => {
+    const newNames = [...variableNames];
+    newNames[col] = name;
+    setVariableNames(newNames);
+  };
+
+  // Unnamed rows are left empty and labelled c1, c2, ... by position
+  const handleRenameConstraint = (row: number, name: string) => {
+    const newNames = constraintRows.map((_, i) => constraintNames[i] ?? "");
+    newNames[row] = name;
+    setConstraintNames(newNames);
+  };
+
   // Handle changes
   const handleObjectiveChange = (col: number, value: string) => {
     const newRow = [...objectiveRow];
@@ -70,39 +362,329 @@ export default function NextComponent({ optimization, variables, constraints }:
   const handleObjectiveRHSChange = (value: string) => setObjectiveRHS(value);
 
   const handleConstraintChange = (row: number, col: number, value: string) => {
-    const newRows = [...constraintRows];
+    const newRows = constraintRows.map((r) => [...r]);
     newRows[row][col] = value;
     setConstraintRows(newRows);
+    clearConflict(row);
   };
   
   const handleConstraintRHSChange = (row: number, value: string) => {
     const newRHS = [...constraintRHS];
     newRHS[row] = value;
     setConstraintRHS(newRHS);
+    clearConflict(row);
   };
 
-  const handleConstraintTypeChange = (row: number, value: string) => {
+  const handleConstraintTypeChange = (row: number, value: ConstraintType) => {
     const newTypes = [...constraintTypes];
     newTypes[row] = value;
     setConstraintTypes(newTypes);
+    clearConflict(row);
+  };
+
+  const handleGoalChange = (row: number, col: number, value: string) => {
+    const newRows = goalRows.map((r) => [...r]);
+    newRows[row][col] = value;
+    setGoalRows(newRows);
+  };
+
+  const handleGoalTypeChange = (row: number, value: ConstraintType) => {
+    const newTypes = [...goalTypes];
+    newTypes[row] = value;
+    setGoalTypes(newTypes);
+  };
+
+  const handleGoalTargetChange = (row: number, value: string) => {
+    const newTargets = [...goalTargets];
+    newTargets[row] = value;
+    setGoalTargets(newTargets);
+  };
+
+  const handleGoalPriorityChange = (row: number, value: string) => {
+    const newPriorities = [...goalPriorities];
+    newPriorities[row] = value;
+    setGoalPriorities(newPriorities);
+  };
+
+  const handleGoalWeightChange = (row: number, value: string) => {
+    const newWeights = [...goalWeights];
+    newWeights[row] = value;
+    setGoalWeights(newWeights);
+  };
+
+  // A new goal gets the next priority level
+  const handleAddGoal = () => {
+    setGoalRows([...goalRows, Array(objectiveRow.length).fill("")]);
+    setGoalTypes([...goalTypes, "≥"]);
+    setGoalTargets([...goalTargets, ""]);
+    setGoalPriorities([...goalPriorities, String(goalRows.length + 1)]);
+    setGoalWeights([...goalWeights, "1"]);
   };
 
+  const handleRemoveGoal = (row: number) => {
+    const keep = <V,>(values: V[]) => values.filter((_, i) => i !== row);
+    setGoalRows(keep(goalRows));
+    setGoalTypes(keep(goalTypes));
+    setGoalTargets(keep(goalTargets));
+    setGoalPriorities(keep(goalPriorities));
+    setGoalWeights(keep(goalWeights));
+  };
+
+  const handleLowerBoundChange = (col: number, value: string) => {
+    const newBounds = [...lowerBounds];
+    newBounds[col] = value;
+    setLowerBounds(newBounds);
+  };
+
+  const handleUpperBoundChange = (col: number, value: string) => {
+    const newBounds = [...upperBounds];
+    newBounds[col] = value;
+    setUpperBounds(newBounds);
+  };
+
+  const handleVariableKindChange = (col: number, value: VariableKind) => {
+    const newKinds = [...variableKinds];
+    newKinds[col] = value;
+    setVariableKinds(newKinds);
+  };
+
+  const parseBounds = (): VariableBound[] =>
+    lowerBounds.map((lower, i) => ({
+      lower: lower.trim() === "" ? -Infinity : cellValue(lower),
+      upper: upperBounds[i].trim() === "" ? Infinity : cellValue(upperBounds[i]),
+    }));
+
+  const isTextMode = () => objectiveMode === "Single Objective" && inputMode === "Text";
+
+  // The model as entered in the table, before bounds are substituted
+  const buildTableModel = (): LPModel => ({
+    objective: objectiveRow.map(cellValue),
+    constraintsMatrix: constraintRows.map(row => row.map(cellValue)),
+    rhs: constraintRHS.map(cellValue),
+    constraintTypes,
+    optType,
+    bounds: parseBounds(),
+    variableNames,
+    // labels only when some constraint has one
+    ...(constraintNames.some((name) => name.trim() !== "")
+      ? { constraintNames: constraintRows.map((_, i) => constraintNames[i]?.trim() ?? "") }
+      : {}),
+    kinds: variableKinds,
+    exactValues: exactCellValues(numericCells().map(({ text }) => text)),
+  });
+
+  // The text model while it parses, otherwise the table
+  const buildModel = (): LPModel => (isTextMode() && parsedText.ok ? parsedText.model : buildTableModel());
+
+  // Fill the table from a parsed text model, resizing it to the model's variables and constraints
+  const loadModel = (model: LPModel, names: string[]) => {
+    const cell = (value: number) => (value === 0 ? "" : cellText(value));
+    const bound = (value: number) => (Number.isFinite(value) ? cellText(value) : "");
+    setOptType(model.optType);
+    setObjectiveRow(model.objective.map(cell));
+    setConstraintRows(model.constraintsMatrix.map((row) => row.map(cell)));
+    setConstraintRHS(model.rhs.map(cellText));
+    setConstraintTypes(model.constraintTypes);
+    setLowerBounds((model.bounds ?? []).map(({ lower }) => bound(lower)));
+    setUpperBounds((model.bounds ?? []).map(({ upper }) => bound(upper)));
+    setVariableKinds(model.kinds ?? model.objective.map(() => "continuous"));
+    setVariableNames(model.variableNames ?? decisionVariableNames(model.objective.length));
+    setConstraintNames(names);
+    setGoalRows(goalRows.map((row) => model.objective.map((_, i) => row[i] ?? "")));
+    setConflicts([]);
+    setSelectedVariable(null);
+    setSelectedConstraint(null);
+  };
+
+  // Text starts from what the table holds; going back loads the text if it parses
+  const handleInputModeChange = (mode: InputMode) => {
+    if (mode === inputMode) return;
+    if (mode === "Text" && objectiveRow.some((val) => val.trim() !== "")) {
+      if (!validateNames()) return;
+      setModelText(formatModelFile(textFormat, buildTableModel(), constraintNames));
+    }
+    if (mode === "Table" && parsedText.ok) {
+      loadModel(parsedText.model, parsedText.constraintNames);
+    }
+    setInputMode(mode);
+  };
+
+  // A model that parses is rewritten in the new format if its names carry over; anything else is left as typed
+  const handleTextFormatChange = (format: ModelFormat) => {
+    if (parsedText.ok) {
+      const invalid = [...modelVariableNames(parsedText.model), ...parsedText.constraintNames].find((name) => !isIdentifier(name));
+      if (invalid !== undefined) {
+        alert(`"${invalid}" can't be written as ${modelFormatLabels[format]}. Rename it with letters, digits and _ first.`);
+        return;
+      }
+      setModelText(formatModelFile(format, parsedText.model, parsedText.constraintNames));
+    }
+    setTextFormat(format);
+  };
+
+  // Export through the system share sheet, e.g. to save the file or send it to a desktop solver
+  const handleShareText = () => {
+    Share.share({ message: modelText, title: `${modelFormatLabels[textFormat]} model` });
+  };
+
+  const buildGoals = (): Goal[] =>
+    goalRows.map((row, i) => ({
+      coefficients: row.map(cellValue),
+      type: goalTypes[i],
+      target: cellValue(goalTargets[i]),
+      priority: parseInt(goalPriorities[i]) || 1,
+      weight: cellValue(goalWeights[i]),
+    }));
+
+  const isGoalProgram = () => objectiveMode === "Goal Programming";
+
+  // Every cell the solver will read, labelled for the error message
+  const numericCells = (): { label: string; text: string }[] => {
+    const row = (label: string, cells: string[]) =>
+      cells.map((text, j) => ({ label: `${label}, ${variableNames[j]}`, text }));
+    const objective = isGoalProgram()
+      ? goalRows.flatMap((cells, i) => [
+          ...row(`Goal ${i + 1}`, cells),
+          { label: `Goal ${i + 1} target`, text: goalTargets[i] },
+          { label: `Goal ${i + 1} weight`, text: goalWeights[i] },
+        ])
+      : row("Objective", objectiveRow);
+    return [
+      ...objective,
+      ...constraintRows.flatMap((cells, i) => [
+        ...row(`Constraint ${i + 1}`, cells),
+        { label: `Constraint ${i + 1} RHS`, text: constraintRHS[i] },
+      ]),
+      ...lowerBounds.map((text, i) => ({ label: `Lower bound of ${variableNames[i]}`, text })),
+      ...upperBounds.map((text, i) => ({ label: `Upper bound of ${variableNames[i]}`, text })),
+    ];
+  };
+
+  // The first invalid cell of a row, shown under it
+  const rowError = (cells: string[]): string | null =>
+    cells.map(cellError).find((error) => error !== null) ?? null;
+
   // Check if all constraints are ≤ type
   const areAllConstraintsLessOrEqual = () => {
-    return constraintTypes.every(type => type === "≤");
+    return buildModel().constraintTypes.every(type => type === "≤");
+  };
+
+  // Lower and upper bounds shift the RHS, so check it after substitution
+  const hasNegativeRHS = () => {
+    return substituteBounds(buildModel()).model.rhs.some(val => val < 0);
+  };
+
+  const hasIntegerVariables = () => {
+    return (buildModel().kinds ?? []).some(kind => kind !== "continuous");
+  };
+
+  const isPureInteger = () => {
+    return (buildModel().kinds ?? []).every(kind => kind !== "continuous");
+  };
+
+  const canUseGomoryCuts = () => fractionalCutsApply(buildModel());
+
+  const selectedIntegerMethod = (): IntegerMethod => (canUseGomoryCuts() ? integerMethod : "Branch and Bound");
+
+  // The standard simplex needs the slack basis to be feasible
+  const canUseStandardSimplex = () => {
+    return areAllConstraintsLessOrEqual() && !hasNegativeRHS();
   };
 
   // Validate inputs
+  // Variable names become tableau columns alongside s1, e1, a1, ..., so they must differ from those and each other.
+  // Names and labels are identifiers so that every model file format keeps them as entered.
+  const validateNames = () => {
+    const model = buildModel();
+    const names = modelVariableNames(model);
+    for (const name of names) {
+      if (!isIdentifier(name)) {
+        alert(`"${name}" is not a valid variable name. Use letters, digits and _, starting with a letter.`);
+        return false;
+      }
+      if (isAuxiliaryColumn(name)) {
+        alert(`${name} is reserved for slack, surplus, artificial and cut columns. Please rename the variable.`);
+        return false;
+      }
+    }
+    const repeatedName = names.find((name, i) => names.indexOf(name) !== i);
+    if (repeatedName) {
+      alert(`More than one variable is called ${repeatedName}.`);
+      return false;
+    }
+    const labels = modelConstraintNames(model);
+    const invalidLabel = labels.find((label) => !isIdentifier(label));
+    if (invalidLabel !== undefined) {
+      alert(`"${invalidLabel}" is not a valid constraint label. Use letters, digits and _, starting with a letter.`);
+      return false;
+    }
+    const repeatedLabel = labels.find((label, i) => labels.indexOf(label) !== i);
+    if (repeatedLabel) {
+      alert(`More than one constraint is called ${repeatedLabel}.`);
+      return false;
+    }
+    return true;
+  };
+
   const validateInputs = () => {
+    // A text model is checked by its parser
+    if (isTextMode()) {
+      if (!parsedText.ok) {
+        const { line, column, message } = parsedText.error;
+        alert(`Line ${line}, column ${column}: ${message}`);
+        return false;
+      }
+      return validateNames();
+    }
+
+    if (!validateNames()) {
+      return false;
+    }
+
+    // Check every cell is a number, fraction or expression
+    for (const { label, text } of numericCells()) {
+      const error = cellError(text);
+      if (error) {
+        alert(`${label}: ${error}`);
+        return false;
+      }
+    }
+
     // Check if objective function is filled
     const hasObjective = objectiveRow.some(val => val.trim() !== "");
-    if (!hasObjective) {
+    if (!isGoalProgram() && !hasObjective) {
       alert("Please enter at least one coefficient for the objective function.");
       return false;
     }
 
+    // Check every goal has coefficients, a target, a priority level and a weight
+    if (isGoalProgram()) {
+      if (goalRows.length === 0) {
+        alert("Please add at least one goal.");
+        return false;
+      }
+      for (let i = 0; i < goalRows.length; i++) {
+        if (!goalRows[i].some(val => val.trim() !== "")) {
+          alert(`Please enter at least one coefficient for goal ${i + 1}.`);
+          return false;
+        }
+        if (goalTargets[i].trim() === "") {
+          alert(`Please enter a target value for goal ${i + 1}.`);
+          return false;
+        }
+        if (goalMode === "preemptive" && !(parseInt(goalPriorities[i]) >= 1)) {
+          alert(`The priority of goal ${i + 1} must be a whole number of at least 1.`);
+          return false;
+        }
+        if (!(cellValue(goalWeights[i]) > 0)) {
+          alert(`The weight of goal ${i + 1} must be positive.`);
+          return false;
+        }
+      }
+    }
+
     // Check if all constraint coefficients are filled
-    for (let i = 0; i < numConstraints; i++) {
+    for (let i = 0; i < constraintRows.length; i++) {
       const hasConstraintCoeff = constraintRows[i].some(val => val.trim() !== "");
       if (!hasConstraintCoeff) {
         alert(`Please enter at least one coefficient for constraint ${i + 1}.`);
@@ -115,11 +697,12 @@ export default function NextComponent({ optimization, variables, constraints }:
       }
     }
 
-    // Check for negative RHS values with ≤ constraints
-    for (let i = 0; i < numConstraints; i++) {
-      const rhsValue = parseFloat(constraintRHS[i]);
-      if (constraintTypes[i] === "≤" && rhsValue < 0) {
-        alert(`Constraint ${i + 1} has negative RHS with ≤. This may require special handling.`);
+    // Check bounds are consistent
+    const bounds = parseBounds();
+    for (let i = 0; i < bounds.length; i++) {
+      if (bounds[i].lower > bounds[i].upper) {
+        alert(`The lower bound of ${variableNames[i]} is greater than its upper bound.`);
+        return false;
       }
     }
 
@@ -132,35 +715,77 @@ export default function NextComponent({ optimization, variables, constraints }:
       return;
     }
 
-    const objective = objectiveRow.map(val => parseFloat(val) || 0);
-    const constraintsMatrix = constraintRows.map(row => 
-      row.map(val => parseFloat(val) || 0)
-    );
-    const rhs = constraintRHS.map(val => parseFloat(val) || 0);
-    const optType = optimization;
+    const model = buildModel();
 
     // Determine which solver to use
-    if (areAllConstraintsLessOrEqual()) {
-      // All constraints are ≤, go directly to Solution page
-      navigation.navigate("Solution", { 
-        objective, 
-        constraintsMatrix, 
-        rhs, 
-        optType,
-        constraintTypes 
-      });
+    if (isGoalProgram()) {
+      // Goals are met level by level, or traded off by weight, in a multi-row goal tableau
+      navigation.navigate("GoalProgramming", { ...model, arithmetic, pivotRule, goals: buildGoals(), goalMode });
+    } else if (hasIntegerVariables() && selectedIntegerMethod() === "Gomory Cuts") {
+      // Solve the LP relaxation, then add cuts from its optimal tableau
+      navigation.navigate(canUseStandardSimplex() ? "Solution" : "Phase1", { ...model, arithmetic, pivotRule });
+    } else if (hasIntegerVariables()) {
+      // Integer or binary variables, solve LP relaxations in a branch-and-bound search
+      navigation.navigate("BranchAndBound", { ...model, arithmetic, pivotRule });
+    } else if (canUseStandardSimplex()) {
+      // All constraints are ≤ with non-negative RHS, go directly to Solution page
+      navigation.navigate("Solution", { ...model, arithmetic, pivotRule });
     } else {
-      // Has ≥ or = constraints, need Two-Phase method
-      navigation.navigate("Phase1", { 
-        objective, 
-        constraintsMatrix, 
-        rhs, 
-        optType,
-        constraintTypes 
-      });
+      // Has ≥ or = constraints or a negative RHS, need Two-Phase, Big-M or dual simplex
+      navigation.navigate(methodRoutes[artificialMethod], { ...model, arithmetic, pivotRule });
+    }
+  };
+
+  // Handle Show Dual button
+  const handleShowDual = () => {
+    if (!validateInputs()) {
+      return;
+    }
+
+    navigation.navigate("DualProblem", { ...buildModel(), arithmetic, pivotRule });
+  };
+
+  // Handle Solve Graphically button, shown for two-variable problems
+  const handleGraphical = () => {
+    if (!validateInputs()) {
+      return;
     }
+
+    navigation.navigate("Graphical", { ...buildModel(), arithmetic, pivotRule });
   };
 
+  // Handle Parametric Analysis button
+  const handleParametric = () => {
+    if (!validateInputs()) {
+      return;
+    }
+
+    navigation.navigate("Parametric", { ...buildModel(), arithmetic, pivotRule });
+  };
+
+  // Name field and row of small buttons under the selected column or row
+  const renderGridToolbar = (
+    name: { value: string; placeholder: string; onChange: (value: string) => void },
+    actions: [string, () => void][]
+  ) => (
+    <View style={styles.gridToolbar}>
+      <TextInput
+        style={[styles.cellInput, styles.nameInput]}
+        value={name.value}
+        autoCapitalize="none"
+        autoCorrect={false}
+        placeholder={name.placeholder}
+        placeholderTextColor="#ccc"
+        onChangeText={name.onChange}
+      />
+      {actions.map(([label, action]) => (
+        <TouchableOpacity key={label} style={styles.toolbarButton} onPress={action}>
+          <Text style={styles.goalButtonText}>{label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const getConstraintSymbolColor = (type: string) => {
     switch (type) {
       case "≤": return "#4CAF50"; // Green
@@ -182,126 +807,526 @@ export default function NextComponent({ optimization, variables, constraints }:
           contentContainerStyle={styles.scrollContent}
           keyboardShouldPersistTaps="handled"
         >
-          <Text style={styles.heading}>{optimization} Problem Table</Text>
-
-          <View style={styles.tableContainer}>
-            {/* Objective Function Row */}
-            <Text style={styles.rowLabel}>Objective Function</Text>
-            <View style={styles.row}>
-              {objectiveRow.map((cell, colIndex) => (
-                <TextInput
-                  key={`obj-${colIndex}`}
-                  style={styles.cellInput}
-                  value={cell}
-                  keyboardType="numbers-and-punctuation"
-                  placeholder={`x${colIndex + 1}`}
-                  placeholderTextColor="#ccc"
-                  onChangeText={(value) => handleObjectiveChange(colIndex, value)}
-                />
+          <Text style={styles.heading}>
+            {isGoalProgram() ? "Goal Programming" : optType} Problem {isTextMode() ? "Text" : "Table"}
+          </Text>
+
+          {/* Objective mode */}
+          <View style={styles.arithmeticToggle}>
+            {objectiveModes.map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.arithmeticButton, objectiveMode === mode && styles.activeArithmeticButton]}
+                onPress={() => setObjectiveMode(mode)}
+              >
+                <Text style={[styles.arithmeticText, objectiveMode === mode && styles.activeArithmeticText]}>
+                  {mode}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Input mode */}
+          {!isGoalProgram() && (
+            <View style={styles.arithmeticToggle}>
+              {inputModes.map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.arithmeticButton, inputMode === mode && styles.activeArithmeticButton]}
+                  onPress={() => handleInputModeChange(mode)}
+                >
+                  <Text style={[styles.arithmeticText, inputMode === mode && styles.activeArithmeticText]}>
+                    {mode}
+                  </Text>
+                </TouchableOpacity>
               ))}
-              <View style={styles.objectiveRHS}>
-                <Text style={styles.equalsSign}>=</Text>
-                <TextInput
-                  style={[styles.cellInput, styles.rhsInput]}
-                  value={objectiveRHS}
-                  keyboardType="numbers-and-punctuation"
-                  placeholder="Z"
-                  placeholderTextColor="#ccc"
-                  onChangeText={handleObjectiveRHSChange}
-                />
+            </View>
+          )}
+
+          {isTextMode() ? (
+            <View style={styles.tableContainer}>
+              <View style={styles.methodToggle}>
+                {(Object.keys(modelFormatLabels) as ModelFormat[]).map((format) => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.arithmeticButton, textFormat === format && styles.activeArithmeticButton]}
+                    onPress={() => handleTextFormatChange(format)}
+                  >
+                    <Text style={[styles.arithmeticText, textFormat === format && styles.activeArithmeticText]}>
+                      {modelFormatLabels[format]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
               </View>
+              <Text style={styles.goalHint}>{textFormatHints[textFormat]}</Text>
+              <TextInput
+                style={styles.textModelInput}
+                value={modelText}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholder={textFormat === "algebraic" ? "max: 3x + 2y\nc1: x + y <= 4\nc2: x + 3y >= 6" : ""}
+                placeholderTextColor="#ccc"
+                onChangeText={setModelText}
+              />
+              {modelText.trim() !== "" && !parsedText.ok && (
+                <View style={styles.parseError}>
+                  <Text style={styles.parseErrorText}>
+                    Line {parsedText.error.line}, column {parsedText.error.column}: {parsedText.error.message}
+                  </Text>
+                  <Text style={styles.parseErrorSource}>
+                    {modelText.split("\n")[parsedText.error.line - 1] ?? ""}
+                    {"\n"}
+                    {" ".repeat(parsedText.error.column - 1)}^
+                  </Text>
+                </View>
+              )}
+              {parsedText.ok && (
+                <>
+                  <Text style={styles.parseOk}>
+                    ✓ {parsedText.model.objective.length} variables, {parsedText.model.rhs.length} constraints
+                  </Text>
+                  {parsedText.warnings.map((warning, index) => (
+                    <Text key={index} style={styles.parseWarning}>
+                      ⚠ {warning}
+                    </Text>
+                  ))}
+                  <TouchableOpacity style={styles.goalButton} onPress={handleShareText}>
+                    <Text style={styles.goalButtonText}>Export {modelFormatLabels[textFormat]}</Text>
+                  </TouchableOpacity>
+                </>
+              )}
             </View>
+          ) : (
+            <View style={styles.tableContainer}>
+              {/* Variable columns: tap a name to move, insert or remove its column */}
+              <View style={styles.row}>
+                {variableNames.map((name, colIndex) => (
+                  <TouchableOpacity
+                    key={`var-${colIndex}`}
+                    style={[styles.columnHeader, selectedVariable === colIndex && styles.selectedHeader]}
+                    onPress={() => setSelectedVariable(selectedVariable === colIndex ? null : colIndex)}
+                  >
+                    <Text style={styles.columnHeaderText}>{name}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity style={styles.columnHeader} onPress={handleAddVariable}>
+                  <Text style={styles.columnHeaderText}>+ Variable</Text>
+                </TouchableOpacity>
+              </View>
+              {selectedVariable !== null &&
+                renderGridToolbar(
+                  {
+                    value: variableNames[selectedVariable],
+                    placeholder: `x${selectedVariable + 1}`,
+                    onChange: (value) => handleRenameVariable(selectedVariable, value),
+                  },
+                  [
+                    ["◀ Move", () => handleMoveVariable(selectedVariable, selectedVariable - 1)],
+                    ["Move ▶", () => handleMoveVariable(selectedVariable, selectedVariable + 1)],
+                    ["Insert Before", () => handleInsertVariable(selectedVariable)],
+                    ["Insert After", () => handleInsertVariable(selectedVariable + 1)],
+                    ["Remove", () => handleRemoveVariable(selectedVariable)],
+                  ]
+                )}
+
+              {isGoalProgram() ? (
+                <>
+                  {/* Goal Rows */}
+                  <Text style={styles.rowLabel}>Goals</Text>
+                  <View style={styles.methodToggle}>
+                    {(Object.keys(goalModeLabels) as GoalMode[]).map((mode) => (
+                      <TouchableOpacity
+                        key={mode}
+                        style={[styles.arithmeticButton, goalMode === mode && styles.activeArithmeticButton]}
+                        onPress={() => setGoalMode(mode)}
+                      >
+                        <Text style={[styles.arithmeticText, goalMode === mode && styles.activeArithmeticText]}>
+                          {goalModeLabels[mode]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.goalHint}>
+                    {goalMode === "preemptive"
+                      ? "Priority 1 is met first; weights rank goals within a level."
+                      : "One objective: the weighted sum of the unwanted deviations."}
+                    {" "}≥ penalizes falling short (d⁻), ≤ overshooting (d⁺), = both.
+                  </Text>
+                  {goalRows.map((row, rowIndex) => (
+                    <View key={`goal-${rowIndex}`} style={styles.constraintRow}>
+                      <View style={styles.row}>
+                        {row.map((cell, colIndex) => (
+                          <TextInput
+                            key={`goal-${rowIndex}-${colIndex}`}
+                            style={[styles.cellInput, cellError(cell) !== null && styles.invalidInput]}
+                            value={cell}
+                            keyboardType="numbers-and-punctuation"
+                            placeholder={variableNames[colIndex]}
+                            placeholderTextColor="#ccc"
+                            onChangeText={(value) => handleGoalChange(rowIndex, colIndex, value)}
+                          />
+                        ))}
 
-            {/* Constraint Rows */}
-            <Text style={styles.rowLabel}>Constraints</Text>
-            {constraintRows.map((row, rowIndex) => (
-              <View key={`constraint-${rowIndex}`} style={styles.constraintRow}>
-                <View style={styles.row}>
-                  {row.map((cell, colIndex) => (
+                        <View style={styles.constraintTypeContainer}>
+                          <Picker
+                            selectedValue={goalTypes[rowIndex]}
+                            style={[styles.constraintTypePicker,
+                              { color: getConstraintSymbolColor(goalTypes[rowIndex]) }]}
+                            onValueChange={(value: ConstraintType) => handleGoalTypeChange(rowIndex, value)}
+                          >
+                            <Picker.Item label="≤" value="≤" color="#4CAF50" />
+                            <Picker.Item label="≥" value="≥" color="#FF9800" />
+                            <Picker.Item label="=" value="=" color="#F44336" />
+                          </Picker>
+                        </View>
+
+                        <TextInput
+                          style={[styles.cellInput, styles.rhsInput, cellError(goalTargets[rowIndex]) !== null && styles.invalidInput]}
+                          value={goalTargets[rowIndex]}
+                          keyboardType="numbers-and-punctuation"
+                          placeholder="Target"
+                          placeholderTextColor="#ccc"
+                          onChangeText={(value) => handleGoalTargetChange(rowIndex, value)}
+                        />
+                      </View>
+
+                      <View style={styles.row}>
+                        {goalMode === "preemptive" && (
+                          <>
+                            <Text style={styles.boundLabel}>Priority P</Text>
+                            <TextInput
+                              style={styles.cellInput}
+                              value={goalPriorities[rowIndex]}
+                              keyboardType="numeric"
+                              placeholder="1"
+                              placeholderTextColor="#ccc"
+                              onChangeText={(value) => handleGoalPriorityChange(rowIndex, value)}
+                            />
+                          </>
+                        )}
+                        <Text style={styles.boundLabel}>Weight</Text>
+                        <TextInput
+                          style={[styles.cellInput, cellError(goalWeights[rowIndex]) !== null && styles.invalidInput]}
+                          value={goalWeights[rowIndex]}
+                          keyboardType="numbers-and-punctuation"
+                          placeholder="1"
+                          placeholderTextColor="#ccc"
+                          onChangeText={(value) => handleGoalWeightChange(rowIndex, value)}
+                        />
+                        <TouchableOpacity style={styles.goalButton} onPress={() => handleRemoveGoal(rowIndex)}>
+                          <Text style={styles.goalButtonText}>Remove</Text>
+                        </TouchableOpacity>
+                      </View>
+                      {rowError([...row, goalTargets[rowIndex], goalWeights[rowIndex]]) && (
+                        <Text style={styles.cellErrorText}>
+                          {rowError([...row, goalTargets[rowIndex], goalWeights[rowIndex]])}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+                  <TouchableOpacity style={styles.goalButton} onPress={handleAddGoal}>
+                    <Text style={styles.goalButtonText}>Add Goal</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  {/* Objective Function Row */}
+                  <Text style={styles.rowLabel}>Objective Function</Text>
+                  <View style={styles.row}>
+                    {objectiveRow.map((cell, colIndex) => (
+                      <TextInput
+                        key={`obj-${colIndex}`}
+                        style={[styles.cellInput, cellError(cell) !== null && styles.invalidInput]}
+                        value={cell}
+                        keyboardType="numbers-and-punctuation"
+                        placeholder={variableNames[colIndex]}
+                        placeholderTextColor="#ccc"
+                        onChangeText={(value) => handleObjectiveChange(colIndex, value)}
+                      />
+                    ))}
+                    <View style={styles.objectiveRHS}>
+                      <Text style={styles.equalsSign}>=</Text>
+                      <TextInput
+                        style={[styles.cellInput, styles.rhsInput]}
+                        value={objectiveRHS}
+                        keyboardType="numbers-and-punctuation"
+                        placeholder="Z"
+                        placeholderTextColor="#ccc"
+                        onChangeText={handleObjectiveRHSChange}
+                      />
+                    </View>
+                  </View>
+                  {rowError(objectiveRow) && <Text style={styles.cellErrorText}>{rowError(objectiveRow)}</Text>}
+                </>
+              )}
+
+              {/* Constraint Rows */}
+              <Text style={styles.rowLabel}>{isGoalProgram() ? "Hard Constraints" : "Constraints"}</Text>
+              {conflicts.length > 0 && (
+                <Text style={styles.conflictText}>
+                  The highlighted constraints can&apos;t all hold at once. Change at least one of them.
+                </Text>
+              )}
+              {constraintRows.map((row, rowIndex) => (
+                <View
+                  key={`constraint-${rowIndex}`}
+                  style={[styles.constraintRow, conflicts.includes(rowIndex) && styles.conflictRow]}
+                >
+                  <View style={styles.row}>
+                    {row.map((cell, colIndex) => (
+                      <TextInput
+                        key={`constraint-${rowIndex}-${colIndex}`}
+                        style={[styles.cellInput, cellError(cell) !== null && styles.invalidInput]}
+                        value={cell}
+                        keyboardType="numbers-and-punctuation"
+                        placeholder={variableNames[colIndex]}
+                        placeholderTextColor="#ccc"
+                        onChangeText={(value) => handleConstraintChange(rowIndex, colIndex, value)}
+                      />
+                    ))}
+                  
+                    {/* Constraint Type Picker */}
+                    <View style={styles.constraintTypeContainer}>
+                      <Picker
+                        selectedValue={constraintTypes[rowIndex]}
+                        style={[styles.constraintTypePicker, 
+                          { color: getConstraintSymbolColor(constraintTypes[rowIndex]) }]}
+                        onValueChange={(value: ConstraintType) => handleConstraintTypeChange(rowIndex, value)}
+                      >
+                        <Picker.Item label="≤" value="≤" color="#4CAF50" />
+                        <Picker.Item label="≥" value="≥" color="#FF9800" />
+                        <Picker.Item label="=" value="=" color="#F44336" />
+                      </Picker>
+                    </View>
+                  
                     <TextInput
-                      key={`constraint-${rowIndex}-${colIndex}`}
-                      style={styles.cellInput}
-                      value={cell}
+                      style={[styles.cellInput, styles.rhsInput, cellError(constraintRHS[rowIndex]) !== null && styles.invalidInput]}
+                      value={constraintRHS[rowIndex]}
                       keyboardType="numbers-and-punctuation"
-                      placeholder={`x${colIndex + 1}`}
+                      placeholder="RHS"
                       placeholderTextColor="#ccc"
-                      onChangeText={(value) => handleConstraintChange(rowIndex, colIndex, value)}
+                      onChangeText={(value) => handleConstraintRHSChange(rowIndex, value)}
                     />
-                  ))}
-                  
-                  {/* Constraint Type Picker */}
-                  <View style={styles.constraintTypeContainer}>
-                    <Picker
-                      selectedValue={constraintTypes[rowIndex]}
-                      style={[styles.constraintTypePicker, 
-                        { color: getConstraintSymbolColor(constraintTypes[rowIndex]) }]}
-                      onValueChange={(value: string) => handleConstraintTypeChange(rowIndex, value)}
-                    >
-                      <Picker.Item label="≤" value="≤" color="#4CAF50" />
-                      <Picker.Item label="≥" value="≥" color="#FF9800" />
-                      <Picker.Item label="=" value="=" color="#F44336" />
-                    </Picker>
                   </View>
-                  
-                  <TextInput
-                    style={[styles.cellInput, styles.rhsInput]}
-                    value={constraintRHS[rowIndex]}
-                    keyboardType="numbers-and-punctuation"
-                    placeholder="RHS"
-                    placeholderTextColor="#ccc"
-                    onChangeText={(value) => handleConstraintRHSChange(rowIndex, value)}
-                  />
-                </View>
+                  {rowError([...row, constraintRHS[rowIndex]]) && (
+                    <Text style={styles.cellErrorText}>{rowError([...row, constraintRHS[rowIndex]])}</Text>
+                  )}
                 
-                {/* Constraint type indicator */}
-                <Text style={[styles.constraintIndicator, 
-                  { color: getConstraintSymbolColor(constraintTypes[rowIndex]) }]}>
-                  Constraint {rowIndex + 1}: {constraintTypes[rowIndex]} type
-                  {constraintTypes[rowIndex] !== "≤" && " (Two-Phase required)"}
-                </Text>
-              </View>
-            ))}
+                  {/* Constraint type indicator; tap it to move, insert or remove the row */}
+                  <TouchableOpacity
+                    onPress={() => setSelectedConstraint(selectedConstraint === rowIndex ? null : rowIndex)}
+                  >
+                    <Text style={[styles.constraintIndicator, 
+                      { color: getConstraintSymbolColor(constraintTypes[rowIndex]) },
+                      selectedConstraint === rowIndex && styles.selectedIndicator]}>
+                      {constraintNames[rowIndex]?.trim() || `Constraint ${rowIndex + 1}`}: {constraintTypes[rowIndex]} type
+                      {!isGoalProgram() && (constraintTypes[rowIndex] !== "≤" || cellValue(constraintRHS[rowIndex]) < 0) &&
+                        ` (${artificialMethod} required)`}
+                    </Text>
+                  </TouchableOpacity>
+                  {selectedConstraint === rowIndex &&
+                    renderGridToolbar(
+                      {
+                        value: constraintNames[rowIndex] ?? "",
+                        placeholder: `c${rowIndex + 1}`,
+                        onChange: (value) => handleRenameConstraint(rowIndex, value),
+                      },
+                      [
+                        ["▲ Move", () => handleMoveConstraint(rowIndex, rowIndex - 1)],
+                        ["Move ▼", () => handleMoveConstraint(rowIndex, rowIndex + 1)],
+                        ["Insert Above", () => handleInsertConstraint(rowIndex)],
+                        ["Insert Below", () => handleInsertConstraint(rowIndex + 1)],
+                        ["Remove", () => handleRemoveConstraint(rowIndex)],
+                      ]
+                    )}
+                </View>
+              ))}
+              <TouchableOpacity style={styles.goalButton} onPress={handleAddConstraint}>
+                <Text style={styles.goalButtonText}>Add Constraint</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Arithmetic mode */}
+          <View style={styles.arithmeticToggle}>
+            <TouchableOpacity
+              style={[styles.arithmeticButton, arithmetic === "float" && styles.activeArithmeticButton]}
+              onPress={() => setArithmetic("float")}
+            >
+              <Text style={[styles.arithmeticText, arithmetic === "float" && styles.activeArithmeticText]}>
+                Decimal
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.arithmeticButton, arithmetic === "exact" && styles.activeArithmeticButton]}
+              onPress={() => setArithmetic("exact")}
+            >
+              <Text style={[styles.arithmeticText, arithmetic === "exact" && styles.activeArithmeticText]}>
+                Exact Fractions
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Pivot rule */}
+          <View style={styles.pivotRuleContainer}>
+            <Text style={styles.rowLabel}>Pivot Rule:</Text>
+            <Picker
+              selectedValue={pivotRule}
+              style={styles.pivotRulePicker}
+              onValueChange={(value: PivotRule) => setPivotRule(value)}
+            >
+              {(Object.keys(pivotRuleLabels) as PivotRule[]).map((rule) => (
+                <Picker.Item key={rule} label={pivotRuleLabels[rule]} value={rule} />
+              ))}
+            </Picker>
           </View>
 
           {/* Method indicator */}
           <View style={styles.methodIndicator}>
             <Text style={styles.methodText}>
-              {areAllConstraintsLessOrEqual() 
+              {isGoalProgram()
+                ? `✓ ${goalModeLabels[goalMode]} Goal Programming`
+                : hasIntegerVariables()
+                ? `⚠ ${selectedIntegerMethod()} Required`
+                : canUseStandardSimplex() 
                 ? "✓ Standard Simplex Method" 
-                : "⚠ Two-Phase Method Required"
+                : `⚠ ${artificialMethod} Method Required`
               }
             </Text>
-            {!areAllConstraintsLessOrEqual() && (
-              <Text style={styles.methodSubtext}>
-                Contains ≥ or = constraints
-              </Text>
+            {isGoalProgram() && (
+              <Text style={styles.methodSubtext}>Hard ≥ and = constraints are satisfied first, as in Phase 1</Text>
+            )}
+            {!isGoalProgram() && hasIntegerVariables() && (
+              <>
+                <Text style={styles.methodSubtext}>Contains integer or binary variables</Text>
+                {isPureInteger() && !canUseGomoryCuts() && (
+                  <Text style={styles.methodSubtext}>
+                    Gomory cuts need integer coefficients, right-hand sides and bounds
+                  </Text>
+                )}
+                {canUseGomoryCuts() && (
+                  <View style={styles.methodToggle}>
+                    {integerMethods.map((method) => (
+                      <TouchableOpacity
+                        key={method}
+                        style={[styles.arithmeticButton, integerMethod === method && styles.activeArithmeticButton]}
+                        onPress={() => setIntegerMethod(method)}
+                      >
+                        <Text style={[styles.arithmeticText, integerMethod === method && styles.activeArithmeticText]}>
+                          {method}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+              </>
+            )}
+            {!isGoalProgram() && !hasIntegerVariables() && !canUseStandardSimplex() && (
+              <>
+                <Text style={styles.methodSubtext}>
+                  {hasNegativeRHS() ? "Contains a negative RHS" : "Contains ≥ or = constraints"}
+                </Text>
+                <View style={styles.methodToggle}>
+                  {(Object.keys(methodRoutes) as ArtificialMethod[]).map((method) => (
+                    <TouchableOpacity
+                      key={method}
+                      style={[styles.arithmeticButton, artificialMethod === method && styles.activeArithmeticButton]}
+                      onPress={() => setArtificialMethod(method)}
+                    >
+                      <Text style={[styles.arithmeticText, artificialMethod === method && styles.activeArithmeticText]}>
+                        {method}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
             )}
           </View>
 
-          {/* Conditions for variables */}
-          <View style={styles.conditionsContainer}>
-            <Text style={styles.conditionsHeader}>Non-negativity Constraints:</Text>
-            {Array.from({ length: numVars }).map((_, i) => (
-              <Text key={`condition-${i}`} style={styles.whiteText}>
-                x{i + 1} ≥ 0
-              </Text>
-            ))}
-          </View>
+          {/* Conditions for variables; a text model declares its own */}
+          {!isTextMode() && (
+            <View style={styles.conditionsContainer}>
+              <Text style={styles.conditionsHeader}>Variable Bounds:</Text>
+              {variableNames.map((name, i) => (
+                <View key={`condition-${i}`} style={styles.boundRow}>
+                  <TextInput
+                    style={[styles.cellInput, cellError(lowerBounds[i]) !== null && styles.invalidInput]}
+                    value={lowerBounds[i]}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="-∞"
+                    placeholderTextColor="#ccc"
+                    onChangeText={(value) => handleLowerBoundChange(i, value)}
+                  />
+                  <Text style={styles.boundLabel}>≤ {name} ≤</Text>
+                  <TextInput
+                    style={[styles.cellInput, cellError(upperBounds[i]) !== null && styles.invalidInput]}
+                    value={upperBounds[i]}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="∞"
+                    placeholderTextColor="#ccc"
+                    onChangeText={(value) => handleUpperBoundChange(i, value)}
+                  />
+                  <View style={[styles.constraintTypeContainer, styles.kindContainer]}>
+                    <Picker
+                      selectedValue={variableKinds[i]}
+                      style={[styles.constraintTypePicker, styles.kindPicker]}
+                      onValueChange={(value: VariableKind) => handleVariableKindChange(i, value)}
+                    >
+                      <Picker.Item label="Real" value="continuous" />
+                      <Picker.Item label="Integer" value="integer" />
+                      <Picker.Item label="Binary" value="binary" />
+                    </Picker>
+                  </View>
+                </View>
+              ))}
+              {rowError([...lowerBounds, ...upperBounds]) && (
+                <Text style={styles.cellErrorText}>{rowError([...lowerBounds, ...upperBounds])}</Text>
+              )}
+              <Text style={styles.boundHint}>Leave a bound empty for -∞ or ∞; clear both for a free variable.</Text>
+            </View>
+          )}
 
           {/* Solve button */}
           <TouchableOpacity 
             style={[styles.solveButton, 
-              !areAllConstraintsLessOrEqual() && styles.twoPhaseButton
+              !isGoalProgram() && (hasIntegerVariables() || !canUseStandardSimplex()) && styles.twoPhaseButton
             ]} 
             onPress={handleSolve}
           >
             <Text style={styles.solveButtonText}>
-              {areAllConstraintsLessOrEqual() 
+              {isGoalProgram()
+                ? "Solve Goal Program"
+                : hasIntegerVariables()
+                ? `Solve with ${selectedIntegerMethod()}`
+                : canUseStandardSimplex() 
                 ? "Solve with Simplex" 
-                : "Solve with Two-Phase"
+                : `Solve with ${artificialMethod}`
               }
             </Text>
           </TouchableOpacity>
+
+          {/* The rest need a single objective row */}
+          {!isGoalProgram() && (
+            <>
+              {/* Dual problem button */}
+              <TouchableOpacity style={styles.dualButton} onPress={handleShowDual}>
+                <Text style={styles.dualButtonText}>Show Dual</Text>
+              </TouchableOpacity>
+
+              {/* Parametric programming button */}
+              <TouchableOpacity style={styles.dualButton} onPress={handleParametric}>
+                <Text style={styles.dualButtonText}>Parametric Analysis</Text>
+              </TouchableOpacity>
+
+              {/* Graphical method button */}
+              {buildModel().objective.length === 2 && (
+                <TouchableOpacity style={styles.dualButton} onPress={handleGraphical}>
+                  <Text style={styles.dualButtonText}>Solve Graphically</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
         </ScrollView>
       </TouchableWithoutFeedback>
     </KeyboardAvoidingView>
@@ -341,6 +1366,17 @@ const styles = StyleSheet.create({
     justifyContent: "space-between",
     alignItems: "center",
   },
+  conflictRow: {
+    borderWidth: 2,
+    borderColor: "#F44336",
+    borderRadius: 8,
+    padding: 6,
+  },
+  conflictText: {
+    color: "#FFAB91",
+    fontWeight: "bold",
+    marginBottom: 10,
+  },
   constraintRow: {
     marginBottom: 15,
   },
@@ -359,6 +1395,15 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(255, 255, 255, 0.2)",
     fontWeight: "bold",
   },
+  invalidInput: {
+    borderColor: "#F44336",
+    borderWidth: 2,
+  },
+  cellErrorText: {
+    color: "#FFAB91",
+    fontSize: 12,
+    marginBottom: 8,
+  },
   objectiveRHS: {
     flexDirection: "row",
     alignItems: "center",
@@ -390,6 +1435,38 @@ const styles = StyleSheet.create({
     marginTop: 2,
     textAlign: "center",
   },
+  arithmeticToggle: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginBottom: 20,
+  },
+  arithmeticButton: {
+    borderWidth: 1,
+    borderColor: "#fff",
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 25,
+    marginHorizontal: 5,
+  },
+  activeArithmeticButton: {
+    backgroundColor: "#fff",
+  },
+  arithmeticText: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  activeArithmeticText: {
+    color: "#3b5998",
+  },
+  pivotRuleContainer: {
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+    padding: 15,
+    borderRadius: 8,
+    marginBottom: 20,
+  },
+  pivotRulePicker: {
+    color: "#fff",
+  },
   methodIndicator: {
     backgroundColor: "rgba(255, 255, 255, 0.1)",
     padding: 15,
@@ -402,6 +1479,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "bold",
   },
+  methodToggle: {
+    flexDirection: "row",
+    justifyContent: "center",
+    marginTop: 10,
+  },
   methodSubtext: {
     color: "#FFD54F",
     fontSize: 14,
@@ -423,6 +1505,28 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginBottom: 10,
   },
+  boundRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  kindContainer: {
+    marginLeft: 10,
+    marginBottom: 8,
+  },
+  kindPicker: {
+    width: 120,
+  },
+  boundLabel: {
+    color: "#fff",
+    fontSize: 16,
+    marginHorizontal: 10,
+    marginBottom: 8,
+  },
+  boundHint: {
+    color: "#ccc",
+    fontSize: 12,
+    fontStyle: "italic",
+  },
   whiteText: {
     color: "#fff",
     fontSize: 16,
@@ -443,4 +1547,112 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     fontSize: 16,
   },
+  dualButton: {
+    borderWidth: 1,
+    borderColor: "#fff",
+    padding: 15,
+    borderRadius: 30,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  dualButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+    fontSize: 16,
+  },
+  goalHint: {
+    color: "#ccc",
+    fontSize: 12,
+    fontStyle: "italic",
+    marginBottom: 10,
+    textAlign: "center",
+  },
+  goalButton: {
+    borderWidth: 1,
+    borderColor: "#fff",
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 25,
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  goalButtonText: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  columnHeader: {
+    minWidth: 60,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    marginRight: 5,
+    marginBottom: 8,
+    borderRadius: 5,
+    alignItems: "center",
+    backgroundColor: "rgba(255, 255, 255, 0.1)",
+  },
+  selectedHeader: {
+    backgroundColor: "rgba(255, 213, 79, 0.6)",
+  },
+  columnHeaderText: {
+    color: "#fff",
+    fontWeight: "bold",
+  },
+  selectedIndicator: {
+    textDecorationLine: "underline",
+  },
+  gridToolbar: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  nameInput: {
+    minWidth: 110,
+    marginBottom: 6,
+  },
+  toolbarButton: {
+    borderWidth: 1,
+    borderColor: "#fff",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 25,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  textModelInput: {
+    borderWidth: 1,
+    borderColor: "#fff",
+    borderRadius: 8,
+    padding: 10,
+    color: "#fff",
+    minHeight: 180,
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+    textAlignVertical: "top",
+  },
+  parseError: {
+    backgroundColor: "rgba(244, 67, 54, 0.2)",
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 8,
+  },
+  parseErrorText: {
+    color: "#FFAB91",
+    fontWeight: "bold",
+    marginBottom: 4,
+  },
+  parseErrorSource: {
+    color: "#fff",
+    fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace",
+  },
+  parseOk: {
+    color: "#A5D6A7",
+    marginTop: 8,
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  parseWarning: {
+    color: "#FFD54F",
+    fontSize: 13,
+    marginBottom: 6,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { Picker } from "@react-native-picker/picker";
+import { useRoute, useNavigation, NavigationProp, RouteProp } from "@react-navigation/native";
+import {
+  arithmeticFor,
+  decimalToFraction,
+  formatConstraints,
+  formatEquations,
+  LPModel,
+  modelVariableNames,
+  parametricAnalysis,
+  ParametricResult,
+  ParametricTarget,
+  parametricTargetLabel,
+  SolverSettings,
+} from "@/lib/simplex";
+import ParametricChart from "@/components/ParametricChart";
+
+type RootStackParamList = {
+  Home: undefined;
+  NextComponent: { optimization: string; variables: string; constraints: string };
+  Parametric: LPModel & SolverSettings;
+};
+
+type ParametricRouteProp = RouteProp<RootStackParamList, "Parametric">;
+
+// Picker values: "rhs:0", "objective:1"
+const targetKey = (target: ParametricTarget): string =>
+  target.kind === "rhs" ? `rhs:${target.row}` : `objective:${target.variable}`;
+
+const parseTarget = (key: string): ParametricTarget => {
+  const [kind, index] = key.split(":");
+  return kind === "rhs" ? { kind: "rhs", row: Number(index) } : { kind: "objective", variable: Number(index) };
+};
+
+const stopText = (result: ParametricResult): string => {
+  const at = result.stoppedAt === null ? "" : decimalToFraction(result.stoppedAt);
+  // nothing was found when the problem already fails at the start of the range
+  const where = result.intervals.length === 0 ? `at θ = ${at}` : `for θ beyond ${at}`;
+  switch (result.status) {
+    case "complete": return "The intervals cover the whole range.";
+    case "infeasible": return `The problem has no feasible solution ${where}.`;
+    case "unbounded": return `Z is unbounded ${where}.`;
+    default: return `The analysis stopped at θ = ${at}.`;
+  }
+};
+
+export default function ParametricPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const route = useRoute<ParametricRouteProp>();
+  const { objective, constraintsMatrix, rhs, optType, constraintTypes, arithmetic, pivotRule, bounds, kinds, variableNames, constraintNames, exactValues } =
+    route.params;
+
+  const model = useMemo<LPModel>(
+    () => ({ objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames }),
+    [objective, constraintsMatrix, rhs, optType, constraintTypes, bounds, variableNames, constraintNames]
+  );
+  const names = modelVariableNames(model);
+  const constraints = formatConstraints(model);
+
+  // θ replaces one model entry and runs over [from, to], starting at the entry's current value
+  const [target, setTarget] = useState<ParametricTarget>({ kind: "rhs", row: 0 });
+  const currentValue = (t: ParametricTarget) => (t.kind === "rhs" ? rhs[t.row] : objective[t.variable]);
+  const [from, setFrom] = useState(String(currentValue(target)));
+  const [to, setTo] = useState(String(currentValue(target) + 10));
+  const [result, setResult] = useState<ParametricResult | null>(null);
+
+  const handleTargetChange = (key: string) => {
+    const next = parseTarget(key);
+    setTarget(next);
+    setFrom(String(currentValue(next)));
+    setTo(String(currentValue(next) + 10));
+    setResult(null);
+  };
+
+  const handleCompute = () => {
+    const start = Number(from);
+    const end = Number(to);
+    if (from.trim() === "" || to.trim() === "" || !Number.isFinite(start) || !Number.isFinite(end)) {
+      alert("Please enter numbers for both ends of the θ range.");
+      return;
+    }
+    if (start >= end) {
+      alert("The start of the θ range must be less than its end.");
+      return;
+    }
+    setResult(parametricAnalysis(model, target, start, end, arithmeticFor(arithmetic ?? "float", exactValues), pivotRule ?? "dantzig"));
+  };
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Parametric Analysis</Text>
+
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Problem Formulation:</Text>
+          {formatEquations(model).map((equation, index) => (
+            <Text key={index} style={styles.equationText}>
+              {equation}
+            </Text>
+          ))}
+        </View>
+
+        {kinds?.some((kind) => kind !== "continuous") ? (
+          <Text style={styles.noteText}>Integrality is dropped: the analysis is of the LP relaxation.</Text>
+        ) : null}
+
+        <View style={styles.equationsContainer}>
+          <Text style={styles.subHeading}>Parameter θ replaces:</Text>
+          <Picker selectedValue={targetKey(target)} style={styles.picker} onValueChange={handleTargetChange}>
+            {constraints.map((constraint, i) => (
+              <Picker.Item key={`rhs:${i}`} label={`RHS of ${constraint}`} value={`rhs:${i}`} />
+            ))}
+            {names.map((name, j) => (
+              <Picker.Item key={`objective:${j}`} label={`Objective coefficient of ${name}`} value={`objective:${j}`} />
+            ))}
+          </Picker>
+          <View style={styles.rangeRow}>
+            <Text style={styles.rangeLabel}>θ from</Text>
+            <TextInput
+              style={styles.rangeInput}
+              value={from}
+              keyboardType="numbers-and-punctuation"
+              onChangeText={setFrom}
+            />
+            <Text style={styles.rangeLabel}>to</Text>
+            <TextInput
+              style={styles.rangeInput}
+              value={to}
+              keyboardType="numbers-and-punctuation"
+              onChangeText={setTo}
+            />
+          </View>
+        </View>
+
+        {result ? (
+          <>
+            {result.intervals.length > 0 ? <ParametricChart intervals={result.intervals} /> : null}
+
+            {/* One row per θ-interval on which a single basis stays optimal */}
+            <View style={styles.equationsContainer}>
+              <Text style={styles.subHeading}>Breakpoints and Bases:</Text>
+              <Text style={styles.equationText}>θ = {parametricTargetLabel(model, target)}</Text>
+              <View style={styles.row}>
+                <Text style={[styles.cell, styles.headerCell]}>θ</Text>
+                <Text style={[styles.cell, styles.headerCell]}>Basis</Text>
+                <Text style={[styles.cell, styles.headerCell]}>Z*</Text>
+                <Text style={[styles.cell, styles.headerCell]}>At the end</Text>
+              </View>
+              {result.intervals.map((interval, index) => (
+                <View key={index} style={styles.row}>
+                  <Text style={styles.cell}>
+                    [{decimalToFraction(interval.from)}, {decimalToFraction(interval.to)}]
+                  </Text>
+                  <Text style={styles.cell}>{interval.basis.join(", ")}</Text>
+                  <Text style={styles.cell}>
+                    {decimalToFraction(interval.zFrom)} → {decimalToFraction(interval.zTo)}
+                  </Text>
+                  <Text style={styles.cell}>{interval.pivot ?? "—"}</Text>
+                </View>
+              ))}
+              <Text style={[styles.equationText, { fontStyle: "normal", marginTop: 10 }]}>{stopText(result)}</Text>
+            </View>
+          </>
+        ) : null}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.nextButton} onPress={handleCompute}>
+            <Text style={styles.nextButtonText}>Compute</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  noteText: { color: "#fff", fontSize: 14, marginBottom: 20, textAlign: "center" },
+  picker: { color: "#fff" },
+  rangeRow: { flexDirection: "row", alignItems: "center", justifyContent: "center", marginTop: 10 },
+  rangeLabel: { color: "#fff", fontSize: 16, marginHorizontal: 6 },
+  rangeInput: { backgroundColor: "#fff", borderRadius: 5, padding: 8, width: 80, textAlign: "center" },
+  row: { flexDirection: "row" },
+  cell: { flex: 1, color: "#fff", padding: 6, fontSize: 14, textAlign: "center", borderBottomWidth: 1, borderColor: "rgba(255, 255, 255, 0.2)" },
+  headerCell: { fontWeight: "bold" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+});
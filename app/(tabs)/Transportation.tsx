@@ -0,0 +1,373 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from "react-native";
+import { useNavigation, NavigationProp } from "@react-navigation/native";
+import {
+  AllocationStep,
+  applyModiStep,
+  decimalToFraction,
+  destinationLabel,
+  hasAlternativeOptima,
+  InitialMethod,
+  initialMethodLabels,
+  initialSolution,
+  modiStep,
+  solveTransportation,
+  sourceLabel,
+  totalCost,
+  TransportationPlan,
+} from "@/lib/simplex";
+import TransportationGrid from "@/components/TransportationGrid";
+
+type RootStackParamList = {
+  Home: undefined;
+  Transportation: undefined;
+};
+
+// Grow or shrink a list of inputs, keeping what was already typed
+const resize = <T,>(values: T[], length: number, fill: () => T): T[] =>
+  Array.from({ length }, (_, i) => (i < values.length ? values[i] : fill()));
+
+export default function TransportationPage() {
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
+  const [sourceCount, setSourceCount] = useState("3");
+  const [destinationCount, setDestinationCount] = useState("3");
+  const [costs, setCosts] = useState<string[][]>(() => Array.from({ length: 3 }, () => Array(3).fill("")));
+  const [supply, setSupply] = useState<string[]>(() => Array(3).fill(""));
+  const [demand, setDemand] = useState<string[]>(() => Array(3).fill(""));
+  const [method, setMethod] = useState<InitialMethod>("northwest");
+
+  // MODI state; the step shown is always the test of the plan on screen
+  const [plan, setPlan] = useState<TransportationPlan | null>(null);
+  const [initialPlan, setInitialPlan] = useState<TransportationPlan | null>(null); // kept for reset
+  const [allocationSteps, setAllocationSteps] = useState<AllocationStep[]>([]);
+  const [solvedWith, setSolvedWith] = useState<InitialMethod>("northwest");
+  const [iteration, setIteration] = useState<number>(1);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const step = useMemo(() => (plan ? modiStep(plan) : null), [plan]);
+
+  const handleSourceCountChange = (value: string) => {
+    setSourceCount(value);
+    const m = parseInt(value);
+    if (!(m >= 1 && m <= 10)) return;
+    setCosts(resize(costs, m, () => Array(costs[0]?.length ?? 0).fill("")));
+    setSupply(resize(supply, m, () => ""));
+  };
+
+  const handleDestinationCountChange = (value: string) => {
+    setDestinationCount(value);
+    const n = parseInt(value);
+    if (!(n >= 1 && n <= 10)) return;
+    setCosts(costs.map((row) => resize(row, n, () => "")));
+    setDemand(resize(demand, n, () => ""));
+  };
+
+  const handleCostChange = (row: number, col: number, value: string) => {
+    const updated = costs.map((r) => [...r]);
+    updated[row][col] = value;
+    setCosts(updated);
+  };
+
+  const handleSupplyChange = (row: number, value: string) => {
+    const updated = [...supply];
+    updated[row] = value;
+    setSupply(updated);
+  };
+
+  const handleDemandChange = (col: number, value: string) => {
+    const updated = [...demand];
+    updated[col] = value;
+    setDemand(updated);
+  };
+
+  const validateInputs = (): boolean => {
+    if (costs.some((row) => row.some((cell) => cell.trim() === "" || isNaN(Number(cell))))) {
+      alert("Please enter a cost for every route.");
+      return false;
+    }
+    for (let i = 0; i < supply.length; i++) {
+      if (!(parseFloat(supply[i]) >= 0)) {
+        alert(`The supply of S${i + 1} must be a nonnegative number.`);
+        return false;
+      }
+    }
+    for (let j = 0; j < demand.length; j++) {
+      if (!(parseFloat(demand[j]) >= 0)) {
+        alert(`The demand of D${j + 1} must be a nonnegative number.`);
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const showPlan = (next: TransportationPlan, iterationNumber: number) => {
+    setPlan(next);
+    setIteration(iterationNumber);
+    setMessage(null);
+  };
+
+  const handleInitialSolution = () => {
+    if (!validateInputs()) return;
+
+    const problem = {
+      costs: costs.map((row) => row.map((cell) => parseFloat(cell))),
+      supply: supply.map((value) => parseFloat(value)),
+      demand: demand.map((value) => parseFloat(value)),
+    };
+    const result = initialSolution(problem, method);
+    setAllocationSteps(result.steps);
+    setSolvedWith(method);
+    setInitialPlan(result.plan);
+    showPlan(result.plan, 1);
+  };
+
+  const optimalMessage = (last: NonNullable<typeof step>): string =>
+    hasAlternativeOptima(last)
+      ? "Optimal: no reduced cost is negative. A zero reduced cost means another plan has the same cost."
+      : "Optimal: every reduced cost is positive, so this plan is the unique optimum.";
+
+  const handleNextIteration = () => {
+    if (!plan || !step) return;
+
+    if (step.entering === null) {
+      setMessage(optimalMessage(step));
+      return;
+    }
+    showPlan(applyModiStep(plan, step), iteration + 1);
+  };
+
+  const handleReset = () => {
+    if (!initialPlan) return;
+    showPlan(initialPlan, 1);
+  };
+
+  // Solve to optimal automatically, replaying each plan with a small delay
+  const handleSolveToOptimal = () => {
+    if (!plan) return;
+    setMessage(null);
+
+    const result = solveTransportation(plan);
+    result.plans.slice(1).forEach((next, i) => {
+      setTimeout(() => showPlan(next, iteration + i + 1), 100 * i);
+    });
+    setTimeout(() => {
+      setMessage(
+        result.optimal
+          ? optimalMessage(result.steps[result.steps.length - 1])
+          : "Stopped: reached maximum automatic iterations limit."
+      );
+    }, 100 * result.plans.length);
+  };
+
+  const handleGoBack = () => {
+    navigation.goBack();
+  };
+
+  const finished = step !== null && step.entering === null && message !== null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text style={styles.heading}>Transportation Problem</Text>
+
+        <View style={styles.equationsContainer}>
+          <View style={styles.row}>
+            <Text style={styles.label}>Sources</Text>
+            <TextInput
+              style={styles.cellInput}
+              keyboardType="numeric"
+              value={sourceCount}
+              onChangeText={handleSourceCountChange}
+            />
+            <Text style={styles.label}>Destinations</Text>
+            <TextInput
+              style={styles.cellInput}
+              keyboardType="numeric"
+              value={destinationCount}
+              onChangeText={handleDestinationCountChange}
+            />
+          </View>
+
+          <Text style={styles.subHeading}>Costs, Supply and Demand:</Text>
+          <ScrollView horizontal>
+            <View>
+              {costs.map((row, i) => (
+                <View key={i} style={styles.row}>
+                  <Text style={styles.rowLabel}>S{i + 1}</Text>
+                  {row.map((cell, j) => (
+                    <TextInput
+                      key={j}
+                      style={styles.cellInput}
+                      value={cell}
+                      keyboardType="numbers-and-punctuation"
+                      placeholder={`c${i + 1}${j + 1}`}
+                      placeholderTextColor="#ccc"
+                      onChangeText={(value) => handleCostChange(i, j, value)}
+                    />
+                  ))}
+                  <TextInput
+                    style={[styles.cellInput, styles.edgeInput]}
+                    value={supply[i]}
+                    keyboardType="numeric"
+                    placeholder="Supply"
+                    placeholderTextColor="#ccc"
+                    onChangeText={(value) => handleSupplyChange(i, value)}
+                  />
+                </View>
+              ))}
+              <View style={styles.row}>
+                <Text style={styles.rowLabel}> </Text>
+                {demand.map((cell, j) => (
+                  <TextInput
+                    key={j}
+                    style={[styles.cellInput, styles.edgeInput]}
+                    value={cell}
+                    keyboardType="numeric"
+                    placeholder={`D${j + 1}`}
+                    placeholderTextColor="#ccc"
+                    onChangeText={(value) => handleDemandChange(j, value)}
+                  />
+                ))}
+              </View>
+            </View>
+          </ScrollView>
+          <Text style={styles.noteText}>The bottom row is the demand of each destination.</Text>
+        </View>
+
+        <View style={styles.methodToggle}>
+          {(Object.keys(initialMethodLabels) as InitialMethod[]).map((key) => (
+            <TouchableOpacity
+              key={key}
+              style={[styles.methodButton, method === key && styles.activeMethodButton]}
+              onPress={() => setMethod(key)}
+            >
+              <Text style={[styles.methodText, method === key && styles.activeMethodText]}>
+                {initialMethodLabels[key]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity style={styles.solveButton} onPress={handleInitialSolution}>
+          <Text style={styles.solveButtonText}>Find Initial Solution</Text>
+        </TouchableOpacity>
+
+        {initialPlan && (
+          <View style={[styles.equationsContainer, { marginTop: 20 }]}>
+            <Text style={styles.subHeading}>{initialMethodLabels[solvedWith]}:</Text>
+            {initialPlan.dummy && (
+              <Text style={styles.noteText}>
+                Supply and demand differ, so a dummy {initialPlan.dummy === "row" ? "source" : "destination"} with zero
+                costs takes up the difference.
+              </Text>
+            )}
+            {allocationSteps.map((allocation, index) => (
+              <Text key={index} style={styles.equationText}>
+                {index + 1}. {sourceLabel(initialPlan, allocation.row)} → {destinationLabel(initialPlan, allocation.col)}:{" "}
+                {decimalToFraction(allocation.amount)} ({allocation.note})
+              </Text>
+            ))}
+            <Text style={styles.equationText}>Initial cost: {decimalToFraction(totalCost(initialPlan))}</Text>
+          </View>
+        )}
+
+        {plan && step && (
+          <>
+            <Text style={styles.subHeading}>MODI (Iteration {iteration})</Text>
+            <Text style={styles.noteText}>
+              Green cells are basic. Nonbasic cells show cᵢⱼ - uᵢ - vⱼ; the loop is outlined with (+) and (−).
+            </Text>
+            <TransportationGrid plan={plan} step={step} />
+
+            <View style={styles.equationsContainer}>
+              <Text style={styles.subHeading}>Stepping-Stone Information:</Text>
+              <Text style={styles.equationText}>Total Cost: {decimalToFraction(totalCost(plan))}</Text>
+              <Text style={styles.equationText}>
+                Entering Cell:{" "}
+                {step.entering
+                  ? `${sourceLabel(plan, step.entering.row)} → ${destinationLabel(plan, step.entering.col)}`
+                  : "None"}
+              </Text>
+              <Text style={styles.equationText}>
+                Leaving Cell:{" "}
+                {step.leaving ? `${sourceLabel(plan, step.leaving.row)} → ${destinationLabel(plan, step.leaving.col)}` : "None"}
+              </Text>
+              {step.entering && (
+                <Text style={styles.equationText}>
+                  Loop:{" "}
+                  {step.loop
+                    .map((cell) => `${cell.sign > 0 ? "+" : "−"}(${sourceLabel(plan, cell.row)}, ${destinationLabel(plan, cell.col)})`)
+                    .join(" ")}
+                  , θ = {decimalToFraction(step.theta)}
+                </Text>
+              )}
+              {message ? <Text style={[styles.equationText, { fontStyle: "normal" }]}>{message}</Text> : null}
+            </View>
+          </>
+        )}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.backButton} onPress={handleGoBack}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Reset</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.nextButton, (finished || !plan) && { backgroundColor: "#9E9E9E" }]}
+            onPress={handleNextIteration}
+            disabled={finished || !plan}
+          >
+            <Text style={styles.nextButtonText}>Next Iteration</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ marginTop: 10, flexDirection: "row", justifyContent: "space-between" }}>
+          <TouchableOpacity style={[styles.solveButton, { flex: 1 }]} onPress={handleSolveToOptimal}>
+            <Text style={styles.solveButtonText}>Solve to Optimal</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 40 }} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#3b5998" },
+  scrollContent: { padding: 16, paddingBottom: 40 },
+  heading: { color: "#fff", fontSize: 24, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, marginTop: 15, textAlign: "center" },
+  equationsContainer: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  equationText: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  noteText: { color: "#fff", fontSize: 14, marginBottom: 10, textAlign: "center" },
+  row: { flexDirection: "row", alignItems: "center", marginBottom: 8 },
+  label: { color: "#fff", fontSize: 16, marginRight: 8 },
+  rowLabel: { color: "#fff", fontWeight: "bold", width: 30 },
+  cellInput: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, padding: 5, color: "#fff", width: 60, marginRight: 8, textAlign: "center" },
+  edgeInput: { borderColor: "#FFD54F" },
+  methodToggle: { flexDirection: "row", justifyContent: "center", flexWrap: "wrap", marginBottom: 10 },
+  methodButton: { borderWidth: 1, borderColor: "#fff", paddingVertical: 8, paddingHorizontal: 12, borderRadius: 20, margin: 4 },
+  activeMethodButton: { backgroundColor: "#fff" },
+  methodText: { color: "#fff", fontWeight: "bold", fontSize: 13 },
+  activeMethodText: { color: "#3b5998" },
+  buttonContainer: { flexDirection: "row", justifyContent: "space-between", marginTop: 20 },
+  backButton: { backgroundColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginRight: 8 },
+  resetButton: { backgroundColor: "#FFD54F", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginHorizontal: 8 },
+  nextButton: { backgroundColor: "#4CAF50", padding: 12, borderRadius: 30, alignItems: "center", flex: 1, marginLeft: 8 },
+  backButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  resetButtonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+  nextButtonText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  solveButton: { backgroundColor: "#2196F3", padding: 12, borderRadius: 30, alignItems: "center" },
+  solveButtonText: { color: "#fff", fontWeight: "bold" },
+});
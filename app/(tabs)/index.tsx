@@ -1,14 +1,38 @@
 import React, { useState } from "react";
 import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRoute, useNavigation, RouteProp, NavigationProp } from "@react-navigation/native";
 import NextComponent from "./Nextcomponent";
 
+type RootStackParamList = {
+  // constraints the infeasibility diagnosis sends back to be highlighted
+  index: { conflicts?: number[] } | undefined;
+  Transportation: undefined;
+  Assignment: undefined;
+};
+
 export default function Index() {
+  const route = useRoute<RouteProp<RootStackParamList, "index">>();
+  const navigation = useNavigation<NavigationProp<RootStackParamList>>();
   const [optimization, setOptimization] = useState("Maximize");
   const [variables, setVariables] = useState("");
   const [constraints, setConstraints] = useState("");
   const [showNext, setShowNext] = useState(false);
 
+  // The counts the grid is sized to, taken from the inputs once editing ends so that typing "15" doesn't
+  // shrink the grid to a single column on the way
+  const [size, setSize] = useState({ variables: "", constraints: "" });
+
+  const applySize = () => setSize({ variables, constraints });
+
+  // The grid's own add and remove controls keep the counts in step
+  const handleSizeChange = (newVariables: number, newConstraints: number) => {
+    const next = { variables: String(newVariables), constraints: String(newConstraints) };
+    setVariables(next.variables);
+    setConstraints(next.constraints);
+    setSize(next);
+  };
+
   return (
     <LinearGradient colors={['#4c669f', '#3b5998', '#192f6a']} style={styles.container}>
       <Text style={styles.heading}>Simplex Optimization</Text>
@@ -41,6 +65,8 @@ export default function Index() {
           placeholderTextColor="#ccc"
           value={variables}
           onChangeText={setVariables}
+          onBlur={applySize}
+          onSubmitEditing={applySize}
         />
 
         <Text style={styles.label}>Number of Constraints</Text>
@@ -51,19 +77,36 @@ export default function Index() {
           placeholderTextColor="#ccc"
           value={constraints}
           onChangeText={setConstraints}
+          onBlur={applySize}
+          onSubmitEditing={applySize}
         />
       </View>
 
-      <TouchableOpacity style={styles.nextButton} onPress={() => setShowNext(true)}>
+      <TouchableOpacity
+        style={styles.nextButton}
+        onPress={() => {
+          applySize();
+          setShowNext(true);
+        }}
+      >
         <Text style={styles.nextText}>Next</Text>
       </TouchableOpacity>
 
+      <TouchableOpacity style={styles.specialButton} onPress={() => navigation.navigate("Transportation")}>
+        <Text style={styles.specialText}>Transportation Problem</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.specialButton} onPress={() => navigation.navigate("Assignment")}>
+        <Text style={styles.specialText}>Assignment Problem</Text>
+      </TouchableOpacity>
+
       {showNext && (
         <NextComponent
-          key={variables + "-" + constraints + "-" + optimization} // forces remount
           optimization={optimization}
-          variables={variables}
-          constraints={constraints}
+          variables={size.variables}
+          constraints={size.constraints}
+          conflictingRows={route.params?.conflicts}
+          onSizeChange={handleSizeChange}
         />
       )}
     </LinearGradient>
@@ -85,4 +128,6 @@ const styles = StyleSheet.create({
   input: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, padding: 5, color: "#fff", marginBottom: 5 },
   nextButton: { backgroundColor: "#fff", padding: 15, borderRadius: 30, alignItems: "center" },
   nextText: { color: "#3b5998", fontWeight: "bold", fontSize: 16 },
+  specialButton: { borderWidth: 1, borderColor: "#fff", padding: 12, borderRadius: 30, alignItems: "center", marginTop: 10 },
+  specialText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
 });
\ No newline at end of file
@@ -0,0 +1,60 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import {
+  alternativeColumns,
+  enumerateOptimalFace,
+  formatConvexCombination,
+  formatValue,
+  Tableau,
+} from "@/lib/simplex";
+
+type AlternativeOptimaProps<T> = {
+  // an optimal tableau
+  tableau: Tableau<T>;
+  onPivot: () => void;
+};
+
+// Shown under an optimal tableau when some nonbasic Cj - Zj is zero, i.e. the optimum isn't unique
+export default function AlternativeOptima<T>({ tableau, onPivot }: AlternativeOptimaProps<T>) {
+  const columns = useMemo(() => alternativeColumns(tableau), [tableau]);
+  const face = useMemo(() => (columns.length > 0 ? enumerateOptimalFace(tableau) : null), [columns, tableau]);
+
+  if (!face) return null;
+
+  const canPivot = columns.some(({ row }) => row !== null);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Alternative Optimal Solutions</Text>
+      <Text style={styles.text}>
+        Nonbasic {columns.map(({ entering }) => entering).join(", ")} {columns.length === 1 ? "has" : "have"} Cj - Zj = 0,
+        so the optimal solution is not unique.
+      </Text>
+
+      {face.vertices.map((vertex, i) => (
+        <Text key={i} style={styles.text}>
+          BFS {i + 1}: {Object.entries(vertex).map(([name, value]) => `${name} = ${formatValue(tableau, value)}`).join(", ")}
+        </Text>
+      ))}
+      {face.truncated ? <Text style={styles.text}>Only the first optimal bases are listed.</Text> : null}
+
+      <Text style={styles.subHeading}>Every optimal solution:</Text>
+      <Text style={styles.text}>{formatConvexCombination(tableau, face)}</Text>
+
+      {canPivot ? (
+        <TouchableOpacity style={styles.button} onPress={onPivot}>
+          <Text style={styles.buttonText}>Pivot to Alternative Optimum</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 16, fontWeight: "bold", marginTop: 8, marginBottom: 8 },
+  text: { color: "#fff", fontSize: 16, marginBottom: 8, fontStyle: "italic" },
+  button: { backgroundColor: "#FFD54F", padding: 12, borderRadius: 30, alignItems: "center", marginTop: 10 },
+  buttonText: { color: "#3b5998", fontWeight: "bold", fontSize: 14 },
+});
@@ -0,0 +1,77 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { decimalToFraction, HungarianTable, jobLabel, workerLabel } from "@/lib/simplex";
+
+type AssignmentMatrixProps = {
+  table: HungarianTable;
+};
+
+const CELL_WIDTH = 70;
+
+// Reduced matrix of a Hungarian step: covered lines are shaded, assigned zeros highlighted, and once optimal
+// each assigned cell also shows its original cost
+export default function AssignmentMatrix({ table }: AssignmentMatrixProps) {
+  const { matrix, coveredRows, coveredCols, assignment } = table;
+  const optimal = table.stage === "optimal";
+
+  return (
+    <View style={styles.tableContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <View>
+          {/* Header Row */}
+          <View style={[styles.row, styles.headerRow]}>
+            <View style={[styles.cell, styles.headerCell]} />
+            {matrix.map((_, j) => (
+              <View key={j} style={[styles.cell, styles.headerCell, coveredCols[j] && styles.coveredHeader]}>
+                <Text style={styles.headerText}>{jobLabel(table, j)}</Text>
+              </View>
+            ))}
+          </View>
+
+          {matrix.map((row, i) => (
+            <View key={i} style={styles.row}>
+              <View style={[styles.cell, styles.headerCell, coveredRows[i] && styles.coveredHeader]}>
+                <Text style={styles.headerText}>{workerLabel(table, i)}</Text>
+              </View>
+              {row.map((value, j) => {
+                const assigned = optimal && assignment[i] === j;
+                return (
+                  <View
+                    key={j}
+                    style={[
+                      styles.cell,
+                      (coveredRows[i] || coveredCols[j]) && styles.coveredCell,
+                      coveredRows[i] && coveredCols[j] && styles.crossedCell,
+                      assigned && styles.assignedCell,
+                    ]}
+                  >
+                    <Text style={[styles.cellText, value === 0 && styles.zeroText]}>{decimalToFraction(value)}</Text>
+                    {assigned && (
+                      <Text style={styles.costText}>c = {decimalToFraction(table.problem.costs[i][j])}</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tableContainer: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, marginBottom: 20 },
+  row: { flexDirection: "row", borderBottomWidth: 1, borderBottomColor: "#fff" },
+  headerRow: { backgroundColor: "rgba(255, 255, 255, 0.2)" },
+  cell: { width: CELL_WIDTH, padding: 10, justifyContent: "center", alignItems: "center", borderRightWidth: 1, borderRightColor: "#fff" },
+  headerCell: { backgroundColor: "rgba(255, 255, 255, 0.3)" },
+  coveredHeader: { backgroundColor: "rgba(255, 213, 79, 0.6)" },
+  coveredCell: { backgroundColor: "rgba(255, 213, 79, 0.25)" },
+  crossedCell: { backgroundColor: "rgba(255, 152, 0, 0.5)" },
+  assignedCell: { backgroundColor: "rgba(76, 175, 80, 0.6)" },
+  headerText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  cellText: { color: "#fff", fontSize: 14 },
+  zeroText: { fontWeight: "bold" },
+  costText: { color: "#fff", fontSize: 11 },
+});
@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import { BranchAndBoundState, decimalToFraction, formatValue, NodeOutcome } from "@/lib/simplex";
+import SimplexTable from "@/components/SimplexTable";
+
+type BranchTreeProps<T> = {
+  search: BranchAndBoundState<T>;
+};
+
+const outcomeLabels: Record<NodeOutcome, string> = {
+  pending: "waiting",
+  branched: "branched",
+  integral: "integral",
+  bound: "pruned by bound",
+  infeasible: "pruned, infeasible",
+  unbounded: "unbounded",
+  error: "error",
+};
+
+const outcomeColors: Record<NodeOutcome, string> = {
+  pending: "#ccc",
+  branched: "#2196F3",
+  integral: "#4CAF50",
+  bound: "#FF9800",
+  infeasible: "#F44336",
+  unbounded: "#F44336",
+  error: "#F44336",
+};
+
+// The branch-and-bound search tree; tap a node to show its LP relaxation
+export default function BranchTree<T>({ search }: BranchTreeProps<T>) {
+  const [expanded, setExpanded] = useState<number[]>([]);
+
+  const toggle = (id: number) =>
+    setExpanded((current) => (current.includes(id) ? current.filter((n) => n !== id) : [...current, id]));
+
+  const renderNode = (id: number, depth: number): React.ReactNode => {
+    const node = search.nodes[id];
+    const isOpen = expanded.includes(id);
+    const isIncumbent = search.incumbent === id;
+
+    return (
+      <View key={id} style={{ marginLeft: depth === 0 ? 0 : 16 }}>
+        <TouchableOpacity
+          style={[styles.node, { borderLeftColor: outcomeColors[node.outcome] }, isIncumbent && styles.incumbentNode]}
+          onPress={() => toggle(id)}
+        >
+          <Text style={styles.nodeTitle}>
+            {isOpen ? "▾" : "▸"} Node {id}{node.branch ? `: ${node.branch}` : " (root)"}
+            {isIncumbent ? " ★ incumbent" : ""}
+          </Text>
+          <Text style={styles.nodeText}>
+            {node.objective !== null ? `Z = ${decimalToFraction(node.objective)} · ` : ""}
+            {outcomeLabels[node.outcome]}
+            {node.note ? ` · ${node.note}` : ""}
+          </Text>
+        </TouchableOpacity>
+
+        {isOpen ? (
+          <View style={styles.details}>
+            {Number.isFinite(node.bound) ? (
+              <Text style={styles.nodeText}>Bound: {decimalToFraction(node.bound)}</Text>
+            ) : null}
+            {node.values && node.tableau ? (
+              <Text style={styles.nodeText}>
+                {Object.entries(node.values).map(([name, value]) => `${name} = ${formatValue(node.tableau!, value)}`).join(", ")}
+              </Text>
+            ) : null}
+            {node.tableau ? <SimplexTable tableau={node.tableau} /> : <Text style={styles.nodeText}>Not solved yet.</Text>}
+          </View>
+        ) : null}
+
+        {node.children.map((child) => renderNode(child, depth + 1))}
+      </View>
+    );
+  };
+
+  return <View style={styles.container}>{renderNode(0, 0)}</View>;
+}
+
+const styles = StyleSheet.create({
+  container: { marginBottom: 20 },
+  node: { backgroundColor: "rgba(255, 255, 255, 0.1)", borderLeftWidth: 4, borderRadius: 6, padding: 10, marginBottom: 6 },
+  incumbentNode: { backgroundColor: "rgba(76, 175, 80, 0.25)" },
+  nodeTitle: { color: "#fff", fontSize: 15, fontWeight: "bold", marginBottom: 4 },
+  nodeText: { color: "#fff", fontSize: 14, marginBottom: 4 },
+  details: { paddingLeft: 10, marginBottom: 6 },
+});
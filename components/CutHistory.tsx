@@ -0,0 +1,36 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Tableau } from "@/lib/simplex";
+import SimplexTable from "@/components/SimplexTable";
+
+export type CutHistoryEntry<T> = {
+  caption: string;
+  tableau: Tableau<T>;
+};
+
+type CutHistoryProps<T> = {
+  entries: CutHistoryEntry<T>[];
+};
+
+// Each Gomory cut with the tableau it produced, followed by the dual simplex iterations that re-optimized it
+export default function CutHistory<T>({ entries }: CutHistoryProps<T>) {
+  if (entries.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Cutting Plane History</Text>
+      {entries.map((entry, index) => (
+        <View key={index}>
+          <Text style={styles.caption}>{entry.caption}</Text>
+          <SimplexTable tableau={entry.tableau} />
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  caption: { color: "#fff", fontSize: 16, marginTop: 10, marginBottom: 8, fontStyle: "italic" },
+});
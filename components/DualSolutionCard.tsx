@@ -0,0 +1,48 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { dualSolution, formatValue, lessOrEqualDualSolution, LPModel, Tableau } from "@/lib/simplex";
+
+type DualSolutionCardProps<T> = {
+  // an optimal tableau and the model it was built from
+  tableau: Tableau<T>;
+  model: LPModel;
+  // the tableau was built from the ≤ form of the model (the dual simplex)
+  lessOrEqual?: boolean;
+};
+
+// Shadow prices read off the final Zj row, with the strong duality check Σ bᵢyᵢ = Z
+export default function DualSolutionCard<T>({ tableau, model, lessOrEqual = false }: DualSolutionCardProps<T>) {
+  const dual = useMemo(
+    () => (lessOrEqual ? lessOrEqualDualSolution(tableau, model) : dualSolution(tableau, model)),
+    [tableau, model, lessOrEqual]
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Dual Solution</Text>
+      <Text style={styles.note}>
+        The shadow price yᵢ is the change in Z per unit increase of constraint i&apos;s right-hand side.
+      </Text>
+      {dual.prices.map((price, i) => (
+        <Text key={i} style={styles.text}>
+          y{i + 1} = {formatValue(tableau, price.value)}   ({price.constraint}
+          {price.column ? `, Zj of ${price.column}` : ""})
+        </Text>
+      ))}
+      <Text style={styles.text}>Dual objective Σ bᵢyᵢ = {formatValue(tableau, dual.dualObjective)}</Text>
+      <Text style={styles.text}>Primal Z = {formatValue(tableau, dual.primalObjective)}</Text>
+      <Text style={[styles.text, { color: dual.strongDuality ? "#A5D6A7" : "#FFAB91" }]}>
+        {dual.strongDuality
+          ? "The dual and primal objectives are equal, as strong duality requires."
+          : "The dual and primal objectives differ, so this tableau is not optimal for both problems."}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  note: { color: "#fff", fontSize: 14, marginBottom: 10, fontStyle: "italic" },
+  text: { color: "#fff", fontSize: 16, marginBottom: 8 },
+});
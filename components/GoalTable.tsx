@@ -0,0 +1,90 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView, Dimensions } from "react-native";
+import { arithmeticOf, formatValue, GoalTableau } from "@/lib/simplex";
+
+type GoalTableProps<T> = {
+  goal: GoalTableau<T>;
+};
+
+// Basis rows followed by one Cj - Zj row per priority level; the Solution column of a level row is its achievement
+export default function GoalTable<T>({ goal }: GoalTableProps<T>) {
+  const tableau = goal.levels[0];
+  const { variables, basis } = tableau;
+  const ar = arithmeticOf(tableau);
+  const screenWidth = Dimensions.get("window").width;
+  const cellWidth = Math.max(70, screenWidth / (variables.length + 2));
+
+  return (
+    <View style={styles.tableContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <View>
+          {/* Header Row */}
+          <View style={[styles.row, styles.headerRow]}>
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}>Basis</Text>
+            </View>
+            {variables.map((variable, index) => (
+              <View key={index} style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+                <Text style={styles.headerText}>{variable}</Text>
+              </View>
+            ))}
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}>Solution</Text>
+            </View>
+          </View>
+
+          {/* Table Rows */}
+          {tableau.rows.map((row, rowIndex) => (
+            <View key={rowIndex} style={styles.row}>
+              <View style={[styles.cell, { width: cellWidth }]}>
+                <Text style={styles.cellText}>{basis[rowIndex]}</Text>
+              </View>
+              {row.map((value, colIndex) => (
+                <View key={colIndex} style={[styles.cell, { width: cellWidth }]}>
+                  <Text style={styles.cellText}>{formatValue(tableau, value)}</Text>
+                </View>
+              ))}
+            </View>
+          ))}
+
+          {/* One Cj - Zj row per level; negatives of the level being minimized can still improve it */}
+          {goal.levels.map((level, levelIndex) => (
+            <View
+              key={levelIndex}
+              style={[styles.row, styles.cjZjRow, levelIndex === goal.current && styles.currentRow]}
+            >
+              <View style={[styles.cell, { width: cellWidth }]}>
+                <Text style={styles.cellText}>{goal.labels[levelIndex]}</Text>
+              </View>
+              {level.cjMinusZj.slice(0, variables.length).map((value, colIndex) => (
+                <View key={colIndex} style={[styles.cell, { width: cellWidth }]}>
+                  <Text
+                    style={[styles.cellText, levelIndex === goal.current && ar.sign(value) < 0 && styles.negativeValue]}
+                  >
+                    {formatValue(level, value)}
+                  </Text>
+                </View>
+              ))}
+              <View style={[styles.cell, { width: cellWidth }]}>
+                <Text style={styles.cellText}>{formatValue(level, level.zj[variables.length])}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tableContainer: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, marginBottom: 20 },
+  row: { flexDirection: "row", borderBottomWidth: 1, borderBottomColor: "#fff" },
+  headerRow: { backgroundColor: "rgba(255, 255, 255, 0.2)" },
+  cjZjRow: { backgroundColor: "rgba(255, 0, 0, 0.1)" },
+  currentRow: { backgroundColor: "rgba(255, 213, 79, 0.3)" },
+  cell: { padding: 10, justifyContent: "center", alignItems: "center", borderRightWidth: 1, borderRightColor: "#fff" },
+  headerCell: { backgroundColor: "rgba(255, 255, 255, 0.3)" },
+  headerText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  cellText: { color: "#fff", fontSize: 14 },
+  negativeValue: { color: "#ff6666", fontWeight: "bold" },
+});
@@ -0,0 +1,214 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { WebView } from "react-native-webview";
+import { decimalToFraction, LPModel, modelVariableNames, PlotPoint, solveGraphically } from "@/lib/simplex";
+
+type GraphicalPlotProps = {
+  // a model with exactly two variables
+  model: LPModel;
+  // the vertex the simplex method is currently at, highlighted on the plot
+  current?: PlotPoint | null;
+  // an unbounded ray x₀ + t·d, drawn as an arrow
+  ray?: { origin: PlotPoint; direction: PlotPoint } | null;
+};
+
+const SIZE = 320;
+const PADDING = 30;
+
+const lineColors = { "≤": "#4CAF50", "≥": "#FF9800", "=": "#F44336" };
+
+// SVG drawn inside a WebView; the script redraws the iso-profit line wherever it is dragged
+const plotHtml = (data: object): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no" />
+<style>
+  html, body { margin: 0; background: #3b5998; }
+  svg { width: 100%; height: auto; touch-action: none; font-family: sans-serif; }
+</style>
+</head>
+<body>
+<svg id="plot" viewBox="0 0 ${SIZE} ${SIZE}" xmlns="http://www.w3.org/2000/svg"></svg>
+<script>
+  const data = ${JSON.stringify(data)};
+  const { range, size, padding } = data;
+  const sx = (x) => padding + ((x - range.xMin) / (range.xMax - range.xMin)) * (size - 2 * padding);
+  const sy = (y) => size - padding - ((y - range.yMin) / (range.yMax - range.yMin)) * (size - 2 * padding);
+  const ux = (px) => range.xMin + ((px - padding) / (size - 2 * padding)) * (range.xMax - range.xMin);
+  const uy = (py) => range.yMin + ((size - padding - py) / (size - 2 * padding)) * (range.yMax - range.yMin);
+  const svg = document.getElementById("plot");
+  const add = (tag, attributes, text) => {
+    const element = document.createElementNS("http://www.w3.org/2000/svg", tag);
+    Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, value));
+    if (text !== undefined) element.textContent = text;
+    svg.appendChild(element);
+    return element;
+  };
+
+  // The part of the line a·(x, y) = b inside the plotted range
+  const segment = (a, b) => {
+    const points = [];
+    const push = (x, y) => {
+      if (x >= range.xMin - 1e-9 && x <= range.xMax + 1e-9 && y >= range.yMin - 1e-9 && y <= range.yMax + 1e-9) points.push([x, y]);
+    };
+    if (Math.abs(a[1]) > 1e-12) {
+      push(range.xMin, (b - a[0] * range.xMin) / a[1]);
+      push(range.xMax, (b - a[0] * range.xMax) / a[1]);
+    }
+    if (Math.abs(a[0]) > 1e-12) {
+      push((b - a[1] * range.yMin) / a[0], range.yMin);
+      push((b - a[1] * range.yMax) / a[0], range.yMax);
+    }
+    if (points.length < 2) return null;
+    points.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+    return [points[0], points[points.length - 1]];
+  };
+
+  // Axes
+  add("line", { x1: sx(range.xMin), y1: sy(0), x2: sx(range.xMax), y2: sy(0), stroke: "#fff", "stroke-width": 1 });
+  add("line", { x1: sx(0), y1: sy(range.yMin), x2: sx(0), y2: sy(range.yMax), stroke: "#fff", "stroke-width": 1 });
+  add("text", { x: size - padding, y: sy(0) - 6, fill: "#fff", "font-size": 12, "text-anchor": "end" }, data.names[0]);
+  add("text", { x: sx(0) + 6, y: padding - 8, fill: "#fff", "font-size": 12 }, data.names[1]);
+  for (let i = 0; i <= 4; i++) {
+    const x = range.xMin + ((range.xMax - range.xMin) * i) / 4;
+    const y = range.yMin + ((range.yMax - range.yMin) * i) / 4;
+    add("text", { x: sx(x), y: size - padding + 14, fill: "#ccc", "font-size": 9, "text-anchor": "middle" }, +x.toFixed(2));
+    add("text", { x: padding - 4, y: sy(y) + 3, fill: "#ccc", "font-size": 9, "text-anchor": "end" }, +y.toFixed(2));
+  }
+
+  // Feasible region
+  if (data.region.length > 0) {
+    add("polygon", {
+      points: data.region.map((p) => sx(p.x) + "," + sy(p.y)).join(" "),
+      fill: "rgba(76, 175, 80, 0.35)",
+      stroke: "rgba(76, 175, 80, 0.8)",
+      "stroke-width": 1,
+    });
+  }
+
+  // Constraint lines
+  data.lines.forEach((line) => {
+    const s = segment(line.a, line.b);
+    if (!s) return;
+    add("line", {
+      x1: sx(s[0][0]), y1: sy(s[0][1]), x2: sx(s[1][0]), y2: sy(s[1][1]),
+      stroke: line.color, "stroke-width": line.bound ? 1 : 2, "stroke-dasharray": line.bound ? "3,3" : "",
+    });
+    add("text", { x: Math.min(sx(s[1][0]), size - padding) - 2, y: Math.max(sy(s[1][1]), padding) + 12, fill: line.color, "font-size": 10, "text-anchor": "end" }, line.label);
+  });
+
+  // Iso-profit line, dragged to any point of the plot
+  const iso = add("line", { stroke: "#2196F3", "stroke-width": 2, "stroke-dasharray": "6,4" });
+  const isoLabel = add("text", { x: padding + 4, y: padding - 8, fill: "#90CAF9", "font-size": 12 }, "");
+  const drawIso = (z) => {
+    const s = segment(data.objective, z);
+    iso.setAttribute("visibility", s ? "visible" : "hidden");
+    if (s) {
+      iso.setAttribute("x1", sx(s[0][0]));
+      iso.setAttribute("y1", sy(s[0][1]));
+      iso.setAttribute("x2", sx(s[1][0]));
+      iso.setAttribute("y2", sy(s[1][1]));
+    }
+    isoLabel.textContent = "Z = " + +z.toFixed(3) + " (drag to move)";
+  };
+  drawIso(data.isoStart);
+  let dragging = false;
+  const move = (event) => {
+    if (!dragging) return;
+    const box = svg.getBoundingClientRect();
+    const px = ((event.clientX - box.left) / box.width) * size;
+    const py = ((event.clientY - box.top) / box.height) * size;
+    drawIso(data.objective[0] * ux(px) + data.objective[1] * uy(py));
+  };
+  svg.addEventListener("pointerdown", (event) => { dragging = true; move(event); });
+  svg.addEventListener("pointermove", move);
+  svg.addEventListener("pointerup", () => { dragging = false; });
+  svg.addEventListener("pointerleave", () => { dragging = false; });
+
+  // Corner points with their Z values; the optimal ones are filled
+  data.corners.forEach((corner) => {
+    add("circle", { cx: sx(corner.x), cy: sy(corner.y), r: 4, fill: corner.optimal ? "#FFD54F" : "#fff" });
+    add("text", { x: sx(corner.x) + 6, y: sy(corner.y) - 6, fill: "#fff", "font-size": 10 }, corner.label);
+  });
+
+  // The simplex method's current vertex
+  if (data.current) {
+    add("circle", { cx: sx(data.current.x), cy: sy(data.current.y), r: 9, fill: "none", stroke: "#E91E63", "stroke-width": 3 });
+  }
+
+  // Unbounded ray, followed from x₀ until it leaves the plot
+  if (data.ray && (data.ray.direction.x !== 0 || data.ray.direction.y !== 0)) {
+    const { origin, direction } = data.ray;
+    const limits = [];
+    if (direction.x > 0) limits.push((range.xMax - origin.x) / direction.x);
+    if (direction.x < 0) limits.push((range.xMin - origin.x) / direction.x);
+    if (direction.y > 0) limits.push((range.yMax - origin.y) / direction.y);
+    if (direction.y < 0) limits.push((range.yMin - origin.y) / direction.y);
+    const t = Math.max(0, Math.min(...limits));
+    const marker = add("marker", { id: "arrow", markerWidth: 8, markerHeight: 8, refX: 6, refY: 4, orient: "auto" });
+    const head = document.createElementNS("http://www.w3.org/2000/svg", "path");
+    head.setAttribute("d", "M0,0 L8,4 L0,8 Z");
+    head.setAttribute("fill", "#E91E63");
+    marker.appendChild(head);
+    add("line", {
+      x1: sx(origin.x), y1: sy(origin.y), x2: sx(origin.x + t * direction.x), y2: sy(origin.y + t * direction.y),
+      stroke: "#E91E63", "stroke-width": 3, "marker-end": "url(#arrow)",
+    });
+  }
+</script>
+</body>
+</html>`;
+
+// Graphical method: constraint lines, the shaded feasible region, every corner with its Z value and an iso-profit line
+export default function GraphicalPlot({ model, current = null, ray = null }: GraphicalPlotProps) {
+  const solution = useMemo(() => solveGraphically(model), [model]);
+
+  const html = useMemo(() => {
+    const optimum = solution.corners.find((corner) => corner.optimal);
+    const { xMin, xMax, yMin, yMax } = solution.range;
+    const center = { x: (xMin + xMax) / 2, y: (yMin + yMax) / 2 };
+    const start = optimum ?? center;
+    return plotHtml({
+      size: SIZE,
+      padding: PADDING,
+      range: solution.range,
+      names: modelVariableNames(model),
+      objective: model.objective,
+      isoStart: model.objective[0] * start.x + model.objective[1] * start.y,
+      region: solution.region,
+      lines: solution.halfPlanes.map((plane) => ({ ...plane, color: plane.bound ? "#ccc" : lineColors[plane.type] })),
+      corners: solution.corners.map((corner) => ({
+        ...corner,
+        label: `(${decimalToFraction(corner.x)}, ${decimalToFraction(corner.y)}) Z=${decimalToFraction(corner.z)}`,
+      })),
+      current,
+      ray,
+    });
+  }, [solution, model, current, ray]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Graphical View</Text>
+      <WebView
+        originWhitelist={["*"]}
+        source={{ html }}
+        style={styles.plot}
+        scrollEnabled={false}
+        javaScriptEnabled
+      />
+      {current ? <Text style={styles.legend}>The ringed point is the simplex method&apos;s current basic solution.</Text> : null}
+      {ray ? <Text style={styles.legend}>The arrow is the ray along which Z improves without limit.</Text> : null}
+      {solution.status === "unbounded" ? (
+        <Text style={styles.legend}>The feasible region is unbounded in the direction of improvement.</Text>
+      ) : null}
+      {solution.status === "infeasible" ? <Text style={styles.legend}>The constraints have no common point.</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  plot: { width: "100%", aspectRatio: 1, backgroundColor: "#3b5998" },
+  legend: { color: "#fff", fontSize: 14, marginTop: 8, fontStyle: "italic" },
+});
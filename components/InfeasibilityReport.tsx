@@ -0,0 +1,81 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import {
+  arithmeticOf,
+  farkasCertificate,
+  formatConstraints,
+  formatValue,
+  irreducibleInfeasibleSubset,
+  LPModel,
+  Tableau,
+} from "@/lib/simplex";
+
+type InfeasibilityReportProps<T> = {
+  // the final Phase 1 tableau, with W > 0, and the model it was built from
+  tableau: Tableau<T>;
+  model: LPModel;
+  // the model as entered, whose rows the conflicting subset refers to
+  original: LPModel;
+  onHighlight: (rows: number[]) => void;
+};
+
+// Which constraints conflict: an irreducible infeasible subset, and the Farkas certificate that proves it
+export default function InfeasibilityReport<T>({ tableau, model, original, onHighlight }: InfeasibilityReportProps<T>) {
+  const certificate = useMemo(() => farkasCertificate(tableau, model), [tableau, model]);
+  const subset = useMemo(
+    () =>
+      irreducibleInfeasibleSubset(
+        original,
+        arithmeticOf(tableau),
+        // rows past the original ones are range rows added for bounded variables
+        certificate.multipliers.map(({ row }) => row).filter((row) => row < original.rhs.length)
+      ),
+    [original, tableau, certificate]
+  );
+  const labels = formatConstraints(original);
+  const bounded = (original.bounds ?? []).some(({ lower, upper }) => lower !== 0 || upper !== Infinity);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Why Is It Infeasible?</Text>
+
+      <Text style={styles.subHeading}>Conflicting constraints</Text>
+      {subset.map((row) => (
+        <Text key={row} style={styles.conflictText}>
+          {original.constraintNames ? labels[row] : `Constraint ${row + 1}: ${labels[row]}`}
+        </Text>
+      ))}
+      <Text style={styles.note}>
+        These constraints can&apos;t hold at the same time{bounded ? " within the variable bounds" : ""}, but removing any one
+        of them makes the rest feasible.
+      </Text>
+
+      <Text style={styles.subHeading}>Farkas certificate</Text>
+      {certificate.multipliers.map(({ row, constraint, multiplier }) => (
+        <Text key={row} style={styles.text}>
+          {formatValue(tableau, multiplier)} × ({constraint})
+        </Text>
+      ))}
+      <Text style={styles.text}>Sum: {certificate.combination}</Text>
+      <Text style={styles.note}>
+        Weighted this way the constraints add up to an inequality whose left side is never negative for nonnegative
+        variables, while its right side is negative.
+      </Text>
+
+      <TouchableOpacity style={styles.button} onPress={() => onHighlight(subset)}>
+        <Text style={styles.buttonText}>Highlight on Input Form</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 16, fontWeight: "bold", marginTop: 10, marginBottom: 8 },
+  text: { color: "#fff", fontSize: 16, marginBottom: 6 },
+  conflictText: { color: "#FFAB91", fontSize: 16, fontWeight: "bold", marginBottom: 6 },
+  note: { color: "#fff", fontSize: 14, marginBottom: 6, fontStyle: "italic" },
+  button: { backgroundColor: "#F44336", padding: 12, borderRadius: 30, alignItems: "center", marginTop: 10 },
+  buttonText: { color: "#fff", fontWeight: "bold" },
+});
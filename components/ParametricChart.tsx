@@ -0,0 +1,100 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { WebView } from "react-native-webview";
+import { ParametricInterval } from "@/lib/simplex";
+
+type ParametricChartProps = {
+  intervals: ParametricInterval[];
+};
+
+const SIZE = 320;
+const PADDING = 36;
+
+// SVG drawn inside a WebView: one segment per interval, with a dot at every breakpoint
+const chartHtml = (data: object): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no" />
+<style>
+  html, body { margin: 0; background: #3b5998; }
+  svg { width: 100%; height: auto; font-family: sans-serif; }
+</style>
+</head>
+<body>
+<svg id="chart" viewBox="0 0 ${SIZE} ${SIZE}" xmlns="http://www.w3.org/2000/svg"></svg>
+<script>
+  const data = ${JSON.stringify(data)};
+  const { intervals, size, padding } = data;
+  const svg = document.getElementById("chart");
+  const add = (tag, attributes, text) => {
+    const element = document.createElementNS("http://www.w3.org/2000/svg", tag);
+    Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, value));
+    if (text !== undefined) element.textContent = text;
+    svg.appendChild(element);
+    return element;
+  };
+
+  const thetas = intervals.flatMap((interval) => [interval.from, interval.to]);
+  const zs = intervals.flatMap((interval) => [interval.zFrom, interval.zTo]);
+  let [xMin, xMax, yMin, yMax] = [Math.min(...thetas), Math.max(...thetas), Math.min(...zs), Math.max(...zs)];
+  if (yMax - yMin < 1e-9) { yMin -= 1; yMax += 1; }
+  const margin = (yMax - yMin) * 0.1;
+  yMin -= margin;
+  yMax += margin;
+  const sx = (x) => padding + ((x - xMin) / (xMax - xMin)) * (size - 2 * padding);
+  const sy = (y) => size - padding - ((y - yMin) / (yMax - yMin)) * (size - 2 * padding);
+
+  // Axes along the bottom and left edges, with five ticks each
+  add("line", { x1: padding, y1: size - padding, x2: size - padding, y2: size - padding, stroke: "#fff", "stroke-width": 1 });
+  add("line", { x1: padding, y1: padding, x2: padding, y2: size - padding, stroke: "#fff", "stroke-width": 1 });
+  add("text", { x: size - padding, y: size - padding - 6, fill: "#fff", "font-size": 12, "text-anchor": "end" }, "θ");
+  add("text", { x: padding + 6, y: padding - 8, fill: "#fff", "font-size": 12 }, "Z*");
+  for (let i = 0; i <= 4; i++) {
+    const x = xMin + ((xMax - xMin) * i) / 4;
+    const y = yMin + ((yMax - yMin) * i) / 4;
+    add("text", { x: sx(x), y: size - padding + 14, fill: "#ccc", "font-size": 9, "text-anchor": "middle" }, +x.toFixed(2));
+    add("text", { x: padding - 4, y: sy(y) + 3, fill: "#ccc", "font-size": 9, "text-anchor": "end" }, +y.toFixed(2));
+  }
+
+  // Optimal Z, linear on each interval
+  intervals.forEach((interval) => {
+    add("line", {
+      x1: sx(interval.from), y1: sy(interval.zFrom), x2: sx(interval.to), y2: sy(interval.zTo),
+      stroke: "#FFD54F", "stroke-width": 3,
+    });
+  });
+
+  // Breakpoints, where the optimal basis changes
+  intervals.slice(1).forEach((interval) => {
+    add("circle", { cx: sx(interval.from), cy: sy(interval.zFrom), r: 4, fill: "#fff" });
+    add("text", { x: sx(interval.from) + 6, y: sy(interval.zFrom) - 6, fill: "#fff", "font-size": 10 }, "θ=" + +interval.from.toFixed(3));
+  });
+</script>
+</body>
+</html>`;
+
+// Piecewise-linear chart of the optimal objective value against the parameter θ
+export default function ParametricChart({ intervals }: ParametricChartProps) {
+  const html = useMemo(() => chartHtml({ size: SIZE, padding: PADDING, intervals }), [intervals]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Optimal Z against θ</Text>
+      <WebView
+        originWhitelist={["*"]}
+        source={{ html }}
+        style={styles.chart}
+        scrollEnabled={false}
+        javaScriptEnabled
+      />
+      <Text style={styles.legend}>Each dot is a breakpoint where the optimal basis changes.</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  chart: { width: "100%", aspectRatio: 1, backgroundColor: "#3b5998" },
+  legend: { color: "#fff", fontSize: 14, marginTop: 8, fontStyle: "italic" },
+});
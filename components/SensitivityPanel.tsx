@@ -0,0 +1,78 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { formatValue, LPModel, sensitivityReport, Tableau } from "@/lib/simplex";
+
+type SensitivityPanelProps<T> = {
+  // an optimal tableau and the model it was built from
+  tableau: Tableau<T>;
+  model: LPModel;
+};
+
+// Post-optimal ranging: how far each cost and RHS can move before the optimal basis changes
+export default function SensitivityPanel<T>({ tableau, model }: SensitivityPanelProps<T>) {
+  const report = useMemo(() => sensitivityReport(tableau, model), [tableau, model]);
+  const format = (value: T | null) => (value === null ? "∞" : formatValue(tableau, value));
+
+  const renderRow = (cells: string[], header = false) => (
+    <View style={styles.row}>
+      {cells.map((cell, i) => (
+        <Text key={i} style={[styles.cell, i === 0 && styles.labelCell, header && styles.headerCell]}>
+          {cell}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Sensitivity</Text>
+
+      <Text style={styles.subHeading}>Objective coefficients</Text>
+      <ScrollView horizontal>
+        <View>
+          {renderRow(["Variable", "Current", "Allowable increase", "Allowable decrease"], true)}
+          {report.costs.map((range) => (
+            <View key={range.variable}>
+              {renderRow([
+                `${range.variable}${range.basic ? " (basic)" : ""}`,
+                format(range.current),
+                format(range.increase),
+                format(range.decrease),
+              ])}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      <Text style={styles.subHeading}>Right-hand sides</Text>
+      <ScrollView horizontal>
+        <View>
+          {renderRow(["Constraint", "Current", "Allowable increase", "Allowable decrease"], true)}
+          {report.rhs.map((range, i) => (
+            <View key={i}>
+              {renderRow([range.constraint, format(range.current), format(range.increase), format(range.decrease)])}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      <Text style={styles.subHeading}>Reduced costs</Text>
+      {report.reducedCosts.map(({ variable, value }) => (
+        <Text key={variable} style={styles.text}>
+          {variable}: {format(value)}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  subHeading: { color: "#fff", fontSize: 16, fontWeight: "bold", marginTop: 10, marginBottom: 8 },
+  row: { flexDirection: "row" },
+  cell: { color: "#fff", width: 90, padding: 4, fontSize: 13, textAlign: "center", borderBottomWidth: 1, borderColor: "rgba(255, 255, 255, 0.2)" },
+  labelCell: { width: 140, textAlign: "left" },
+  headerCell: { fontWeight: "bold" },
+  text: { color: "#fff", fontSize: 14, marginBottom: 4 },
+});
@@ -0,0 +1,145 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView, Dimensions } from "react-native";
+import { arithmeticOf, formatValue, Tableau } from "@/lib/simplex";
+
+type SimplexTableProps<T> = {
+  tableau: Tableau<T>;
+  // Which Cj - Zj entries to emphasise: Solution and Phase I mark negatives, Phase II marks positives
+  highlightSign?: "negative" | "positive";
+  // constraint labels shown under slack, surplus and artificial columns; see auxiliaryColumnLabels()
+  columnLabels?: Readonly<Record<string, string>>;
+};
+
+// Cj row, basis rows, Zj and Cj - Zj, as shown on every simplex screen
+export default function SimplexTable<T>({ tableau, highlightSign = "negative", columnLabels = {} }: SimplexTableProps<T>) {
+  const highlight = (value: T) => {
+    const sign = arithmeticOf(tableau).sign(value);
+    return highlightSign === "negative" ? sign < 0 : sign > 0;
+  };
+
+  const { variables, cj, basis } = tableau;
+  const numVars = variables.length;
+  const screenWidth = Dimensions.get("window").width;
+  const cellWidth = Math.max(70, screenWidth / (numVars + 3));
+
+  return (
+    <View style={styles.tableContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <View>
+          {/* CJ Row */}
+          <View style={[styles.row, styles.cjRow]}>
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}>Cj →</Text>
+            </View>
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}></Text>
+            </View>
+            {cj.map((value, index) => (
+              <View key={index} style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+                <Text style={styles.headerText}>{formatValue(tableau, value)}</Text>
+              </View>
+            ))}
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}></Text>
+            </View>
+          </View>
+
+          {/* Header Row */}
+          <View style={[styles.row, styles.headerRow]}>
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}>Basis</Text>
+            </View>
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}>CB</Text>
+            </View>
+            {variables.map((variable, index) => (
+              <View key={index} style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+                <Text style={styles.headerText}>{variable}</Text>
+                {columnLabels[variable] ? <Text style={styles.labelText}>{columnLabels[variable]}</Text> : null}
+              </View>
+            ))}
+            <View style={[styles.cell, styles.headerCell, { width: cellWidth }]}>
+              <Text style={styles.headerText}>Solution</Text>
+            </View>
+          </View>
+
+          {/* Table Rows */}
+          {tableau.rows.map((row, rowIndex) => (
+            <View key={rowIndex} style={styles.row}>
+              <View style={[styles.cell, { width: cellWidth }]}>
+                <Text style={styles.cellText}>{basis[rowIndex]}</Text>
+                {columnLabels[basis[rowIndex]] ? <Text style={styles.labelText}>{columnLabels[basis[rowIndex]]}</Text> : null}
+              </View>
+              <View style={[styles.cell, { width: cellWidth }]}>
+                {/* CB value */}
+                {
+                  (() => {
+                    const idx = variables.indexOf(basis[rowIndex]);
+                    return <Text style={styles.cellText}>{idx === -1 ? "0" : formatValue(tableau, cj[idx])}</Text>;
+                  })()
+                }
+              </View>
+              {row.map((value, colIndex) => (
+                <View key={colIndex} style={[styles.cell, { width: cellWidth }]}>
+                  <Text style={styles.cellText}>
+                    {formatValue(tableau, value)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          ))}
+
+          {/* Zj Row */}
+          <View style={[styles.row, styles.zjRow]}>
+            <View style={[styles.cell, { width: cellWidth }]}>
+              <Text style={styles.cellText}>Zj</Text>
+            </View>
+            <View style={[styles.cell, { width: cellWidth }]}>
+              <Text style={styles.cellText}></Text>
+            </View>
+            {tableau.zj.map((value, colIndex) => (
+              <View key={colIndex} style={[styles.cell, { width: cellWidth }]}>
+                <Text style={styles.cellText}>
+                  {formatValue(tableau, value)}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {/* Cj - Zj Row */}
+          <View style={[styles.row, styles.cjZjRow]}>
+            <View style={[styles.cell, { width: cellWidth }]}>
+              <Text style={styles.cellText}>Cj - Zj</Text>
+            </View>
+            <View style={[styles.cell, { width: cellWidth }]}>
+              <Text style={styles.cellText}></Text>
+            </View>
+            {tableau.cjMinusZj.map((value, colIndex) => (
+              <View key={colIndex} style={[styles.cell, { width: cellWidth }]}>
+                <Text style={[styles.cellText, highlight(value) && (highlightSign === "negative" ? styles.negativeValue : styles.positiveValue)]}>
+                  {formatValue(tableau, value)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tableContainer: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, marginBottom: 20, minHeight: 200 },
+  row: { flexDirection: "row", borderBottomWidth: 1, borderBottomColor: "#fff" },
+  cjRow: { backgroundColor: "rgba(255, 165, 0, 0.3)" },
+  headerRow: { backgroundColor: "rgba(255, 255, 255, 0.2)" },
+  zjRow: { backgroundColor: "rgba(0, 255, 0, 0.1)" },
+  cjZjRow: { backgroundColor: "rgba(255, 0, 0, 0.1)" },
+  cell: { padding: 10, justifyContent: "center", alignItems: "center", borderRightWidth: 1, borderRightColor: "#fff" },
+  headerCell: { backgroundColor: "rgba(255, 255, 255, 0.3)" },
+  headerText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  cellText: { color: "#fff", fontSize: 14 },
+  labelText: { color: "#ccc", fontSize: 10, textAlign: "center" },
+  negativeValue: { color: "#ff6666", fontWeight: "bold" },
+  positiveValue: { color: "#66ff66", fontWeight: "bold" },
+});
@@ -0,0 +1,56 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import {
+  arithmeticOf,
+  basicSolution,
+  formatValue,
+  isArtificialColumn,
+  originalObjectiveValue,
+  originalValues,
+  Tableau,
+  VariableSubstitution,
+} from "@/lib/simplex";
+
+type SolutionSummaryProps<T> = {
+  // an optimal tableau over the substituted, nonnegative columns
+  tableau: Tableau<T>;
+  // the user's objective, so Z is reported without the shift from bound substitution
+  objective: readonly number[];
+  substitution: readonly VariableSubstitution[];
+  // named constraints' slack and surplus columns are reported under their labels
+  columnLabels?: Readonly<Record<string, string>>;
+};
+
+// Optimal values of the variables as the user entered them, undoing any bound substitution
+export default function SolutionSummary<T>({ tableau, objective, substitution, columnLabels = {} }: SolutionSummaryProps<T>) {
+  const ar = arithmeticOf(tableau);
+  const solution = basicSolution(tableau);
+  const values = originalValues(ar, substitution, solution);
+  const slacks = Object.entries(columnLabels).filter(([name]) => !isArtificialColumn(name) && name in solution);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Optimal Solution</Text>
+      {Object.entries(values).map(([name, value]) => (
+        <Text key={name} style={styles.text}>
+          {name} = {formatValue(tableau, value)}
+        </Text>
+      ))}
+      <Text style={[styles.text, styles.objective]}>
+        Z = {formatValue(tableau, originalObjectiveValue(ar, objective, substitution, values))}
+      </Text>
+      {slacks.map(([name, label]) => (
+        <Text key={name} style={styles.text}>
+          {label}: {name.startsWith("s") ? "slack" : "surplus"} {name} = {formatValue(tableau, solution[name])}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  text: { color: "#fff", fontSize: 16, marginBottom: 8 },
+  objective: { fontWeight: "bold" },
+});
@@ -0,0 +1,128 @@
+import React from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { decimalToFraction, destinationLabel, ModiStep, sourceLabel, TransportationPlan } from "@/lib/simplex";
+
+type TransportationGridProps = {
+  plan: TransportationPlan;
+  // potentials, reduced costs and the loop of the MODI step taken from this plan
+  step?: ModiStep | null;
+};
+
+const CELL_WIDTH = 80;
+
+// Cost grid with the allocation of every basic cell, supply and demand on the edges, and u/v in the margins
+export default function TransportationGrid({ plan, step }: TransportationGridProps) {
+  const { costs, supply, demand } = plan.problem;
+  const loopSign = (row: number, col: number) => step?.loop.find((cell) => cell.row === row && cell.col === col)?.sign;
+
+  return (
+    <View style={styles.tableContainer}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={true}>
+        <View>
+          {/* Header Row */}
+          <View style={[styles.row, styles.headerRow]}>
+            <View style={[styles.cell, styles.headerCell]}>
+              <Text style={styles.headerText}>From \ To</Text>
+            </View>
+            {demand.map((_, j) => (
+              <View key={j} style={[styles.cell, styles.headerCell]}>
+                <Text style={styles.headerText}>{destinationLabel(plan, j)}</Text>
+              </View>
+            ))}
+            <View style={[styles.cell, styles.headerCell]}>
+              <Text style={styles.headerText}>Supply</Text>
+            </View>
+            {step && (
+              <View style={[styles.cell, styles.headerCell]}>
+                <Text style={styles.headerText}>uᵢ</Text>
+              </View>
+            )}
+          </View>
+
+          {costs.map((row, i) => (
+            <View key={i} style={styles.row}>
+              <View style={[styles.cell, styles.headerCell]}>
+                <Text style={styles.headerText}>{sourceLabel(plan, i)}</Text>
+              </View>
+              {row.map((cost, j) => {
+                const sign = loopSign(i, j);
+                const reduced = step?.reduced[i][j];
+                return (
+                  <View
+                    key={j}
+                    style={[
+                      styles.cell,
+                      plan.basic[i][j] && styles.basicCell,
+                      sign !== undefined && (sign > 0 ? styles.plusCell : styles.minusCell),
+                    ]}
+                  >
+                    <Text style={styles.costText}>
+                      {decimalToFraction(cost)}
+                      {sign !== undefined ? (sign > 0 ? "  (+)" : "  (−)") : ""}
+                    </Text>
+                    {plan.basic[i][j] ? (
+                      <Text style={styles.allocationText}>{decimalToFraction(plan.allocation[i][j])}</Text>
+                    ) : reduced !== undefined && reduced !== null ? (
+                      <Text style={[styles.reducedText, reduced < 0 && styles.negativeValue]}>
+                        {decimalToFraction(reduced)}
+                      </Text>
+                    ) : null}
+                  </View>
+                );
+              })}
+              <View style={styles.cell}>
+                <Text style={styles.cellText}>{decimalToFraction(supply[i])}</Text>
+              </View>
+              {step && (
+                <View style={styles.cell}>
+                  <Text style={styles.cellText}>{decimalToFraction(step.u[i])}</Text>
+                </View>
+              )}
+            </View>
+          ))}
+
+          {/* Demand and the column potentials */}
+          <View style={styles.row}>
+            <View style={[styles.cell, styles.headerCell]}>
+              <Text style={styles.headerText}>Demand</Text>
+            </View>
+            {demand.map((value, j) => (
+              <View key={j} style={styles.cell}>
+                <Text style={styles.cellText}>{decimalToFraction(value)}</Text>
+              </View>
+            ))}
+          </View>
+          {step && (
+            <View style={styles.row}>
+              <View style={[styles.cell, styles.headerCell]}>
+                <Text style={styles.headerText}>vⱼ</Text>
+              </View>
+              {step.v.map((value, j) => (
+                <View key={j} style={styles.cell}>
+                  <Text style={styles.cellText}>{decimalToFraction(value)}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tableContainer: { borderWidth: 1, borderColor: "#fff", borderRadius: 8, marginBottom: 20 },
+  row: { flexDirection: "row", borderBottomWidth: 1, borderBottomColor: "#fff" },
+  headerRow: { backgroundColor: "rgba(255, 255, 255, 0.2)" },
+  cell: { width: CELL_WIDTH, padding: 8, justifyContent: "center", alignItems: "center", borderRightWidth: 1, borderRightColor: "#fff" },
+  headerCell: { backgroundColor: "rgba(255, 255, 255, 0.3)" },
+  basicCell: { backgroundColor: "rgba(76, 175, 80, 0.35)" },
+  plusCell: { borderWidth: 2, borderColor: "#FFD54F" },
+  minusCell: { borderWidth: 2, borderColor: "#ff6666" },
+  headerText: { color: "#fff", fontWeight: "bold", fontSize: 14 },
+  cellText: { color: "#fff", fontSize: 14 },
+  costText: { color: "#ddd", fontSize: 12, alignSelf: "flex-end" },
+  allocationText: { color: "#fff", fontSize: 16, fontWeight: "bold" },
+  reducedText: { color: "#ccc", fontSize: 13, fontStyle: "italic" },
+  negativeValue: { color: "#ff6666", fontWeight: "bold" },
+});
@@ -0,0 +1,56 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { arithmeticOf, formatValue, Tableau, UnboundedRay } from "@/lib/simplex";
+
+type UnboundedRayCardProps<T> = {
+  tableau: Tableau<T>;
+  ray: UnboundedRay<T>;
+};
+
+// "4 + 2t", "3 - t", "5"
+const formatAffine = <T,>(tableau: Tableau<T>, start: T, slope: T): string => {
+  const ar = arithmeticOf(tableau);
+  const sign = ar.sign(slope);
+  if (sign === 0) return formatValue(tableau, start);
+  const magnitude = sign < 0 ? ar.neg(slope) : slope;
+  const coefficient = ar.sign(ar.sub(magnitude, ar.one)) === 0 ? "" : formatValue(tableau, magnitude);
+  return `${formatValue(tableau, start)} ${sign < 0 ? "-" : "+"} ${coefficient}t`;
+};
+
+// The ray x(t) = x₀ + t·d behind an "unbounded" verdict, read off the entering column
+export default function UnboundedRayCard<T>({ tableau, ray }: UnboundedRayCardProps<T>) {
+  const basic = tableau.basis.filter((name) => !(name in ray.origin));
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.heading}>Unbounded Direction</Text>
+      <Text style={styles.note}>
+        Every entry of column {ray.entering} is ≤ 0, so raising {ray.entering} by t never drives a basic variable to zero.
+        The points x(t) = x₀ + t·d stay feasible for every t ≥ 0:
+      </Text>
+      {Object.keys(ray.origin).map((name) => (
+        <Text key={name} style={styles.text}>
+          {name}(t) = {formatAffine(tableau, ray.origin[name], ray.direction[name])}
+        </Text>
+      ))}
+      {basic.map((name) => (
+        <Text key={name} style={styles.detailText}>
+          {name}(t) = {formatAffine(tableau, ray.columnOrigin[name], ray.columnDirection[name])}
+        </Text>
+      ))}
+      <Text style={styles.text}>Z(t) = {formatAffine(tableau, ray.objective, ray.rate)}</Text>
+      <Text style={styles.note}>
+        Z changes by {formatValue(tableau, ray.rate)} per unit of t without limit. If the real problem is bounded, a
+        constraint that stops this direction is missing.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { backgroundColor: "rgba(255, 255, 255, 0.1)", padding: 15, borderRadius: 8, marginBottom: 20 },
+  heading: { color: "#fff", fontSize: 18, fontWeight: "bold", marginBottom: 10, textAlign: "center" },
+  text: { color: "#fff", fontSize: 16, marginBottom: 6 },
+  detailText: { color: "#ccc", fontSize: 14, marginBottom: 4 },
+  note: { color: "#fff", fontSize: 14, marginBottom: 8, fontStyle: "italic" },
+});
@@ -0,0 +1,44 @@
+import {
+  alternativeColumns,
+  createInitialSimplexTable,
+  enumerateOptimalFace,
+  exactArithmetic,
+  formatConvexCombination,
+  LPModel,
+  pivotToAlternativeOptimum,
+  solve,
+} from "@/lib/simplex";
+
+// max 2x1 + 2x2, x1 + x2 ≤ 4, x1 ≤ 3: every point between (3, 1) and (0, 4) is optimal
+const model: LPModel = {
+  objective: [2, 2],
+  constraintsMatrix: [
+    [1, 1],
+    [1, 0],
+  ],
+  rhs: [4, 3],
+  constraintTypes: ["≤", "≤"],
+  optType: "Maximize",
+};
+
+describe("alternative optima", () => {
+  const optimal = solve(createInitialSimplexTable(model, exactArithmetic)).tableau;
+
+  it("finds a nonbasic column with zero Cj - Zj", () => {
+    expect(alternativeColumns(optimal).length).toBeGreaterThan(0);
+    expect(pivotToAlternativeOptimum(optimal)).not.toBeNull();
+  });
+
+  it("describes the optimal edge as a convex combination of its vertices", () => {
+    const face = enumerateOptimalFace(optimal);
+    expect(face.rays).toEqual([]);
+    expect(face.vertices.map(({ x1, x2 }) => `${x1.toFraction()},${x2.toFraction()}`).sort()).toEqual(["0,4", "3,1"]);
+    expect(formatConvexCombination(optimal, face)).toMatch(/^\(x1, x2\) = λ1\(\d, \d\) \+ λ2\(\d, \d\), where λ1 \+ λ2 = 1/);
+  });
+
+  it("reports no alternative for a unique optimum", () => {
+    const unique = solve(createInitialSimplexTable({ ...model, objective: [2, 1] }, exactArithmetic)).tableau;
+    expect(pivotToAlternativeOptimum(unique)).toBeNull();
+    expect(enumerateOptimalFace(unique).vertices).toHaveLength(1);
+  });
+});
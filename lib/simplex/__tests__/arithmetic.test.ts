@@ -0,0 +1,50 @@
+import { Fraction } from "fraction.js";
+import {
+  basicSolution,
+  bigMFloatArithmetic,
+  compare,
+  createInitialSimplexTable,
+  exactArithmetic,
+  floatArithmetic,
+  LPModel,
+  objectiveValue,
+  solve,
+  SolveStatus,
+} from "@/lib/simplex";
+
+describe("exact arithmetic", () => {
+  // max x1 + x2, 3x1 + x2 ≤ 1, x1 + 3x2 ≤ 1: optimum x = (1/4, 1/4), Z = 1/2
+  const model: LPModel = {
+    objective: [1, 1],
+    constraintsMatrix: [
+      [3, 1],
+      [1, 3],
+    ],
+    rhs: [1, 1],
+    constraintTypes: ["≤", "≤"],
+    optType: "Maximize",
+  };
+
+  it("keeps every tableau entry an exact rational", () => {
+    const result = solve(createInitialSimplexTable(model, exactArithmetic));
+    expect(result.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(result.tableau).toFraction()).toBe("1/2");
+    expect(basicSolution(result.tableau).x1.equals(new Fraction(1, 4))).toBe(true);
+    expect(result.tableau.rows.flat().every((value) => value instanceof Fraction)).toBe(true);
+  });
+
+  it("agrees with float arithmetic", () => {
+    const exact = solve(createInitialSimplexTable(model, exactArithmetic));
+    const float = solve(createInitialSimplexTable(model, floatArithmetic));
+    expect(objectiveValue(float.tableau)).toBeCloseTo(objectiveValue(exact.tableau).valueOf());
+  });
+});
+
+describe("Big-M arithmetic", () => {
+  it("lets any multiple of M outweigh every constant", () => {
+    const ar = bigMFloatArithmetic;
+    expect(compare(ar, { m: 1e-3, c: -1e9 }, ar.fromNumber(1e9))).toBe(1);
+    expect(compare(ar, { m: -1, c: 0 }, ar.fromNumber(-1e9))).toBe(-1);
+    expect(ar.format({ m: -1, c: 3 })).toBe("-M + 3");
+  });
+});
@@ -0,0 +1,53 @@
+import { AssignmentProblem, assignmentResult, createAssignmentTable, solveAssignment } from "@/lib/simplex";
+
+const solveProblem = (problem: AssignmentProblem) => assignmentResult(solveAssignment(createAssignmentTable(problem)).at(-1)!);
+
+// best total over every way to give distinct jobs to the workers, for checking small problems
+const bruteForce = (costs: number[][], better: (a: number, b: number) => boolean): number => {
+  const search = (row: number, used: Set<number>): number | null => {
+    if (row === costs.length) return 0;
+    let best: number | null = null;
+    costs[row].forEach((cost, col) => {
+      if (used.has(col)) return;
+      const rest = search(row + 1, new Set([...used, col]));
+      if (rest !== null && (best === null || better(cost + rest, best))) best = cost + rest;
+    });
+    return best;
+  };
+  return search(0, new Set())!;
+};
+
+describe("Hungarian method", () => {
+  const costs = [
+    [9, 2, 7, 8],
+    [6, 4, 3, 7],
+    [5, 8, 1, 8],
+    [7, 6, 9, 4],
+  ];
+
+  it("finds the minimum cost assignment", () => {
+    const { pairs, total } = solveProblem({ costs, optType: "Minimize" });
+    expect(total).toBe(13);
+    expect(pairs.map(({ row, col }) => [row, col])).toEqual([
+      [0, 1],
+      [1, 0],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it("maximizes profit through the regret matrix", () => {
+    expect(solveProblem({ costs, optType: "Maximize" }).total).toBe(bruteForce(costs, (a, b) => a > b));
+  });
+
+  it("pads a rectangular problem with a dummy and leaves one worker unassigned", () => {
+    // three workers, two jobs: W1 → J2 and W3 → J1 cost 2 + 5
+    const rectangular = costs.slice(0, 3).map((row) => row.slice(0, 2));
+    const { pairs, total } = solveProblem({ costs: rectangular, optType: "Minimize" });
+    expect(pairs.map(({ row, col }) => [row, col])).toEqual([
+      [0, 1],
+      [2, 0],
+    ]);
+    expect(total).toBe(7);
+  });
+});
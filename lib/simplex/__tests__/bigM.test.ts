@@ -0,0 +1,42 @@
+import {
+  basicSolution,
+  createBigMTable,
+  exactArithmetic,
+  floatArithmetic,
+  LPModel,
+  objectiveValue,
+  solve,
+  SolveStatus,
+} from "@/lib/simplex";
+
+// min 2x1 + 3x2, x1 + x2 ≥ 4, x1 + 3x2 ≥ 6, x1 = 3: optimum x = (3, 1), Z = 9
+const model: LPModel = {
+  objective: [2, 3],
+  constraintsMatrix: [
+    [1, 1],
+    [1, 3],
+    [1, 0],
+  ],
+  rhs: [4, 6, 3],
+  constraintTypes: ["≥", "≥", "="],
+  optType: "Minimize",
+};
+
+describe("Big-M method", () => {
+  it("prices artificials at -M and reaches the optimum in one tableau", () => {
+    const initial = createBigMTable(model, floatArithmetic);
+    expect(initial.variables).toEqual(["x1", "x2", "e1", "e2", "a1", "a2", "a3"]);
+    expect(initial.cj.slice(4).map(({ m }) => m)).toEqual([-1, -1, -1]);
+
+    const result = solve(initial);
+    expect(result.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(result.tableau).c).toBeCloseTo(-9);
+    expect(objectiveValue(result.tableau).m).toBeCloseTo(0);
+    expect(basicSolution(result.tableau).x2.c).toBeCloseTo(1);
+  });
+
+  it("is infeasible when an artificial stays positive", () => {
+    const infeasible: LPModel = { ...model, rhs: [4, 6, -1] };
+    expect(solve(createBigMTable(infeasible, exactArithmetic)).status).toBe(SolveStatus.Infeasible);
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  basicSolution,
+  createBigMTable,
+  exactArithmetic,
+  formatSubstitution,
+  LPModel,
+  originalObjectiveValue,
+  originalValues,
+  solve,
+  SolveStatus,
+  substituteBounds,
+} from "@/lib/simplex";
+
+// max x1 - x2, x1 + x2 ≤ 5, -x2 ≤ 2, 1 ≤ x1 ≤ 3, x2 free: optimum x = (3, -2), Z = 5
+const model: LPModel = {
+  objective: [1, -1],
+  constraintsMatrix: [
+    [1, 1],
+    [0, -1],
+  ],
+  rhs: [5, 2],
+  constraintTypes: ["≤", "≤"],
+  optType: "Maximize",
+  bounds: [
+    { lower: 1, upper: 3 },
+    { lower: -Infinity, upper: Infinity },
+  ],
+};
+
+describe("bound substitution", () => {
+  const { model: substituted, substitution } = substituteBounds(model);
+
+  it("shifts bounded variables and splits free ones", () => {
+    expect(substituted.variableNames).toEqual(["x1'", "x2⁺", "x2⁻"]);
+    expect(formatSubstitution(substitution)).toEqual(["x1 = 1 + x1'", "x2 = x2⁺ - x2⁻"]);
+    // the shifted RHS, then the range x1' ≤ 3 - 1 as an extra row
+    expect(substituted.rhs).toEqual([4, 2, 2]);
+    expect(substituted.constraintsMatrix[2]).toEqual([1, 0, 0]);
+  });
+
+  it("maps the optimum back to the original variables", () => {
+    const result = solve(createBigMTable(substituted, exactArithmetic));
+    expect(result.status).toBe(SolveStatus.Optimal);
+    const solution = Object.fromEntries(Object.entries(basicSolution(result.tableau)).map(([name, { c }]) => [name, c]));
+    const values = originalValues(exactArithmetic, substitution, solution);
+    expect(values.x1.toFraction()).toBe("3");
+    expect(values.x2.toFraction()).toBe("-2");
+    expect(originalObjectiveValue(exactArithmetic, model.objective, substitution, values).toFraction()).toBe("5");
+  });
+});
@@ -0,0 +1,76 @@
+import { exactArithmetic, LPModel, optimalityGap, solveBranchAndBound, SolveStatus, startBranchAndBound } from "@/lib/simplex";
+
+// max 5x1 + 4x2, 6x1 + 4x2 ≤ 24, x1 + 2x2 ≤ 6, x integer: the relaxation gives (3, 3/2) and
+// Z = 21, the integer optimum is (4, 0) with Z = 20
+const model: LPModel = {
+  objective: [5, 4],
+  constraintsMatrix: [
+    [6, 4],
+    [1, 2],
+  ],
+  rhs: [24, 6],
+  constraintTypes: ["≤", "≤"],
+  optType: "Maximize",
+  kinds: ["integer", "integer"],
+};
+
+describe("branch and bound", () => {
+  it("branches on the fractional relaxation and proves the integer optimum", () => {
+    const state = solveBranchAndBound(startBranchAndBound(model, exactArithmetic, "dantzig"));
+    expect(state.status).toBe(SolveStatus.Optimal);
+    expect(state.nodes[0].objective).toBeCloseTo(21);
+    expect(state.nodes[0].outcome).toBe("branched");
+
+    const incumbent = state.nodes[state.incumbent!];
+    expect(incumbent.objective).toBeCloseTo(20);
+    expect(optimalityGap(state)).toBe(0);
+  });
+
+  it("restricts binary variables to 0 or 1", () => {
+    // max 3x1 + 2x2 + 4x3, 2x1 + x2 + 3x3 ≤ 4, x binary: take x1 and x2 for Z = 5, or x2 and x3 for Z = 6
+    const knapsack: LPModel = {
+      objective: [3, 2, 4],
+      constraintsMatrix: [[2, 1, 3]],
+      rhs: [4],
+      constraintTypes: ["≤"],
+      optType: "Maximize",
+      kinds: ["binary", "binary", "binary"],
+    };
+    const state = solveBranchAndBound(startBranchAndBound(knapsack, exactArithmetic, "bland"));
+    expect(state.nodes[state.incumbent!].objective).toBeCloseTo(6);
+  });
+
+  it("reports an infeasible integer program", () => {
+    // 2x1 = 1 has no integer solution
+    const odd: LPModel = {
+      ...model,
+      constraintsMatrix: [
+        [2, 0],
+        [0, 1],
+      ],
+      rhs: [1, 3],
+      constraintTypes: ["=", "≤"],
+    };
+    expect(solveBranchAndBound(startBranchAndBound(odd, exactArithmetic, "dantzig")).status).toBe(SolveStatus.Infeasible);
+  });
+
+  it("doesn't claim optimality past a relaxation that stopped short", () => {
+    // Chvátal's cycling example: Dantzig's rule never finishes the root relaxation
+    const cycling: LPModel = {
+      objective: [10, -57, -9, -24],
+      constraintsMatrix: [
+        [0.5, -5.5, -2.5, 9],
+        [0.5, -1.5, -0.5, 1],
+        [1, 0, 0, 0],
+      ],
+      rhs: [0, 0, 1],
+      constraintTypes: ["≤", "≤", "≤"],
+      optType: "Maximize",
+      kinds: ["integer", "integer", "integer", "integer"],
+    };
+    const state = solveBranchAndBound(startBranchAndBound(cycling, exactArithmetic, "dantzig"));
+    expect(state.nodes[0].outcome).toBe("error");
+    expect(state.stopped).toEqual({ node: 0, status: SolveStatus.Cycling });
+    expect(state.status).toBe(SolveStatus.Cycling);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  basicSolution,
+  createInitialPhase1Table,
+  createPhase2Table,
+  driveOutArtificials,
+  exactArithmetic,
+  isArtificialColumn,
+  LPModel,
+  objectiveValue,
+  solve,
+  SolveStatus,
+} from "@/lib/simplex";
+
+// max x1 + 2x2, x1 + x2 = 2, 2x1 + 2x2 = 4, x1 - x2 ≥ -2: the second row repeats the first
+const model: LPModel = {
+  objective: [1, 2],
+  constraintsMatrix: [
+    [1, 1],
+    [2, 2],
+    [1, -1],
+  ],
+  rhs: [2, 4, -2],
+  constraintTypes: ["=", "=", "≥"],
+  optType: "Maximize",
+};
+
+describe("driving out artificials", () => {
+  const phase1 = solve(createInitialPhase1Table(model, exactArithmetic)).tableau;
+
+  it("pivots zero-level artificials out and drops the redundant row", () => {
+    const { tableau, redundantRows } = driveOutArtificials(phase1);
+    expect(redundantRows).toEqual([1]);
+    expect(tableau.rows).toHaveLength(2);
+    expect(tableau.basis.some(isArtificialColumn)).toBe(false);
+  });
+
+  it("starts Phase 2 from the remaining rows", () => {
+    const phase2 = solve(createPhase2Table(phase1, model.objective, model.optType));
+    expect(phase2.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(phase2.tableau).toFraction()).toBe("4");
+    expect(basicSolution(phase2.tableau).x2.toFraction()).toBe("2");
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  basicSolution,
+  createBigMTable,
+  createDualSimplexTable,
+  dualSolution,
+  exactArithmetic,
+  lessOrEqualDualSolution,
+  LPModel,
+  MAX_ITERATIONS,
+  nextDualIteration,
+  objectiveValue,
+  solve,
+  SolveStatus,
+  toLessOrEqualForm,
+} from "@/lib/simplex";
+
+// min 2x1 + 3x2, x1 + 3x2 ≥ 6, x1 + x2 = 4: optimum x = (3, 1), Z = 9, y = (1/2, 3/2)
+const model: LPModel = {
+  objective: [2, 3],
+  constraintsMatrix: [
+    [1, 3],
+    [1, 1],
+  ],
+  rhs: [6, 4],
+  constraintTypes: ["≥", "="],
+  optType: "Minimize",
+  constraintNames: ["demand", "capacity"],
+};
+
+describe("≤ form", () => {
+  it("negates ≥ rows and splits = rows, keeping their labels", () => {
+    const form = toLessOrEqualForm(model);
+    expect(form.constraintsMatrix).toEqual([
+      [-1, -3],
+      [1, 1],
+      [-1, -1],
+    ]);
+    expect(form.rhs).toEqual([-6, 4, -4]);
+    expect(form.constraintNames).toEqual(["demand", "capacity (≤)", "capacity (≥)"]);
+  });
+});
+
+describe("dual simplex", () => {
+  it("repairs negative right-hand sides while staying dual feasible", () => {
+    const result = solve(createDualSimplexTable(model, exactArithmetic), MAX_ITERATIONS, nextDualIteration);
+    expect(result.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(result.tableau).toFraction()).toBe("-9");
+    expect(basicSolution(result.tableau).x1.toFraction()).toBe("3");
+  });
+
+  it("maps shadow prices back to the original rows", () => {
+    const { tableau } = solve(createDualSimplexTable(model, exactArithmetic), MAX_ITERATIONS, nextDualIteration);
+    const dual = lessOrEqualDualSolution(tableau, model);
+    expect(dual.prices.map(({ value }) => value.toFraction())).toEqual(["1/2", "3/2"]);
+    expect(dual.prices[1].constraint).toBe("capacity: x1 + x2 = 4");
+    expect(dual.strongDuality).toBe(true);
+
+    // the same prices the Big-M tableau gives for the untouched rows
+    const bigM = solve(createBigMTable(model, exactArithmetic)).tableau;
+    expect(dualSolution(bigM, model).prices.map(({ value }) => value.c.toFraction())).toEqual(["1/2", "3/2"]);
+  });
+
+  it("refuses to pivot while Cj - Zj violates optimality", () => {
+    const start = createDualSimplexTable({ ...model, optType: "Maximize" }, exactArithmetic);
+    const step = nextDualIteration(start);
+    expect(step.status).toBe(SolveStatus.NotDualFeasible);
+    expect(step.tableau).toBe(start);
+  });
+});
@@ -0,0 +1,58 @@
+import { complementarySlackness, exactArithmetic, formatEquations, formulateDual, LPModel, solveModel, SolveStatus } from "@/lib/simplex";
+
+// max 3x1 + 5x2, x1 ≤ 4, 2x2 ≤ 12, 3x1 + 2x2 ≤ 18
+const primal: LPModel = {
+  objective: [3, 5],
+  constraintsMatrix: [
+    [1, 0],
+    [0, 2],
+    [3, 2],
+  ],
+  rhs: [4, 12, 18],
+  constraintTypes: ["≤", "≤", "≤"],
+  optType: "Maximize",
+};
+
+describe("dual problem", () => {
+  it("transposes a maximization into a minimization with one variable per row", () => {
+    const { dual } = formulateDual(primal);
+    expect(formatEquations(dual)).toEqual([
+      "Minimize Z = 4y1 + 12y2 + 18y3",
+      "y1 + 3y3 ≥ 3",
+      "2y2 + 2y3 ≥ 5",
+      "y1 ≥ 0",
+      "y2 ≥ 0",
+      "y3 ≥ 0",
+    ]);
+  });
+
+  it("makes = rows free dual variables and bounds constraint rows", () => {
+    const { primal: withRows, dual } = formulateDual({
+      ...primal,
+      constraintTypes: ["≤", "=", "≥"],
+      bounds: [
+        { lower: 0, upper: 2 },
+        { lower: -Infinity, upper: Infinity },
+      ],
+    });
+    // x1 ≤ 2 becomes a fourth row and x2 is free, so its dual constraint is an equation
+    expect(withRows.rhs).toEqual([4, 12, 18, 2]);
+    expect(dual.constraintTypes).toEqual(["≥", "="]);
+    expect(dual.bounds?.map(({ lower, upper }) => [lower, upper])).toEqual([
+      [0, Infinity],
+      [-Infinity, Infinity],
+      [-Infinity, 0],
+      [0, Infinity],
+    ]);
+  });
+
+  it("solves both problems to the same objective with complementary slackness", () => {
+    const formulation = formulateDual(primal);
+    const x = solveModel(formulation.primal, exactArithmetic, "dantzig");
+    const y = solveModel(formulation.dual, exactArithmetic, "dantzig");
+    expect(x.status).toBe(SolveStatus.Optimal);
+    expect(y.objective).toBe(x.objective);
+    expect(y.values).toEqual([0, 1.5, 1]);
+    expect(complementarySlackness(formulation, x.values!, y.values!).every(({ holds }) => holds)).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  createInitialPhase1Table,
+  createInitialSimplexTable,
+  createPhase2Table,
+  dualSolution,
+  exactArithmetic,
+  LPModel,
+  solve,
+} from "@/lib/simplex";
+
+describe("shadow prices", () => {
+  it("reads the dual solution off the slack columns' Zj", () => {
+    // max 3x1 + 5x2, x1 ≤ 4, 2x2 ≤ 12, 3x1 + 2x2 ≤ 18: y = (0, 3/2, 1) and Σ bᵢyᵢ = 36 = Z
+    const model: LPModel = {
+      objective: [3, 5],
+      constraintsMatrix: [
+        [1, 0],
+        [0, 2],
+        [3, 2],
+      ],
+      rhs: [4, 12, 18],
+      constraintTypes: ["≤", "≤", "≤"],
+      optType: "Maximize",
+    };
+    const dual = dualSolution(solve(createInitialSimplexTable(model, exactArithmetic)).tableau, model);
+    expect(dual.prices.map(({ value }) => value.toFraction())).toEqual(["0", "3/2", "1"]);
+    expect(dual.prices.map(({ column }) => column)).toEqual(["s1", "s2", "s3"]);
+    expect(dual.dualObjective.toFraction()).toBe("36");
+    expect(dual.strongDuality).toBe(true);
+  });
+
+  it("recovers the price of an = row whose artificial column was dropped", () => {
+    // min 2x1 + 3x2, x1 + 3x2 ≥ 6, x1 + x2 = 4: y = (1/2, 3/2) and Σ bᵢyᵢ = 9 = Z
+    const model: LPModel = {
+      objective: [2, 3],
+      constraintsMatrix: [
+        [1, 3],
+        [1, 1],
+      ],
+      rhs: [6, 4],
+      constraintTypes: ["≥", "="],
+      optType: "Minimize",
+    };
+    const phase1 = solve(createInitialPhase1Table(model, exactArithmetic)).tableau;
+    const { tableau } = solve(createPhase2Table(phase1, model.objective, model.optType));
+    const dual = dualSolution(tableau, model);
+    expect(dual.prices.map(({ value }) => value.toFraction())).toEqual(["1/2", "3/2"]);
+    expect(dual.prices.map(({ column }) => column)).toEqual(["e1", null]);
+    expect(dual.primalObjective.toFraction()).toBe("9");
+    expect(dual.strongDuality).toBe(true);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  arithmeticFor,
+  arithmeticOf,
+  createBigMTable,
+  createInitialSimplexTable,
+  evaluateExpression,
+  exactCellValues,
+  fractionFromNumber,
+  LPModel,
+} from "@/lib/simplex";
+
+const evaluate = (text: string) => {
+  const result = evaluateExpression(text);
+  if (!result.ok) throw new Error(result.message);
+  return result.value;
+};
+
+const value = (text: string): string => evaluate(text).toFraction();
+
+describe("coefficient cells", () => {
+  it("evaluates fractions, mixed numbers and arithmetic exactly", () => {
+    expect(value("3/4")).toBe("3/4");
+    expect(value("1 1/2")).toBe("3/2");
+    expect(value("-(2*3 - 1)/4")).toBe("-5/4");
+    expect(value("0.1 + 0.2")).toBe("3/10");
+    expect(value("  ")).toBe("0");
+  });
+
+  it("reports where a cell goes wrong", () => {
+    expect(evaluateExpression("2 / (1 - 1)")).toMatchObject({ ok: false, message: "Division by zero.", column: 3 });
+    expect(evaluateExpression("1.2.3")).toMatchObject({ ok: false, column: 4 });
+    expect(evaluateExpression("3x")).toMatchObject({ ok: false, column: 2 });
+  });
+
+  it.each([
+    [1 / 3, "1/3"],
+    [-2 / 7, "-2/7"],
+    [123456.789, "123456789/1000"],
+    [0.1, "1/10"],
+    [5, "5"],
+  ])("reads %p back as %s", (float, fraction) => {
+    expect(fractionFromNumber(float).toFraction()).toBe(fraction);
+  });
+
+  it("carries cells the float can't be read back as into the tableau", () => {
+    const cell = "1/3 + 1/10000000000000000";
+    const cells = [cell, `-(${cell})`, "1", "2/7"];
+    const exactValues = exactCellValues(cells);
+    expect(Object.values(exactValues)).toEqual(["10000000000000003/30000000000000000"]);
+
+    const model: LPModel = {
+      objective: [1, 1],
+      constraintsMatrix: [[evaluate(cell).valueOf(), 1]],
+      rhs: [2 / 7],
+      constraintTypes: ["≤"],
+      optType: "Maximize",
+      exactValues,
+    };
+    const tableau = createInitialSimplexTable(model, arithmeticFor("exact", exactValues));
+    const ar = arithmeticOf(tableau);
+    expect(ar.format(tableau.rows[0][0])).toBe("10000000000000003/30000000000000000");
+    expect(ar.format(tableau.rows[0][tableau.variables.length])).toBe("2/7");
+    expect(ar.format(ar.fromNumber(evaluate(`-(${cell})`).valueOf()))).toBe("-10000000000000003/30000000000000000");
+  });
+
+  it("carries them into a Big-M tableau as well", () => {
+    const cell = "1/3 + 1/10000000000000000";
+    const exactValues = exactCellValues([cell]);
+    const model: LPModel = {
+      objective: [1, 1],
+      constraintsMatrix: [[evaluate(cell).valueOf(), 1]],
+      rhs: [2],
+      constraintTypes: ["≥"],
+      optType: "Minimize",
+      exactValues,
+    };
+    const tableau = createBigMTable(model, arithmeticFor("exact", exactValues));
+    expect(tableau.exactValues).toEqual(exactValues);
+    const ar = arithmeticOf(tableau);
+    expect(ar.format(tableau.rows[0][0])).toBe("10000000000000003/30000000000000000");
+    expect(ar.format(ar.fromNumber(evaluate(cell).valueOf()))).toBe("10000000000000003/30000000000000000");
+  });
+
+  it("leaves a float to the guess when two cells share it", () => {
+    expect(exactCellValues(["1/3", "1/3 + 1/100000000000000000000"])).toEqual({});
+  });
+});
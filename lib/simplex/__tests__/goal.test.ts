@@ -0,0 +1,63 @@
+import {
+  createGoalTable,
+  exactArithmetic,
+  GoalProgram,
+  goalOutcomes,
+  goalSolution,
+  levelAchievements,
+  LPModel,
+  solveGoalProgram,
+  SolveStatus,
+} from "@/lib/simplex";
+
+// x1 + x2 ≤ 10 hard; goals x1 ≥ 6 and x2 ≥ 6 can't both be met
+const program: GoalProgram = {
+  model: {
+    objective: [0, 0],
+    constraintsMatrix: [[1, 1]],
+    rhs: [10],
+    constraintTypes: ["≤"],
+    optType: "Minimize",
+  },
+  goals: [
+    { coefficients: [1, 0], type: "≥", target: 6, priority: 1, weight: 1 },
+    { coefficients: [0, 1], type: "≥", target: 6, priority: 2, weight: 3 },
+  ],
+  mode: "preemptive",
+};
+
+const solveProgram = (p: GoalProgram) => solveGoalProgram(createGoalTable(p, exactArithmetic, "dantzig"));
+
+describe("goal programming", () => {
+  it("meets the higher priority first", () => {
+    const result = solveProgram(program);
+    expect(result.status).toBe(SolveStatus.Optimal);
+    const { x1, x2 } = goalSolution(result.goal);
+    expect([x1.toFraction(), x2.toFraction()]).toEqual(["6", "4"]);
+    expect(levelAchievements(result.goal).map(({ label, achieved }) => [label, achieved])).toEqual([
+      ["P1", true],
+      ["P2", false],
+    ]);
+    expect(goalOutcomes(result.goal, program).map(({ under }) => under.toFraction())).toEqual(["0", "2"]);
+  });
+
+  it("trades the goals off by weight", () => {
+    const result = solveProgram({ ...program, mode: "weighted" });
+    const { x1, x2 } = goalSolution(result.goal);
+    expect([x1.toFraction(), x2.toFraction()]).toEqual(["4", "6"]);
+    expect(levelAchievements(result.goal).map(({ value }) => value.toFraction())).toEqual(["2"]);
+  });
+
+  it("reports infeasible hard constraints", () => {
+    const model: LPModel = {
+      ...program.model,
+      constraintsMatrix: [
+        [1, 1],
+        [1, 1],
+      ],
+      rhs: [10, 12],
+      constraintTypes: ["≤", "≥"],
+    };
+    expect(solveProgram({ ...program, model }).status).toBe(SolveStatus.Infeasible);
+  });
+});
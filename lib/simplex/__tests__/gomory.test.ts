@@ -0,0 +1,60 @@
+import {
+  addGomoryCut,
+  basicSolution,
+  createInitialSimplexTable,
+  exactArithmetic,
+  fractionalCutsApply,
+  gomorySourceRow,
+  LPModel,
+  objectiveValue,
+  solve,
+  solveBranchAndBound,
+  SolveStatus,
+  startBranchAndBound,
+} from "@/lib/simplex";
+
+// max 5x1 + 4x2, 6x1 + 4x2 ≤ 24, x1 + 2x2 ≤ 6, x integer: the integer optimum is (4, 0) with Z = 20
+const model: LPModel = {
+  objective: [5, 4],
+  constraintsMatrix: [
+    [6, 4],
+    [1, 2],
+  ],
+  rhs: [24, 6],
+  constraintTypes: ["≤", "≤"],
+  optType: "Maximize",
+  kinds: ["integer", "integer"],
+};
+
+describe("Gomory fractional cuts", () => {
+  it("cuts off the fractional optimum and re-optimizes with the dual simplex", () => {
+    let tableau = solve(createInitialSimplexTable(model, exactArithmetic)).tableau;
+    expect(objectiveValue(tableau).toFraction()).toBe("21");
+
+    const first = addGomoryCut(tableau);
+    expect(first.tableau.basis.at(-1)).toBe("g1");
+    expect(first.description).toMatch(/≥ 1\/2$/);
+
+    for (let cuts = 0; gomorySourceRow(tableau) !== -1 && cuts < 10; cuts++) {
+      const { result } = addGomoryCut(tableau);
+      expect(result.status).toBe(SolveStatus.Optimal);
+      tableau = result.tableau;
+    }
+    expect(gomorySourceRow(tableau)).toBe(-1);
+    expect(objectiveValue(tableau).toFraction()).toBe("20");
+    expect(basicSolution(tableau).x1.toFraction()).toBe("4");
+  });
+
+  it("only applies to integer data, whose slacks are integer too", () => {
+    expect(fractionalCutsApply(model)).toBe(true);
+    // max x1 + x2, x1 + x2 ≤ 2.5: a cut from the fractional slack would read 0 ≥ 1/2, yet Z = 2 is attainable
+    const fractionalRhs: LPModel = { ...model, objective: [1, 1], constraintsMatrix: [[1, 1]], rhs: [2.5], constraintTypes: ["≤"] };
+    expect(fractionalCutsApply(fractionalRhs)).toBe(false);
+    const state = solveBranchAndBound(startBranchAndBound(fractionalRhs, exactArithmetic, "dantzig"));
+    expect(state.status).toBe(SolveStatus.Optimal);
+    expect(state.nodes[state.incumbent!].objective).toBeCloseTo(2);
+
+    expect(fractionalCutsApply({ ...model, bounds: [{ lower: 0.5, upper: Infinity }, { lower: 0, upper: Infinity }] })).toBe(false);
+    expect(fractionalCutsApply({ ...model, kinds: ["integer", "continuous"] })).toBe(false);
+  });
+});
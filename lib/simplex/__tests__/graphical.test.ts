@@ -0,0 +1,49 @@
+import { LPModel, solveGraphically } from "@/lib/simplex";
+
+// max 3x1 + 5x2, x1 ≤ 4, 2x2 ≤ 12, 3x1 + 2x2 ≤ 18: corners (0, 0), (4, 0), (4, 3), (2, 6), (0, 6)
+const model: LPModel = {
+  objective: [3, 5],
+  constraintsMatrix: [
+    [1, 0],
+    [0, 2],
+    [3, 2],
+  ],
+  rhs: [4, 12, 18],
+  constraintTypes: ["≤", "≤", "≤"],
+  optType: "Maximize",
+};
+
+// rounded so that float noise and -0 compare equal
+const round = (v: number) => Math.round(v * 1e6) / 1e6 + 0;
+const sorted = (points: { x: number; y: number }[]) =>
+  points.map(({ x, y }) => [round(x), round(y)]).sort(([a, b], [c, d]) => a - c || b - d);
+
+describe("graphical method", () => {
+  it("finds every corner of the feasible region and marks the optimum", () => {
+    const solution = solveGraphically(model);
+    expect(solution.status).toBe("optimal");
+    expect(sorted(solution.corners)).toEqual([
+      [0, 0],
+      [0, 6],
+      [2, 6],
+      [4, 0],
+      [4, 3],
+    ]);
+    expect(solution.corners.filter(({ optimal }) => optimal).map(({ x, y, z }) => [x, y, z])).toEqual([[2, 6, 36]]);
+  });
+
+  it("tells unbounded and infeasible regions apart", () => {
+    expect(solveGraphically({ ...model, constraintsMatrix: [[1, -1]], rhs: [4], constraintTypes: ["≤"] }).status).toBe("unbounded");
+    expect(
+      solveGraphically({
+        ...model,
+        constraintsMatrix: [
+          [1, 1],
+          [1, 1],
+        ],
+        rhs: [2, 4],
+        constraintTypes: ["≤", "≥"],
+      }).status
+    ).toBe("infeasible");
+  });
+});
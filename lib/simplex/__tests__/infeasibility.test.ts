@@ -0,0 +1,41 @@
+import {
+  createInitialPhase1Table,
+  exactArithmetic,
+  farkasCertificate,
+  irreducibleInfeasibleSubset,
+  LPModel,
+  solve,
+  SolveStatus,
+} from "@/lib/simplex";
+
+// x1 + x2 ≤ 2 and x1 ≥ 3 conflict; x2 ≤ 10 plays no part
+const model: LPModel = {
+  objective: [1, 1],
+  constraintsMatrix: [
+    [1, 1],
+    [1, 0],
+    [0, 1],
+  ],
+  rhs: [2, 3, 10],
+  constraintTypes: ["≤", "≥", "≤"],
+  optType: "Maximize",
+};
+
+describe("infeasibility diagnosis", () => {
+  it("reads a Farkas certificate off the final Phase 1 tableau", () => {
+    const phase1 = solve(createInitialPhase1Table(model, exactArithmetic));
+    expect(phase1.status).toBe(SolveStatus.Infeasible);
+
+    const certificate = farkasCertificate(phase1.tableau, model);
+    expect(certificate.multipliers.map(({ row, multiplier }) => [row, multiplier.toFraction()])).toEqual([
+      [0, "1"],
+      [1, "-1"],
+    ]);
+    expect(certificate.combination).toBe("x2 ≤ -1");
+  });
+
+  it("finds the irreducible infeasible subset", () => {
+    expect(irreducibleInfeasibleSubset(model, exactArithmetic)).toEqual([0, 1]);
+    expect(irreducibleInfeasibleSubset({ ...model, rhs: [5, 3, 10] }, exactArithmetic)).toEqual([]);
+  });
+});
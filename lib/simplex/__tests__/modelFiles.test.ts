@@ -0,0 +1,54 @@
+import { formatModelFile, isIdentifier, LPModel, ModelFormat, parseModelFile } from "@/lib/simplex";
+
+const model: LPModel = {
+  objective: [0.123456789, -2, 0],
+  constraintsMatrix: [
+    [1e-7, 1, 3],
+    [1, 0, -1],
+    [2.5, 1e21, 1],
+  ],
+  rhs: [4, 1e-7, 0.3333333333333333],
+  constraintTypes: ["≤", "=", "≥"],
+  optType: "Maximize",
+  bounds: [
+    { lower: 0, upper: 0.123456789 },
+    { lower: -Infinity, upper: Infinity },
+    { lower: -2, upper: Infinity },
+  ],
+  variableNames: ["x", "chairs", "z"],
+  constraintNames: ["labour_hours", "Balance2", "_demand"],
+  kinds: ["continuous", "continuous", "integer"],
+};
+
+const formats: ModelFormat[] = ["algebraic", "lp", "mps"];
+
+describe("model files", () => {
+  it.each(formats)("read back what the %s writer wrote, in full precision", (format) => {
+    const text = formatModelFile(format, model);
+    const result = parseModelFile(format, text);
+    if (!result.ok) throw new Error(`${result.error.message} (${result.error.line}:${result.error.column})\n${text}`);
+    expect(result.model).toMatchObject({
+      objective: model.objective,
+      constraintsMatrix: model.constraintsMatrix,
+      rhs: model.rhs,
+      constraintTypes: model.constraintTypes,
+      optType: model.optType,
+      bounds: model.bounds,
+      variableNames: model.variableNames,
+      kinds: model.kinds,
+    });
+    expect(result.constraintNames).toEqual(model.constraintNames);
+  });
+
+  it("only takes labels every format can carry unchanged", () => {
+    expect(model.constraintNames!.every(isIdentifier)).toBe(true);
+    ["labour hours", "c-1", "2nd", ""].forEach((label) => expect(isIdentifier(label)).toBe(false));
+  });
+
+  it("writes algebraic numbers without an exponent", () => {
+    const text = formatModelFile("algebraic", model);
+    expect(text).toContain("0.0000001x");
+    expect(text).toContain("1000000000000000000000 chairs");
+    expect(text).not.toMatch(/\de/);
+  });
+});
@@ -0,0 +1,41 @@
+import { auxiliaryColumnLabels, formatEquations, LPModel, slackColumnLabels, substituteBounds } from "@/lib/simplex";
+
+// max 3 chairs + 5x2 with a labelled labour row, an unlabelled demand row and a bounded x2
+const model: LPModel = {
+  objective: [3, 5],
+  constraintsMatrix: [
+    [1, 2],
+    [1, 0],
+  ],
+  rhs: [8, 2],
+  constraintTypes: ["≤", "≥"],
+  optType: "Maximize",
+  bounds: [
+    { lower: 0, upper: Infinity },
+    { lower: 1, upper: 3 },
+  ],
+  variableNames: ["chairs", "x2"],
+  constraintNames: ["labour_hours", ""],
+};
+
+describe("variable names and constraint labels", () => {
+  it("write the equations with names and labels", () => {
+    expect(formatEquations(model)).toEqual([
+      "Maximize Z = 3 chairs + 5x2",
+      "labour_hours: chairs + 2x2 ≤ 8",
+      "c2: chairs ≥ 2",
+      "chairs ≥ 0",
+      "1 ≤ x2 ≤ 3",
+    ]);
+  });
+
+  it("label the auxiliary columns with their constraints", () => {
+    expect(auxiliaryColumnLabels(model)).toEqual({ s1: "labour_hours" });
+    expect(slackColumnLabels(model)).toEqual({ s1: "labour_hours" });
+    // the row a finite range adds is labelled after its variable
+    const { model: substituted } = substituteBounds(model);
+    expect(substituted.variableNames).toEqual(["chairs", "x2'"]);
+    expect(substituted.constraintNames).toEqual(["labour_hours", "c2", "x2 bound"]);
+    expect(auxiliaryColumnLabels(substituted)).toEqual({ s1: "labour_hours", e1: "c2", a1: "c2", s2: "x2 bound" });
+  });
+});
@@ -0,0 +1,37 @@
+import { exactArithmetic, LPModel, parametricAnalysis } from "@/lib/simplex";
+
+// max 3x1 + 5x2, x1 ≤ 4, 2x2 ≤ 12, 3x1 + 2x2 ≤ 18
+const model: LPModel = {
+  objective: [3, 5],
+  constraintsMatrix: [
+    [1, 0],
+    [0, 2],
+    [3, 2],
+  ],
+  rhs: [4, 12, 18],
+  constraintTypes: ["≤", "≤", "≤"],
+  optType: "Maximize",
+};
+
+describe("parametric analysis", () => {
+  it("follows the optimal basis as a right-hand side moves", () => {
+    const result = parametricAnalysis(model, { kind: "rhs", row: 2 }, 0, 30, exactArithmetic, "dantzig");
+    expect(result.status).toBe("complete");
+    expect(result.intervals.map(({ from, to, zFrom, zTo }) => [from, to, zFrom, zTo])).toEqual([
+      [0, 12, 0, 30],
+      [12, 24, 30, 42],
+      [24, 30, 42, 42],
+    ]);
+    expect(result.intervals.map(({ pivot }) => pivot)).toEqual(["s2 leaves, x1 enters", "s1 leaves, s3 enters", null]);
+  });
+
+  it("follows the optimal basis as a cost moves", () => {
+    const result = parametricAnalysis(model, { kind: "objective", variable: 0 }, 0, 10, exactArithmetic, "dantzig");
+    expect(result.status).toBe("complete");
+    // x = (2, 6) until c1 = 15/2, then (4, 3)
+    expect(result.intervals.map(({ from, to, zFrom, zTo }) => [from, to, zFrom, zTo])).toEqual([
+      [0, 7.5, 30, 45],
+      [7.5, 10, 45, 55],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { parseLPFile, parseModelText, parseMPSFile } from "@/lib/simplex";
+
+describe("algebraic model text", () => {
+  it("reads the objective, labelled constraints, bounds and integrality", () => {
+    const result = parseModelText("max: 3x + 2y;\nc1: x + y <= 4;\nc2: x + 3y >= 6;\ny int;\n0 <= x <= 3;");
+    if (!result.ok) throw new Error(result.error.message);
+    expect(result.model).toMatchObject({
+      objective: [3, 2],
+      constraintsMatrix: [
+        [1, 1],
+        [1, 3],
+      ],
+      rhs: [4, 6],
+      constraintTypes: ["≤", "≥"],
+      optType: "Maximize",
+      variableNames: ["x", "y"],
+      kinds: ["continuous", "integer"],
+    });
+    expect(result.model.bounds?.[0]).toEqual({ lower: 0, upper: 3 });
+    expect(result.constraintNames).toEqual(["c1", "c2"]);
+  });
+
+  it("warns that an objective constant is dropped", () => {
+    const result = parseModelText("max: 3x + 5 - 2y;\nx + y <= 4;");
+    if (!result.ok) throw new Error(result.error.message);
+    expect(result.model.objective).toEqual([3, -2]);
+    expect(result.warnings).toEqual(["The objective constant 5 was dropped."]);
+    expect(parseModelText("max: 3x;\nx <= 4;")).toMatchObject({ ok: true, warnings: [] });
+  });
+
+  it("points at the offending token", () => {
+    const result = parseModelText("max: 3x + 2y;\nx + y <= ;");
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatchObject({ line: 2, column: 10 });
+  });
+
+  it("rejects the names the methods give their own columns", () => {
+    const result = parseModelText("max: 3 s1 + 2 a1;\ns1 + a1 <= 4;\na1 >= 1;");
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toMatchObject({ line: 1, column: 8 });
+      expect(result.error.message).toContain('"s1" is reserved');
+    }
+    expect(parseModelText("max: x + e2;").ok).toBe(false);
+    expect(parseModelText("max: x + s1x + a;").ok).toBe(true);
+  });
+
+  it("rejects reserved names in LP and MPS files", () => {
+    const lp = parseLPFile("Maximize\n obj: 3 x + 2 g1\nSubject To\n c1: x + g1 <= 4\nEnd");
+    expect(lp.ok).toBe(false);
+    if (!lp.ok) expect(lp.error).toMatchObject({ line: 2, column: 15 });
+
+    const mps = parseMPSFile(
+      ["NAME test", "ROWS", " N obj", " L c1", "COLUMNS", "    a1 obj 1 c1 1", "RHS", "    RHS c1 4", "ENDATA"].join("\n")
+    );
+    expect(mps.ok).toBe(false);
+    if (!mps.ok) expect(mps.error).toMatchObject({ line: 6, column: 5 });
+  });
+});
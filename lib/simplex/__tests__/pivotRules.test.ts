@@ -0,0 +1,37 @@
+import {
+  createInitialSimplexTable,
+  exactArithmetic,
+  LPModel,
+  objectiveValue,
+  PivotRule,
+  solve,
+  SolveStatus,
+  withPivotRule,
+} from "@/lib/simplex";
+
+// Chvátal's cycling example: Dantzig's rule with ties to the first row returns to the starting basis
+const cycling: LPModel = {
+  objective: [10, -57, -9, -24],
+  constraintsMatrix: [
+    [0.5, -5.5, -2.5, 9],
+    [0.5, -1.5, -0.5, 1],
+    [1, 0, 0, 0],
+  ],
+  rhs: [0, 0, 1],
+  constraintTypes: ["≤", "≤", "≤"],
+  optType: "Maximize",
+};
+
+const solveWith = (pivotRule: PivotRule) => solve(withPivotRule(createInitialSimplexTable(cycling, exactArithmetic), pivotRule));
+
+describe("pivot rules", () => {
+  it("detects cycling under Dantzig's rule", () => {
+    expect(solveWith("dantzig").status).toBe(SolveStatus.Cycling);
+  });
+
+  it.each<PivotRule>(["bland", "greatest-improvement", "steepest-edge"])("reaches Z = 1 under %s", (rule) => {
+    const result = solveWith(rule);
+    expect(result.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(result.tableau).toFraction()).toBe("1");
+  });
+});
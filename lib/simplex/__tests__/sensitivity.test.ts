@@ -0,0 +1,68 @@
+import { Fraction } from "fraction.js";
+import {
+  createInitialPhase1Table,
+  createInitialSimplexTable,
+  createPhase2Table,
+  exactArithmetic,
+  LPModel,
+  RhsRange,
+  sensitivityReport,
+  solve,
+} from "@/lib/simplex";
+
+// current value, allowable increase and allowable decrease, with ∞ for no limit
+const show = ({ current, increase, decrease }: Omit<RhsRange<Fraction>, "constraint">) =>
+  [current, increase, decrease].map((v) => v?.toFraction() ?? "∞");
+
+describe("sensitivity ranging", () => {
+  // max 3x1 + 5x2, x1 ≤ 4, 2x2 ≤ 12, 3x1 + 2x2 ≤ 18
+  const wyndor: LPModel = {
+    objective: [3, 5],
+    constraintsMatrix: [
+      [1, 0],
+      [0, 2],
+      [3, 2],
+    ],
+    rhs: [4, 12, 18],
+    constraintTypes: ["≤", "≤", "≤"],
+    optType: "Maximize",
+  };
+
+  it("ranges costs and right-hand sides of an all-≤ problem", () => {
+    const { tableau } = solve(createInitialSimplexTable(wyndor, exactArithmetic));
+    const report = sensitivityReport(tableau, wyndor);
+    expect(report.costs.map(show)).toEqual([
+      ["3", "9/2", "3"],
+      ["5", "∞", "3"],
+    ]);
+    expect(report.rhs.map(show)).toEqual([
+      ["4", "∞", "2"],
+      ["12", "6", "6"],
+      ["18", "6", "6"],
+    ]);
+  });
+
+  it("ranges every right-hand side after Phase 1, = rows included", () => {
+    // min 2x1 + 3x2, x1 + 3x2 ≥ 6, x1 + x2 = 4: optimum (3, 1); the = row's artificial is dropped for Phase 2
+    const model: LPModel = {
+      objective: [2, 3],
+      constraintsMatrix: [
+        [1, 3],
+        [1, 1],
+      ],
+      rhs: [6, 4],
+      constraintTypes: ["≥", "="],
+      optType: "Minimize",
+    };
+    const phase1 = solve(createInitialPhase1Table(model, exactArithmetic)).tableau;
+    const { tableau } = solve(createPhase2Table(phase1, model.objective, model.optType));
+    expect(tableau.variables).not.toContain("a2");
+
+    const report = sensitivityReport(tableau, model);
+    expect(report.rhs.map(({ constraint }) => constraint)).toEqual(["x1 + 3x2 ≥ 6", "x1 + x2 = 4"]);
+    expect(report.rhs.map(show)).toEqual([
+      ["6", "6", "2"],
+      ["4", "2", "2"],
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  basicSolution,
+  createInitialPhase1Table,
+  createInitialSimplexTable,
+  createPhase2Table,
+  floatArithmetic,
+  LPModel,
+  objectiveValue,
+  solve,
+  SolveStatus,
+} from "@/lib/simplex";
+
+// max 3x1 + 5x2, x1 ≤ 4, 2x2 ≤ 12, 3x1 + 2x2 ≤ 18: optimum x = (2, 6), Z = 36
+const wyndor: LPModel = {
+  objective: [3, 5],
+  constraintsMatrix: [
+    [1, 0],
+    [0, 2],
+    [3, 2],
+  ],
+  rhs: [4, 12, 18],
+  constraintTypes: ["≤", "≤", "≤"],
+  optType: "Maximize",
+};
+
+describe("standard simplex", () => {
+  it("solves an all-≤ maximization", () => {
+    const result = solve(createInitialSimplexTable(wyndor, floatArithmetic));
+    expect(result.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(result.tableau)).toBeCloseTo(36);
+    const values = basicSolution(result.tableau);
+    expect(values.x1).toBeCloseTo(2);
+    expect(values.x2).toBeCloseTo(6);
+  });
+
+  it("maximizes the negated objective of a minimization", () => {
+    const result = solve(createInitialSimplexTable({ ...wyndor, objective: [-3, -5], optType: "Minimize" }, floatArithmetic));
+    expect(result.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(result.tableau)).toBeCloseTo(36);
+  });
+
+  it("reports an unbounded problem with its entering column", () => {
+    const model: LPModel = { ...wyndor, constraintsMatrix: [[1, -1]], rhs: [4], constraintTypes: ["≤"] };
+    const result = solve(createInitialSimplexTable(model, floatArithmetic));
+    expect(result.status).toBe(SolveStatus.Unbounded);
+    expect(result.entering).toBe("x2");
+  });
+});
+
+describe("two-phase method", () => {
+  // min 2x1 + 3x2, x1 + x2 ≥ 4, x1 + 3x2 ≥ 6: optimum x = (3, 1), Z = 9
+  const model: LPModel = {
+    objective: [2, 3],
+    constraintsMatrix: [
+      [1, 1],
+      [1, 3],
+    ],
+    rhs: [4, 6],
+    constraintTypes: ["≥", "≥"],
+    optType: "Minimize",
+  };
+
+  it("finds a feasible basis in Phase 1 and the optimum in Phase 2", () => {
+    const phase1 = solve(createInitialPhase1Table(model, floatArithmetic));
+    expect(phase1.status).toBe(SolveStatus.Optimal);
+    expect(objectiveValue(phase1.tableau)).toBeCloseTo(0);
+
+    const phase2 = solve(createPhase2Table(phase1.tableau, model.objective, model.optType));
+    expect(phase2.status).toBe(SolveStatus.Optimal);
+    // Minimize problems are maximized with a negated objective
+    expect(objectiveValue(phase2.tableau)).toBeCloseTo(-9);
+    const values = basicSolution(phase2.tableau);
+    expect(values.x1).toBeCloseTo(3);
+    expect(values.x2).toBeCloseTo(1);
+  });
+
+  it("ends Phase 1 with W > 0 when the constraints conflict", () => {
+    const infeasible: LPModel = { ...model, constraintsMatrix: [[1, 1], [1, 1]], rhs: [4, 2], constraintTypes: ["≥", "≤"] };
+    expect(solve(createInitialPhase1Table(infeasible, floatArithmetic)).status).toBe(SolveStatus.Infeasible);
+  });
+});
@@ -0,0 +1,38 @@
+import { initialSolution, InitialMethod, solveTransportation, totalCost, TransportationProblem } from "@/lib/simplex";
+
+// the classic three-source, four-destination example: optimal cost 743
+const problem: TransportationProblem = {
+  costs: [
+    [19, 30, 50, 10],
+    [70, 30, 40, 60],
+    [40, 8, 70, 20],
+  ],
+  supply: [7, 9, 18],
+  demand: [5, 8, 7, 14],
+};
+
+describe("transportation problem", () => {
+  it.each<[InitialMethod, number]>([
+    ["northwest", 1015],
+    ["least-cost", 814],
+    ["vogel", 779],
+  ])("starts %s with cost %d and a basis of m + n - 1 cells", (method, cost) => {
+    const { plan } = initialSolution(problem, method);
+    expect(totalCost(plan)).toBe(cost);
+    expect(plan.basic.flat().filter(Boolean)).toHaveLength(3 + 4 - 1);
+  });
+
+  it("improves every start to the optimum with MODI", () => {
+    (["northwest", "least-cost", "vogel"] as InitialMethod[]).forEach((method) => {
+      const { plans, optimal } = solveTransportation(initialSolution(problem, method).plan);
+      expect(optimal).toBe(true);
+      expect(totalCost(plans[plans.length - 1])).toBe(743);
+    });
+  });
+
+  it("balances an unbalanced problem with a dummy destination", () => {
+    const { plan } = initialSolution({ ...problem, supply: [10, 9, 18] }, "vogel");
+    expect(plan.dummy).toBe("column");
+    expect(plan.problem.demand).toEqual([5, 8, 7, 14, 3]);
+  });
+});
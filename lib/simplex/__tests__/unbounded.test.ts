@@ -0,0 +1,29 @@
+import { createInitialSimplexTable, exactArithmetic, LPModel, solve, SolveStatus, substituteBounds, unboundedRay } from "@/lib/simplex";
+
+describe("unbounded ray", () => {
+  it("gives a feasible direction along which Z grows without limit", () => {
+    // max x1 + 2x2, x1 - x2 ≤ 1, -x1 + x2 ≤ 2
+    const model: LPModel = {
+      objective: [1, 2],
+      constraintsMatrix: [
+        [1, -1],
+        [-1, 1],
+      ],
+      rhs: [1, 2],
+      constraintTypes: ["≤", "≤"],
+      optType: "Maximize",
+    };
+    const { substitution } = substituteBounds(model);
+    const result = solve(createInitialSimplexTable(model, exactArithmetic));
+    expect(result.status).toBe(SolveStatus.Unbounded);
+
+    const ray = unboundedRay(result.tableau, result.entering!, model.objective, substitution);
+    const { x1, x2 } = ray.direction;
+    expect(x1.compare(0)).toBeGreaterThanOrEqual(0);
+    expect(x2.compare(0)).toBeGreaterThanOrEqual(0);
+    // every row stays satisfied along the ray and the objective rate matches c·d
+    model.constraintsMatrix.forEach(([a, b]) => expect(x1.mul(a).add(x2.mul(b)).compare(0)).toBeLessThanOrEqual(0));
+    expect(ray.rate.equals(x1.add(x2.mul(2)))).toBe(true);
+    expect(ray.rate.compare(0)).toBe(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { ratioTest } from "./solver";
+import { arithmeticOf, basicSolution, basisKey, formatValue, isDecisionColumn, performPivot } from "./tableau";
+import { Tableau } from "./types";
+
+// A nonbasic column with Cj - Zj = 0 at the optimum. Bringing it in moves to another optimal
+// vertex, or, when no row limits it, along an unbounded edge of optimal solutions.
+export type AlternativeColumn = { column: number; entering: string; row: number | null; leaving: string | null };
+
+export type OptimalFace<T> = {
+  // distinct optimal basic feasible solutions, restricted to the decision variables
+  vertices: Record<string, T>[];
+  // directions along which the optimum stays optimal without bound
+  rays: Record<string, T>[];
+  // true when the search stopped at the limit before visiting every optimal basis
+  truncated: boolean;
+};
+
+const MAX_OPTIMAL_BASES = 50;
+
+export const alternativeColumns = <T>(tableau: Tableau<T>): AlternativeColumn[] => {
+  const ar = arithmeticOf(tableau);
+  return tableau.variables.flatMap((name, column) => {
+    if (tableau.basis.includes(name) || ar.sign(tableau.cjMinusZj[column]) !== 0) return [];
+    const leavingRow = ratioTest(tableau, column);
+    return [{
+      column,
+      entering: name,
+      row: leavingRow?.row ?? null,
+      leaving: leavingRow === null ? null : tableau.basis[leavingRow.row],
+    }];
+  });
+};
+
+// Pivot an optimal tableau to a neighbouring optimal vertex, preferring a basis not seen yet.
+// Returns null when the optimum is unique or only has unbounded alternative edges.
+export const pivotToAlternativeOptimum = <T>(tableau: Tableau<T>): Tableau<T> | null => {
+  const candidates = alternativeColumns(tableau)
+    .filter(({ row }) => row !== null)
+    .map(({ row, column }) => performPivot(tableau, row!, column));
+  if (candidates.length === 0) return null;
+  return candidates.find((next) => !tableau.visitedBases.includes(basisKey(next))) ?? candidates[0];
+};
+
+const decisionValues = <T>(tableau: Tableau<T>, solution: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(tableau.variables.filter(isDecisionColumn).map((name) => [name, solution[name]]));
+
+// Edge direction for an entering column with no ratio test row: the column rises by 1
+// and each basic variable changes by minus its entry in that column
+const rayOf = <T>(tableau: Tableau<T>, column: number): Record<string, T> => {
+  const ar = arithmeticOf(tableau);
+  const direction: Record<string, T> = {};
+  tableau.variables.forEach((name) => {
+    direction[name] = ar.zero;
+  });
+  direction[tableau.variables[column]] = ar.one;
+  tableau.basis.forEach((name, i) => {
+    direction[name] = ar.neg(tableau.rows[i][column]);
+  });
+  return decisionValues(tableau, direction);
+};
+
+// Visit every optimal basis reachable through zero Cj - Zj pivots and collect the distinct vertices
+export const enumerateOptimalFace = <T>(optimal: Tableau<T>, limit: number = MAX_OPTIMAL_BASES): OptimalFace<T> => {
+  const seen = new Set<string>();
+  const vertexKeys = new Set<string>();
+  const rayKeys = new Set<string>();
+  const face: OptimalFace<T> = { vertices: [], rays: [], truncated: false };
+  const key = (values: Record<string, T>) => Object.values(values).map((v) => formatValue(optimal, v)).join(",");
+
+  const queue = [optimal];
+  while (queue.length > 0) {
+    const tableau = queue.shift()!;
+    if (seen.has(basisKey(tableau))) continue;
+    if (seen.size >= limit) {
+      face.truncated = true;
+      break;
+    }
+    seen.add(basisKey(tableau));
+
+    const vertex = decisionValues(tableau, basicSolution(tableau));
+    if (!vertexKeys.has(key(vertex))) {
+      vertexKeys.add(key(vertex));
+      face.vertices.push(vertex);
+    }
+
+    alternativeColumns(tableau).forEach(({ column, row }) => {
+      if (row !== null) {
+        queue.push(performPivot(tableau, row, column));
+        return;
+      }
+      const ray = rayOf(tableau, column);
+      if (Object.values(ray).some((v) => arithmeticOf(tableau).sign(v) !== 0) && !rayKeys.has(key(ray))) {
+        rayKeys.add(key(ray));
+        face.rays.push(ray);
+      }
+    });
+  }
+  return face;
+};
+
+const formatPoint = <T>(tableau: Tableau<T>, point: Record<string, T>): string =>
+  `(${Object.values(point).map((v) => formatValue(tableau, v)).join(", ")})`;
+
+// e.g. "(x1, x2) = λ1(2, 3) + λ2(4, 1), where λ1 + λ2 = 1 and λ1, λ2 ≥ 0"
+export const formatConvexCombination = <T>(tableau: Tableau<T>, face: OptimalFace<T>): string => {
+  if (face.vertices.length === 0) return "";
+  const names = Object.keys(face.vertices[0]);
+  const lambdas = face.vertices.map((_, i) => `λ${i + 1}`);
+  const mus = face.rays.map((_, i) => `μ${i + 1}`);
+
+  const terms = [
+    ...face.vertices.map((vertex, i) => `${lambdas[i]}${formatPoint(tableau, vertex)}`),
+    ...face.rays.map((ray, i) => `${mus[i]}${formatPoint(tableau, ray)}`),
+  ];
+  const conditions = [`${lambdas.join(" + ")} = 1`, `${[...lambdas, ...mus].join(", ")} ≥ 0`];
+  return `(${names.join(", ")}) = ${terms.join(" + ")}, where ${conditions.join(" and ")}`;
+};
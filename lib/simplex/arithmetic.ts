@@ -0,0 +1,186 @@
+import { Fraction } from "fraction.js";
+import { decimalToFraction } from "./format";
+
+export type ArithmeticMode = "float" | "exact";
+
+// Every tableau value is either a float or an exact rational, depending on the solver mode
+export type Scalar = number | Fraction;
+
+// Rationals typed into cells that fractionFromNumber can't recover from their float, such as
+// 1/3 + 1/10^16: magnitudes keyed by String() of the float the model carries
+export type ExactValues = Readonly<Record<string, string>>;
+
+export type Arithmetic<T> = {
+  mode: ArithmeticMode;
+  // looked up by fromNumber before guessing; see exactArithmeticWith()
+  exactValues?: ExactValues;
+  // values are aM + b pairs; see bigMArithmetic()
+  bigM?: boolean;
+  zero: T;
+  one: T;
+  fromNumber: (value: number) => T;
+  toNumber: (value: T) => number;
+  add: (a: T, b: T) => T;
+  sub: (a: T, b: T) => T;
+  mul: (a: T, b: T) => T;
+  div: (a: T, b: T) => T;
+  neg: (a: T) => T;
+  // largest integer ≤ a, with floats within EPSILON of an integer rounded to it
+  floor: (a: T) => T;
+  // -1, 0 or 1, treating floats within EPSILON of zero as zero
+  sign: (a: T) => number;
+  // true when a value left over from a pivot should be snapped to zero
+  negligible: (a: T) => boolean;
+  format: (a: T) => string;
+};
+
+export const EPSILON = 1e-10;
+export const PIVOT_EPSILON = 1e-12;
+
+export const floatArithmetic: Arithmetic<number> = {
+  mode: "float",
+  zero: 0,
+  one: 1,
+  fromNumber: (value) => value,
+  toNumber: (value) => value,
+  add: (a, b) => a + b,
+  sub: (a, b) => a - b,
+  mul: (a, b) => a * b,
+  div: (a, b) => a / b,
+  neg: (a) => -a,
+  floor: (a) => Math.floor(a + EPSILON),
+  sign: (a) => (a > EPSILON ? 1 : a < -EPSILON ? -1 : 0),
+  negligible: (a) => Math.abs(a) < PIVOT_EPSILON,
+  format: decimalToFraction,
+};
+
+// Models carry plain numbers, so unless it is among the model's exact values, the rational a cell was entered
+// as ("1/3", "123456.789") is recovered as the first continued-fraction convergent of the float that rounds
+// back to it. The expansion of the float's exact binary value ends with that value itself, so this always
+// terminates.
+export const fractionFromNumber = (value: number): Fraction => {
+  if (!Number.isFinite(value)) return new Fraction(value);
+  let numerator = value;
+  let denominator = BigInt(1);
+  while (!Number.isInteger(numerator)) {
+    numerator *= 2;
+    denominator *= BigInt(2);
+  }
+  let [n, d] = [BigInt(numerator), denominator];
+  let [h, hPrev, k, kPrev] = [BigInt(1), BigInt(0), BigInt(0), BigInt(1)];
+  // floor division keeps every partial quotient after the first positive, whatever the sign
+  const floorDiv = (a: bigint, b: bigint) => (a % b !== BigInt(0) && a < BigInt(0) ? a / b - BigInt(1) : a / b);
+  while (d !== BigInt(0)) {
+    const q = floorDiv(n, d);
+    [h, hPrev] = [q * h + hPrev, h];
+    [k, kPrev] = [q * k + kPrev, k];
+    [n, d] = [d, n - q * d];
+    if (Number(h) / Number(k) === value) break;
+  }
+  return new Fraction(h, k);
+};
+
+export const exactArithmetic: Arithmetic<Fraction> = {
+  mode: "exact",
+  zero: new Fraction(0),
+  one: new Fraction(1),
+  fromNumber: fractionFromNumber,
+  toNumber: (value) => value.valueOf(),
+  add: (a, b) => a.add(b),
+  sub: (a, b) => a.sub(b),
+  mul: (a, b) => a.mul(b),
+  div: (a, b) => a.div(b),
+  neg: (a) => a.neg(),
+  floor: (a) => a.floor(),
+  sign: (a) => Number(a.s) * (a.n === BigInt(0) ? 0 : 1),
+  negligible: (a) => a.n === BigInt(0),
+  format: (a) => a.toFraction(),
+};
+
+// Exact arithmetic that reads entered cells back as typed rather than as the simplest nearby fraction
+export const exactArithmeticWith = (exactValues?: ExactValues): Arithmetic<Fraction> => {
+  if (!exactValues) return exactArithmetic;
+  return {
+    ...exactArithmetic,
+    exactValues,
+    fromNumber: (value) => {
+      const exact = exactValues[String(Math.abs(value))];
+      if (exact === undefined) return fractionFromNumber(value);
+      return value < 0 ? new Fraction(exact).neg() : new Fraction(exact);
+    },
+  };
+};
+
+// aM + b, where M stands for an arbitrarily large penalty
+export type BigM<T> = { readonly m: T; readonly c: T };
+
+// Lexicographic arithmetic on aM + b: any nonzero multiple of M outweighs every constant.
+// Constraint rows never contain M, so products of two M terms and division by M can't occur.
+export const bigMArithmetic = <T>(base: Arithmetic<T>): Arithmetic<BigM<T>> => {
+  const pair = (m: T, c: T): BigM<T> => ({ m, c });
+
+  const format = ({ m, c }: BigM<T>): string => {
+    if (base.sign(m) === 0) return base.format(c);
+    const isOne = base.sign(base.sub(m, base.one)) === 0;
+    const isMinusOne = base.sign(base.add(m, base.one)) === 0;
+    const mCoeff = isOne ? "" : isMinusOne ? "-" : base.format(m);
+    if (base.sign(c) === 0) return `${mCoeff}M`;
+    return `${mCoeff}M ${base.sign(c) > 0 ? "+" : "-"} ${base.format(base.sign(c) > 0 ? c : base.neg(c))}`;
+  };
+
+  return {
+    mode: base.mode,
+    bigM: true,
+    exactValues: base.exactValues,
+    zero: pair(base.zero, base.zero),
+    one: pair(base.zero, base.one),
+    fromNumber: (value) => pair(base.zero, base.fromNumber(value)),
+    toNumber: ({ m, c }) => (base.sign(m) === 0 ? base.toNumber(c) : base.sign(m) * Infinity),
+    add: (a, b) => pair(base.add(a.m, b.m), base.add(a.c, b.c)),
+    sub: (a, b) => pair(base.sub(a.m, b.m), base.sub(a.c, b.c)),
+    mul: (a, b) => pair(base.add(base.mul(a.m, b.c), base.mul(a.c, b.m)), base.mul(a.c, b.c)),
+    div: (a, b) => {
+      if (base.sign(b.m) !== 0) throw new Error("Cannot divide by a multiple of M.");
+      return pair(base.div(a.m, b.c), base.div(a.c, b.c));
+    },
+    neg: (a) => pair(base.neg(a.m), base.neg(a.c)),
+    floor: (a) => {
+      if (base.sign(a.m) !== 0) throw new Error("Cannot round a multiple of M.");
+      return pair(base.zero, base.floor(a.c));
+    },
+    sign: (a) => base.sign(a.m) || base.sign(a.c),
+    negligible: (a) => base.negligible(a.m) && base.negligible(a.c),
+    format,
+  };
+};
+
+export const bigMFloatArithmetic = bigMArithmetic(floatArithmetic);
+export const bigMExactArithmetic = bigMArithmetic(exactArithmetic);
+
+export const arithmeticFor = (mode: ArithmeticMode, exactValues?: ExactValues): Arithmetic<Scalar> =>
+  (mode === "exact" ? exactArithmeticWith(exactValues) : floatArithmetic) as Arithmetic<Scalar>;
+
+export const compare = <T>(ar: Arithmetic<T>, a: T, b: T): number => ar.sign(ar.sub(a, b));
+
+// Gauss-Jordan elimination on a consistent system; unknowns without a pivot are set to zero
+export const solveLinearSystem = <T>(ar: Arithmetic<T>, coefficients: T[][], values: T[], unknowns: number): T[] => {
+  const rows = coefficients.map((row, i) => [...row, values[i]]);
+  const pivots: number[] = [];
+  let r = 0;
+
+  for (let c = 0; c < unknowns && r < rows.length; c++) {
+    const p = rows.findIndex((row, i) => i >= r && ar.sign(row[c]) !== 0);
+    if (p === -1) continue;
+    [rows[r], rows[p]] = [rows[p], rows[r]];
+    const pivot = rows[r][c];
+    rows[r] = rows[r].map((v) => ar.div(v, pivot));
+    rows.forEach((row, i) => {
+      if (i === r || ar.sign(row[c]) === 0) return;
+      const factor = row[c];
+      rows[i] = row.map((v, k) => ar.sub(v, ar.mul(factor, rows[r][k])));
+    });
+    pivots[c] = r++;
+  }
+
+  return Array.from({ length: unknowns }, (_, c) => (pivots[c] === undefined ? ar.zero : rows[pivots[c]][unknowns]));
+};
@@ -0,0 +1,212 @@
+import { decimalToFraction } from "./format";
+import { OptType } from "./types";
+
+// Reductions only subtract entries from one another, so floats with a tolerance do
+const TOLERANCE = 1e-9;
+
+// Assign each worker (row) to one job (column) at least total cost, or most total profit when maximizing
+export type AssignmentProblem = {
+  costs: number[][];
+  optType: OptType;
+};
+
+export type HungarianStage = "start" | "row-reduction" | "column-reduction" | "cover" | "adjustment" | "optimal";
+
+export type HungarianTable = {
+  // the square problem: dummy rows or columns of zeros pad a rectangular one
+  problem: AssignmentProblem;
+  rows: number;
+  cols: number;
+  stage: HungarianStage;
+  // reduced matrix after the stage
+  matrix: number[][];
+  // minimum line cover of the zeros, set by the cover stage
+  coveredRows: boolean[];
+  coveredCols: boolean[];
+  // column assigned to each row once optimal, otherwise the largest set of independent zeros
+  assignment: (number | null)[];
+  note: string;
+};
+
+export const hungarianStageLabels: Record<HungarianStage, string> = {
+  start: "Cost Matrix",
+  "row-reduction": "Row Reduction",
+  "column-reduction": "Column Reduction",
+  cover: "Minimum Line Cover",
+  adjustment: "Matrix Adjustment",
+  optimal: "Optimal Assignment",
+};
+
+export const workerLabel = (table: HungarianTable, row: number): string => (row < table.rows ? `W${row + 1}` : "Dummy");
+
+export const jobLabel = (table: HungarianTable, col: number): string => (col < table.cols ? `J${col + 1}` : "Dummy");
+
+const clean = (value: number): number => (Math.abs(value) <= TOLERANCE ? 0 : value);
+
+const isZero = (value: number): boolean => Math.abs(value) <= TOLERANCE;
+
+// Pad to a square with zero rows or columns; a maximization becomes minimizing the regret max - cᵢⱼ
+export const createAssignmentTable = (problem: AssignmentProblem): HungarianTable => {
+  const rows = problem.costs.length;
+  const cols = problem.costs[0]?.length ?? 0;
+  const n = Math.max(rows, cols);
+  const costs = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => problem.costs[i]?.[j] ?? 0));
+  const largest = Math.max(...problem.costs.flat());
+  const matrix =
+    problem.optType === "Maximize"
+      ? costs.map((row, i) => row.map((value, j) => (i < rows && j < cols ? largest - value : 0)))
+      : costs.map((row) => [...row]);
+
+  const notes: string[] = [];
+  if (rows !== cols) notes.push(`${Math.abs(rows - cols)} dummy ${rows < cols ? "row" : "column"}(s) of zeros make the matrix square.`);
+  if (problem.optType === "Maximize") notes.push(`Maximizing: each entry is replaced by ${decimalToFraction(largest)} - cᵢⱼ.`);
+
+  return {
+    problem: { costs, optType: problem.optType },
+    rows,
+    cols,
+    stage: "start",
+    matrix,
+    coveredRows: costs.map(() => false),
+    coveredCols: costs.map(() => false),
+    assignment: costs.map(() => null),
+    note: notes.join(" "),
+  };
+};
+
+// Largest set of independent zeros by augmenting paths: the column matched to each row
+const maximumMatching = (matrix: number[][]): (number | null)[] => {
+  const n = matrix.length;
+  const rowOfCol: (number | null)[] = Array(n).fill(null);
+  const augment = (i: number, visited: boolean[]): boolean =>
+    matrix[i].some((value, j) => {
+      if (!isZero(value) || visited[j]) return false;
+      visited[j] = true;
+      if (rowOfCol[j] === null || augment(rowOfCol[j]!, visited)) {
+        rowOfCol[j] = i;
+        return true;
+      }
+      return false;
+    });
+  matrix.forEach((_, i) => augment(i, Array(n).fill(false)));
+
+  const colOfRow: (number | null)[] = Array(n).fill(null);
+  rowOfCol.forEach((i, j) => {
+    if (i !== null) colOfRow[i] = j;
+  });
+  return colOfRow;
+};
+
+// König: from the unassigned rows, follow zeros to columns and assignments back to rows; the cover is the
+// rows not reached plus the columns reached, one line per independent zero
+const minimumCover = (matrix: number[][], assignment: (number | null)[]) => {
+  const n = matrix.length;
+  const reachedRows = assignment.map((col) => col === null);
+  const reachedCols: boolean[] = Array(n).fill(false);
+  const queue = reachedRows.flatMap((reached, i) => (reached ? [i] : []));
+  while (queue.length > 0) {
+    const i = queue.shift()!;
+    matrix[i].forEach((value, j) => {
+      if (!isZero(value) || reachedCols[j]) return;
+      reachedCols[j] = true;
+      const next = assignment.indexOf(j);
+      if (next !== -1 && !reachedRows[next]) {
+        reachedRows[next] = true;
+        queue.push(next);
+      }
+    });
+  }
+  return { coveredRows: reachedRows.map((reached) => !reached), coveredCols: reachedCols };
+};
+
+// Carry out the stage after the current one
+export const nextHungarianStep = (table: HungarianTable): HungarianTable => {
+  const { matrix } = table;
+  const n = matrix.length;
+  const uncovered = { coveredRows: matrix.map(() => false), coveredCols: matrix.map(() => false) };
+
+  switch (table.stage) {
+    case "start": {
+      const minima = matrix.map((row) => Math.min(...row));
+      return {
+        ...table,
+        ...uncovered,
+        stage: "row-reduction",
+        matrix: matrix.map((row, i) => row.map((value) => clean(value - minima[i]))),
+        note: `Subtract each row's minimum: ${minima.map(decimalToFraction).join(", ")}.`,
+      };
+    }
+    case "row-reduction": {
+      const minima = matrix[0].map((_, j) => Math.min(...matrix.map((row) => row[j])));
+      return {
+        ...table,
+        ...uncovered,
+        stage: "column-reduction",
+        matrix: matrix.map((row) => row.map((value, j) => clean(value - minima[j]))),
+        note: `Subtract each column's minimum: ${minima.map(decimalToFraction).join(", ")}.`,
+      };
+    }
+    case "column-reduction":
+    case "adjustment": {
+      const assignment = maximumMatching(matrix);
+      const lines = assignment.filter((col) => col !== null).length;
+      if (lines === n) {
+        return {
+          ...table,
+          ...uncovered,
+          stage: "optimal",
+          assignment,
+          note: `${n} independent zeros: every row can be assigned at zero reduced cost.`,
+        };
+      }
+      return {
+        ...table,
+        ...minimumCover(matrix, assignment),
+        stage: "cover",
+        assignment,
+        note: `${lines} lines cover every zero, fewer than ${n}, so the matrix must be adjusted.`,
+      };
+    }
+    case "cover": {
+      const { coveredRows, coveredCols } = table;
+      const smallest = Math.min(
+        ...matrix.flatMap((row, i) => row.filter((_, j) => !coveredRows[i] && !coveredCols[j]))
+      );
+      return {
+        ...table,
+        stage: "adjustment",
+        matrix: matrix.map((row, i) =>
+          row.map((value, j) => {
+            if (!coveredRows[i] && !coveredCols[j]) return clean(value - smallest);
+            if (coveredRows[i] && coveredCols[j]) return clean(value + smallest);
+            return value;
+          })
+        ),
+        assignment: matrix.map(() => null),
+        note: `Subtract ${decimalToFraction(smallest)}, the smallest uncovered entry, from every uncovered entry and add it where two lines cross.`,
+      };
+    }
+    default:
+      return table;
+  }
+};
+
+// Run every stage until the assignment is optimal, keeping each table along the way
+export const solveAssignment = (table: HungarianTable): HungarianTable[] => {
+  const history = [table];
+  let current = table;
+  // every adjustment uncovers a new zero, so the optimal stage is always reached
+  while (current.stage !== "optimal") {
+    current = nextHungarianStep(current);
+    history.push(current);
+  }
+  return history;
+};
+
+// Pairs of the original problem (dummies dropped) with their costs, and the total
+export const assignmentResult = (table: HungarianTable) => {
+  const pairs = table.assignment.flatMap((col, row) =>
+    col !== null && row < table.rows && col < table.cols ? [{ row, col, cost: table.problem.costs[row][col] }] : []
+  );
+  return { pairs, total: pairs.reduce((sum, pair) => sum + pair.cost, 0) };
+};
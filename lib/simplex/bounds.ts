@@ -0,0 +1,109 @@
+import { Arithmetic } from "./arithmetic";
+import { boundsOf, decimalToFraction, modelConstraintNames, modelVariableNames } from "./format";
+import { LPModel, VariableBound, VariableSubstitution } from "./types";
+
+// Bounds of the LP relaxation: binary variables are restricted to [0, 1]
+export const relaxationBounds = (model: LPModel): VariableBound[] =>
+  boundsOf(model).map(({ lower, upper }, i) =>
+    model.kinds?.[i] === "binary" ? { lower: Math.max(lower, 0), upper: Math.min(upper, 1) } : { lower, upper }
+  );
+
+const isNonNegative = ({ lower, upper }: VariableBound): boolean => lower === 0 && upper === Infinity;
+
+// Coefficients of the user's variables spread over the substituted columns
+export const substitutedCoefficients = (
+  coeffs: readonly number[],
+  substitution: readonly VariableSubstitution[]
+): number[] => substitution.flatMap(({ columns }, i) => columns.map(({ coefficient }) => coefficient * coeffs[i]));
+
+// Rewrite every variable as nonnegative columns so the simplex methods apply unchanged:
+//   lower ≤ x         x = lower + x'     (and x' ≤ upper - lower when upper is finite)
+//           x ≤ upper  x = upper - x'
+//   free              x = x⁺ - x⁻
+export const substituteBounds = (model: LPModel): { model: LPModel; substitution: VariableSubstitution[] } => {
+  const names = modelVariableNames(model);
+  const bounds = relaxationBounds(model);
+
+  const substitution: VariableSubstitution[] = names.map((name, i) => {
+    const { lower, upper } = bounds[i];
+    if (isNonNegative(bounds[i])) return { name, offset: 0, columns: [{ name, coefficient: 1 }] };
+    if (lower !== -Infinity) return { name, offset: lower, columns: [{ name: `${name}'`, coefficient: 1 }] };
+    if (upper !== Infinity) return { name, offset: upper, columns: [{ name: `${name}'`, coefficient: -1 }] };
+    return { name, offset: 0, columns: [{ name: `${name}⁺`, coefficient: 1 }, { name: `${name}⁻`, coefficient: -1 }] };
+  });
+
+  const expand = (coeffs: readonly number[]) => substitutedCoefficients(coeffs, substitution);
+  const shift = (coeffs: readonly number[]) =>
+    substitution.reduce((sum, { offset }, i) => sum + coeffs[i] * offset, 0);
+
+  const constraintsMatrix = model.constraintsMatrix.map(expand);
+  const rhs = model.rhs.map((value, i) => value - shift(model.constraintsMatrix[i]));
+  const constraintTypes = [...model.constraintTypes];
+  const constraintNames = modelConstraintNames(model);
+
+  // a finite range becomes an extra ≤ row on the shifted column
+  let column = 0;
+  substitution.forEach(({ columns }, i) => {
+    const { lower, upper } = bounds[i];
+    if (lower !== -Infinity && upper !== Infinity && !isNonNegative(bounds[i])) {
+      constraintsMatrix.push(substitution.flatMap((s) => s.columns).map((_, j) => (j === column ? 1 : 0)));
+      rhs.push(upper - lower);
+      constraintTypes.push("≤");
+      constraintNames.push(`${names[i]} bound`);
+    }
+    column += columns.length;
+  });
+
+  return {
+    model: {
+      objective: expand(model.objective),
+      constraintsMatrix,
+      rhs,
+      constraintTypes,
+      optType: model.optType,
+      variableNames: substitution.flatMap(({ columns }) => columns.map(({ name }) => name)),
+      // labels are only carried when the user gave some
+      ...(model.constraintNames ? { constraintNames } : {}),
+    },
+    substitution,
+  };
+};
+
+// Values of the user's variables from the values of the substituted columns
+export const originalValues = <T>(
+  ar: Arithmetic<T>,
+  substitution: readonly VariableSubstitution[],
+  values: Record<string, T>
+): Record<string, T> =>
+  Object.fromEntries(
+    substitution.map(({ name, offset, columns }) => [
+      name,
+      columns.reduce(
+        (sum, column) => ar.add(sum, ar.mul(ar.fromNumber(column.coefficient), values[column.name] ?? ar.zero)),
+        ar.fromNumber(offset)
+      ),
+    ])
+  );
+
+// Objective value of the original model at the given values of its variables
+export const originalObjectiveValue = <T>(
+  ar: Arithmetic<T>,
+  objective: readonly number[],
+  substitution: readonly VariableSubstitution[],
+  values: Record<string, T>
+): T =>
+  substitution.reduce(
+    (sum, { name }, i) => ar.add(sum, ar.mul(ar.fromNumber(objective[i]), values[name] ?? ar.zero)),
+    ar.zero
+  );
+
+// "x2 = x2⁺ - x2⁻", "x3 = 2 + x3'"; variables that are already nonnegative are skipped
+export const formatSubstitution = (substitution: readonly VariableSubstitution[]): string[] =>
+  substitution
+    .filter(({ name, offset, columns }) => offset !== 0 || columns.length !== 1 || columns[0].name !== name)
+    .map(({ name, offset, columns }) => {
+      const terms = columns.map(({ name: column, coefficient }, i) =>
+        i === 0 && offset === 0 ? `${coefficient < 0 ? "-" : ""}${column}` : `${coefficient < 0 ? "-" : "+"} ${column}`
+      );
+      return `${name} = ${offset !== 0 ? `${decimalToFraction(offset)} ` : ""}${terms.join(" ")}`;
+    });
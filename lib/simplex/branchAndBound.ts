@@ -0,0 +1,205 @@
+import { Arithmetic, BigM } from "./arithmetic";
+import { originalObjectiveValue, originalValues, relaxationBounds, substituteBounds } from "./bounds";
+import { decimalToFraction, modelVariableNames } from "./format";
+import { solve } from "./solver";
+import { arithmeticOf, basicSolution, createBigMTable, withPivotRule } from "./tableau";
+import { LPModel, PivotRule, SolveStatus, Tableau, VariableBound } from "./types";
+
+export const MAX_NODES = 200;
+
+// values closer than this to an integer count as integral
+const INTEGER_TOLERANCE = 1e-6;
+
+// pending: waiting to be solved; branched: split on a fractional variable; the rest are fathomed.
+// An integral node beat the incumbent when it was solved; the state's incumbent is the best of them.
+export type NodeOutcome = "pending" | "branched" | "integral" | "bound" | "infeasible" | "unbounded" | "error";
+
+export type BranchNode<T> = {
+  id: number;
+  parent: number | null;
+  // the constraint added by the parent, e.g. "x1 ≤ 2"; null at the root
+  branch: string | null;
+  bounds: VariableBound[];
+  // optimistic estimate of the best objective in this subtree: the parent's relaxation value until solved
+  bound: number;
+  // LP relaxation, solved with the Big-M method so any mix of constraint types works
+  tableau: Tableau<BigM<T>> | null;
+  values: Record<string, BigM<T>> | null;
+  objective: number | null;
+  outcome: NodeOutcome;
+  // why the node was pruned or which variable it was branched on
+  note: string;
+  children: number[];
+};
+
+export type BranchAndBoundState<T> = {
+  model: LPModel;
+  base: Arithmetic<T>;
+  pivotRule: PivotRule;
+  nodes: BranchNode<T>[];
+  // pending node ids; the last one is solved next, so the search is depth first
+  open: number[];
+  incumbent: number | null;
+  // the first node whose relaxation stopped short; its subtree is unexplored, so the search can't prove
+  // the incumbent optimal and ends with that relaxation's status instead
+  stopped: { node: number; status: SolveStatus } | null;
+  // set once the search is over
+  status: SolveStatus | null;
+};
+
+const isIntegerVariable = (model: LPModel, index: number): boolean => (model.kinds?.[index] ?? "continuous") !== "continuous";
+
+const improves = (model: LPModel, value: number, than: number): boolean =>
+  model.optType === "Maximize" ? value > than + INTEGER_TOLERANCE : value < than - INTEGER_TOLERANCE;
+
+export const startBranchAndBound = <T>(model: LPModel, base: Arithmetic<T>, pivotRule: PivotRule): BranchAndBoundState<T> => ({
+  model,
+  base,
+  pivotRule,
+  nodes: [{
+    id: 0,
+    parent: null,
+    branch: null,
+    bounds: relaxationBounds(model),
+    bound: model.optType === "Maximize" ? Infinity : -Infinity,
+    tableau: null,
+    values: null,
+    objective: null,
+    outcome: "pending",
+    note: "",
+    children: [],
+  }],
+  open: [0],
+  incumbent: null,
+  stopped: null,
+  status: null,
+});
+
+// Status once every open node is done
+const finalStatus = <T>(state: BranchAndBoundState<T>): SolveStatus =>
+  state.stopped?.status ?? (state.incumbent === null ? SolveStatus.Infeasible : SolveStatus.Optimal);
+
+const incumbentObjective = <T>(state: BranchAndBoundState<T>): number | null =>
+  state.incumbent === null ? null : state.nodes[state.incumbent].objective;
+
+// Best objective still reachable: the incumbent, or an open node's estimate if that's better
+export const bestBound = <T>(state: BranchAndBoundState<T>): number | null => {
+  const estimates = state.open.map((id) => state.nodes[id].bound);
+  const incumbent = incumbentObjective(state);
+  if (incumbent !== null) estimates.push(incumbent);
+  if (estimates.length === 0) return null;
+  return state.model.optType === "Maximize" ? Math.max(...estimates) : Math.min(...estimates);
+};
+
+// Relative gap between the best bound and the incumbent; 0 once the incumbent is proven optimal
+export const optimalityGap = <T>(state: BranchAndBoundState<T>): number | null => {
+  const incumbent = incumbentObjective(state);
+  const bound = bestBound(state);
+  if (incumbent === null || bound === null) return null;
+  return Math.abs(bound - incumbent) / Math.max(1, Math.abs(incumbent));
+};
+
+// Solve the next open node: prune it, accept it as the incumbent or branch on its first fractional variable
+export const branchAndBoundStep = <T>(state: BranchAndBoundState<T>): BranchAndBoundState<T> => {
+  if (state.status !== null) return state;
+  if (state.open.length === 0) return { ...state, status: finalStatus(state) };
+  if (state.nodes.filter((node) => node.outcome !== "pending").length >= MAX_NODES) {
+    return { ...state, status: SolveStatus.IterationLimit };
+  }
+
+  const { model } = state;
+  const open = state.open.slice(0, -1);
+  const node = state.nodes[state.open[state.open.length - 1]];
+  const nodes = state.nodes.slice();
+  const finish = (update: Partial<BranchNode<T>>, rest: Partial<BranchAndBoundState<T>> = {}): BranchAndBoundState<T> => {
+    nodes[node.id] = { ...node, ...update };
+    const next = { ...state, nodes, open, ...rest };
+    if (next.status === null && next.open.length === 0) next.status = finalStatus(next);
+    return next;
+  };
+
+  const incumbent = incumbentObjective(state);
+  if (incumbent !== null && !improves(model, node.bound, incumbent)) {
+    return finish({ outcome: "bound", note: "Its bound can't beat the incumbent" });
+  }
+  if (node.bounds.some(({ lower, upper }) => lower > upper)) {
+    return finish({ outcome: "infeasible", note: "Conflicting bounds" });
+  }
+
+  const { model: relaxation, substitution } = substituteBounds({ ...model, bounds: node.bounds });
+  const result = solve(withPivotRule(createBigMTable(relaxation, state.base), state.pivotRule));
+  const tableau = result.tableau;
+
+  if (result.status === SolveStatus.Infeasible) {
+    return finish({ tableau, outcome: "infeasible", note: "LP relaxation is infeasible" });
+  }
+  if (result.status === SolveStatus.Unbounded) {
+    // an unbounded relaxation leaves nothing to bound the search with
+    return finish(
+      { tableau, outcome: "unbounded", note: "LP relaxation is unbounded" },
+      { status: SolveStatus.Unbounded }
+    );
+  }
+  if (result.status !== SolveStatus.Optimal) {
+    return finish(
+      { tableau, outcome: "error", note: result.error ?? `LP relaxation stopped: ${result.status}` },
+      { stopped: state.stopped ?? { node: node.id, status: result.status } }
+    );
+  }
+
+  const ar = arithmeticOf(tableau);
+  const values = originalValues(ar, substitution, basicSolution(tableau));
+  const objective = ar.toNumber(originalObjectiveValue(ar, model.objective, substitution, values));
+  const solved = { tableau, values, objective, bound: objective };
+
+  if (incumbent !== null && !improves(model, objective, incumbent)) {
+    return finish({ ...solved, outcome: "bound", note: `Z = ${decimalToFraction(objective)} can't beat the incumbent` });
+  }
+
+  const names = modelVariableNames(model);
+  const fractional = names.findIndex((name, i) => {
+    const value = ar.toNumber(values[name]);
+    return isIntegerVariable(model, i) && Math.abs(value - Math.round(value)) > INTEGER_TOLERANCE;
+  });
+
+  if (fractional === -1) {
+    return finish({ ...solved, outcome: "integral", note: "Integral solution, new incumbent" }, { incumbent: node.id });
+  }
+
+  // x ≤ ⌊v⌋ and x ≥ ⌈v⌉; the ≤ child is pushed last so it is explored first
+  const name = names[fractional];
+  const value = ar.toNumber(values[name]);
+  const child = (bound: VariableBound, branch: string): BranchNode<T> => ({
+    id: nodes.length,
+    parent: node.id,
+    branch,
+    bounds: node.bounds.map((b, i) => (i === fractional ? bound : b)),
+    bound: objective,
+    tableau: null,
+    values: null,
+    objective: null,
+    outcome: "pending",
+    note: "",
+    children: [],
+  });
+  const current = node.bounds[fractional];
+  const up = child({ ...current, lower: Math.ceil(value) }, `${name} ≥ ${Math.ceil(value)}`);
+  nodes.push(up);
+  const down = child({ ...current, upper: Math.floor(value) }, `${name} ≤ ${Math.floor(value)}`);
+  nodes.push(down);
+  open.push(up.id, down.id);
+
+  return finish({
+    ...solved,
+    outcome: "branched",
+    note: `${name} = ${decimalToFraction(value)} is fractional`,
+    children: [down.id, up.id],
+  });
+};
+
+// Run the search to the end, or until MAX_NODES nodes have been solved
+export const solveBranchAndBound = <T>(state: BranchAndBoundState<T>): BranchAndBoundState<T> => {
+  let current = state;
+  while (current.status === null) current = branchAndBoundStep(current);
+  return current;
+};
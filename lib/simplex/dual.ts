@@ -0,0 +1,122 @@
+import { Arithmetic, compare } from "./arithmetic";
+import { modelConstraintNames } from "./format";
+import { choosePivot, nextIteration, optimalStatus, repeatsBasis } from "./solver";
+import { arithmeticOf, createInitialSimplexTable, performPivot } from "./tableau";
+import { LPModel, SolveStatus, StepResult, Tableau } from "./types";
+
+export type DualPivotChoice =
+  | { kind: "feasible" }
+  | { kind: "infeasible"; row: number; leaving: string }
+  | { kind: "pivot"; column: number; row: number; entering: string; leaving: string; degenerate: boolean };
+
+// The original row behind each row of the ≤ form, and the sign it was multiplied by: ≥ rows are
+// multiplied by -1 and = rows become a ≤ and a ≥ pair
+export const lessOrEqualRows = (model: LPModel): { row: number; sign: 1 | -1 }[] =>
+  model.constraintTypes.flatMap((type, row) => [
+    ...(type !== "≥" ? [{ row, sign: 1 as const }] : []),
+    ...(type !== "≤" ? [{ row, sign: -1 as const }] : []),
+  ]);
+
+// Rewrite every row as ≤
+export const toLessOrEqualForm = (model: LPModel): LPModel => {
+  const labels = modelConstraintNames(model);
+  const rows = lessOrEqualRows(model);
+
+  return {
+    ...model,
+    constraintsMatrix: rows.map(({ row, sign }) => model.constraintsMatrix[row].map((v) => (sign < 0 ? -v : v))),
+    rhs: rows.map(({ row, sign }) => (sign < 0 ? -model.rhs[row] : model.rhs[row])),
+    constraintTypes: rows.map(() => "≤"),
+    ...(model.constraintNames
+      ? {
+          constraintNames: rows.map(({ row, sign }) =>
+            model.constraintTypes[row] === "=" ? `${labels[row]} (${sign < 0 ? "≥" : "≤"})` : labels[row]
+          ),
+        }
+      : {}),
+  };
+};
+
+// Slack basis for the ≤ form; negative right-hand sides are left for the dual simplex to repair
+export const createDualSimplexTable = <T>(model: LPModel, ar: Arithmetic<T>): Tableau<T> =>
+  createInitialSimplexTable(toLessOrEqualForm(model), ar);
+
+export const isPrimalFeasible = <T>(tableau: Tableau<T>): boolean => {
+  const ar = arithmeticOf(tableau);
+  return tableau.rows.every((row) => ar.sign(row[row.length - 1]) >= 0);
+};
+
+// Every Cj - Zj already satisfies the optimality condition
+export const isDualFeasible = <T>(tableau: Tableau<T>): boolean => {
+  const ar = arithmeticOf(tableau);
+  const direction = tableau.sense === "max" ? 1 : -1;
+  return tableau.cjMinusZj.slice(0, tableau.variables.length).every((v) => direction * ar.sign(v) <= 0);
+};
+
+// Leaving row by the most negative RHS, entering column by the dual ratio test on Cj - Zj
+export const chooseDualPivot = <T>(tableau: Tableau<T>): DualPivotChoice => {
+  const ar = arithmeticOf(tableau);
+  const { rows, variables, basis, sense } = tableau;
+
+  let row = -1;
+  rows.forEach((r, i) => {
+    const rhs = r[r.length - 1];
+    if (ar.sign(rhs) < 0 && (row === -1 || compare(ar, rhs, rows[row][rows[row].length - 1]) < 0)) row = i;
+  });
+  if (row === -1) return { kind: "feasible" };
+
+  const leaving = basis[row];
+
+  // Reduced costs in "max" orientation, so they're all ≤ 0 on a dual feasible tableau
+  const reduced = tableau.cjMinusZj.slice(0, variables.length).map((v) => (sense === "max" ? v : ar.neg(v)));
+
+  let column = -1;
+  let minRatio: T | null = null;
+  for (let j = 0; j < variables.length; j++) {
+    const entry = rows[row][j];
+    if (ar.sign(entry) >= 0) continue;
+    const ratio = ar.div(reduced[j], entry);
+    // ties keep the first column, which is also the smallest subscript for Bland's rule
+    if (minRatio === null || compare(ar, ratio, minRatio) < 0) {
+      minRatio = ratio;
+      column = j;
+    }
+  }
+
+  // a negative RHS with no negative entry in its row can never be repaired
+  if (column === -1) return { kind: "infeasible", row, leaving };
+  // a zero dual ratio leaves the objective value unchanged
+  return { kind: "pivot", column, row, entering: variables[column], leaving, degenerate: ar.sign(minRatio!) === 0 };
+};
+
+// One dual simplex iteration; once the basis is primal feasible this hands over to the primal simplex.
+// A dual pivot is refused while some Cj - Zj violates optimality, since the dual ratio test relies on it.
+export const nextDualIteration = <T>(tableau: Tableau<T>): StepResult<T> => {
+  const choice = chooseDualPivot(tableau);
+
+  if (choice.kind === "feasible") return nextIteration(tableau);
+  if (!isDualFeasible(tableau)) return { tableau, status: SolveStatus.NotDualFeasible, entering: null, leaving: null };
+  if (choice.kind === "infeasible") {
+    return { tableau, status: SolveStatus.Infeasible, entering: null, leaving: choice.leaving };
+  }
+
+  try {
+    const next = performPivot(tableau, choice.row, choice.column);
+    const done = isPrimalFeasible(next) && choosePivot(next).kind === "optimal";
+    return {
+      tableau: next,
+      status: repeatsBasis(next) ? SolveStatus.Cycling : done ? optimalStatus(next) : null,
+      entering: choice.entering,
+      leaving: choice.leaving,
+      degenerate: choice.degenerate,
+    };
+  } catch (err) {
+    return {
+      tableau,
+      status: SolveStatus.NumericalError,
+      entering: choice.entering,
+      leaving: choice.leaving,
+      error: (err as Error).message,
+    };
+  }
+};
@@ -0,0 +1,217 @@
+import { Arithmetic, compare, solveLinearSystem } from "./arithmetic";
+import { originalObjectiveValue, originalValues, substituteBounds } from "./bounds";
+import { lessOrEqualRows, toLessOrEqualForm } from "./dual";
+import { boundsOf, decimalToFraction, formatConstraints, formatLinearExpression, modelVariableNames, NON_NEGATIVE } from "./format";
+import { solve } from "./solver";
+import { arithmeticOf, basicSolution, constraintColumns, createBigMTable, objectiveValue, withPivotRule } from "./tableau";
+import { ConstraintType, LPModel, PivotRule, SolveStatus, Tableau, VariableBound } from "./types";
+
+const NON_POSITIVE: VariableBound = { lower: -Infinity, upper: 0 };
+const FREE: VariableBound = { lower: -Infinity, upper: Infinity };
+
+export type ShadowPrice<T> = {
+  constraint: string;
+  // the slack, surplus or artificial column the price was read from, or null when that column
+  // was dropped after Phase 1 and the price was recovered from the decision variable columns, or
+  // when the price combines the two rows an = constraint was split into
+  column: string | null;
+  value: T;
+};
+
+export type DualSolution<T> = {
+  prices: ShadowPrice<T>[];
+  // Σ bᵢyᵢ, and the primal Z it should equal at an optimum
+  dualObjective: T;
+  primalObjective: T;
+  strongDuality: boolean;
+};
+
+// The column each constraint owns in the tableau: one slack per row when it was started from the
+// plain ≤ form (createInitialSimplexTable, the dual simplex), otherwise the standard form's columns
+const ownColumns = <T>(tableau: Tableau<T>, model: LPModel): { name: string; sign: 1 | -1 }[] => {
+  const m = model.constraintTypes.length;
+  const plain = model.constraintTypes.every((type) => type === "≤") && tableau.variables.includes(`s${m}`);
+  return plain ? model.rhs.map((_, i) => ({ name: `s${i + 1}`, sign: 1 })) : constraintColumns(model);
+};
+
+// Dual values of an optimal tableau. `model` is the model the tableau was built from; the Zj entry
+// under a constraint's own column is its price for the "max" tableau, so Minimize problems (maximized
+// with a negated objective) flip the sign back. Constraints whose artificial column is gone satisfy
+// Zj = Σ yᵢaᵢⱼ on the decision variable columns, which is solved for them instead.
+export const dualSolution = <T>(tableau: Tableau<T>, model: LPModel): DualSolution<T> => {
+  const ar = arithmeticOf(tableau);
+  const { variables, zj } = tableau;
+  const minimize = model.optType === "Minimize";
+  const user = (v: T) => (minimize ? ar.neg(v) : v);
+
+  const columns = ownColumns(tableau, model).map(({ name, sign }) => {
+    const column = variables.indexOf(name);
+    return column === -1 ? null : { name, value: sign < 0 ? ar.neg(zj[column]) : zj[column] };
+  });
+
+  const missing = columns.map((column, i) => (column === null ? i : -1)).filter((i) => i !== -1);
+  const recovered = missing.length === 0 ? [] : solveLinearSystem(
+    ar,
+    model.objective.map((_, j) => missing.map((i) => ar.fromNumber(model.constraintsMatrix[i][j]))),
+    model.objective.map((_, j) =>
+      columns.reduce(
+        (rest, column, i) => (column === null ? rest : ar.sub(rest, ar.mul(ar.fromNumber(model.constraintsMatrix[i][j]), column.value))),
+        zj[j],
+      ),
+    ),
+    missing.length,
+  );
+
+  const labels = formatConstraints(model);
+  const prices = columns.map((column, i) => ({
+    constraint: labels[i],
+    column: column?.name ?? null,
+    value: user(column?.value ?? recovered[missing.indexOf(i)]),
+  }));
+
+  const dualObjective = prices.reduce((sum, { value }, i) => ar.add(sum, ar.mul(ar.fromNumber(model.rhs[i]), value)), ar.zero);
+  const primalObjective = user(objectiveValue(tableau));
+
+  return { prices, dualObjective, primalObjective, strongDuality: compare(ar, dualObjective, primalObjective) === 0 };
+};
+
+// Dual values of an optimal dual simplex tableau, which was built from the ≤ form of `model`. Each
+// original row's price is the sum of the prices of its ≤ rows, negated for rows multiplied by -1.
+export const lessOrEqualDualSolution = <T>(tableau: Tableau<T>, model: LPModel): DualSolution<T> => {
+  const ar = arithmeticOf(tableau);
+  const { prices, primalObjective } = dualSolution(tableau, toLessOrEqualForm(model));
+  const rows = lessOrEqualRows(model);
+  const labels = formatConstraints(model);
+
+  const originalPrices = model.rhs.map((_, i) => {
+    const parts = rows.flatMap(({ row, sign }, k) => (row === i ? [{ sign, price: prices[k] }] : []));
+    return {
+      constraint: labels[i],
+      column: parts.length === 1 ? parts[0].price.column : null,
+      value: parts.reduce((sum, { sign, price }) => (sign < 0 ? ar.sub(sum, price.value) : ar.add(sum, price.value)), ar.zero),
+    };
+  });
+
+  const dualObjective = originalPrices.reduce((sum, { value }, i) => ar.add(sum, ar.mul(ar.fromNumber(model.rhs[i]), value)), ar.zero);
+  return { prices: originalPrices, dualObjective, primalObjective, strongDuality: compare(ar, dualObjective, primalObjective) === 0 };
+};
+
+export type DualFormulation = {
+  // the primal with finite bounds written as rows, so each variable is ≥ 0, ≤ 0 or free
+  primal: LPModel;
+  dual: LPModel;
+};
+
+// ≥ 0 when the lower bound is nonnegative, ≤ 0 when the upper bound is nonpositive, free otherwise;
+// any bound the sign restriction doesn't already imply becomes a constraint row
+export const boundsAsConstraints = (model: LPModel): LPModel => {
+  const names = modelVariableNames(model);
+  const constraintsMatrix = model.constraintsMatrix.map((row) => [...row]);
+  const rhs = [...model.rhs];
+  const constraintTypes = [...model.constraintTypes];
+  const addRow = (j: number, type: ConstraintType, value: number) => {
+    constraintsMatrix.push(names.map((_, k) => (k === j ? 1 : 0)));
+    rhs.push(value);
+    constraintTypes.push(type);
+  };
+
+  const bounds = boundsOf(model).map(({ lower, upper }, j) => {
+    if (lower >= 0) {
+      if (lower > 0) addRow(j, "≥", lower);
+      if (upper !== Infinity) addRow(j, "≤", upper);
+      return NON_NEGATIVE;
+    }
+    if (upper <= 0) {
+      if (upper < 0) addRow(j, "≤", upper);
+      if (lower !== -Infinity) addRow(j, "≥", lower);
+      return NON_POSITIVE;
+    }
+    if (lower !== -Infinity) addRow(j, "≥", lower);
+    if (upper !== Infinity) addRow(j, "≤", upper);
+    return FREE;
+  });
+
+  return { ...model, constraintsMatrix, rhs, constraintTypes, bounds, variableNames: names, kinds: undefined };
+};
+
+// Dual variable y_i per row, dual constraint per primal variable. For a Maximize primal a ≤ row gives
+// y_i ≥ 0, a ≥ row y_i ≤ 0 and an = row a free y_i, while x_j ≥ 0, ≤ 0 or free makes constraint j
+// ≥, ≤ or =. A Minimize primal mirrors every rule.
+export const formulateDual = (model: LPModel): DualFormulation => {
+  const primal = boundsAsConstraints(model);
+  const maximize = primal.optType === "Maximize";
+  const rowSign: Record<ConstraintType, VariableBound> = {
+    "≤": maximize ? NON_NEGATIVE : NON_POSITIVE,
+    "≥": maximize ? NON_POSITIVE : NON_NEGATIVE,
+    "=": FREE,
+  };
+  const columnType = ({ lower, upper }: VariableBound): ConstraintType => {
+    if (lower === -Infinity && upper === Infinity) return "=";
+    return (lower === 0) === maximize ? "≥" : "≤";
+  };
+
+  const dual: LPModel = {
+    objective: [...primal.rhs],
+    constraintsMatrix: primal.objective.map((_, j) => primal.constraintsMatrix.map((row) => row[j])),
+    rhs: [...primal.objective],
+    constraintTypes: boundsOf(primal).map(columnType),
+    optType: maximize ? "Minimize" : "Maximize",
+    bounds: primal.constraintTypes.map((type) => rowSign[type]),
+    variableNames: primal.rhs.map((_, i) => `y${i + 1}`),
+  };
+
+  return { primal, dual };
+};
+
+export type ModelSolution = {
+  status: SolveStatus;
+  // values of the model's own variables, in order; null unless optimal
+  values: number[] | null;
+  objective: number | null;
+};
+
+// Solve any model with the Big-M method, so every mix of rows and bounds is accepted
+export const solveModel = <T>(model: LPModel, base: Arithmetic<T>, pivotRule: PivotRule): ModelSolution => {
+  const { model: substituted, substitution } = substituteBounds(model);
+  const result = solve(withPivotRule(createBigMTable(substituted, base), pivotRule));
+  if (result.status !== SolveStatus.Optimal) return { status: result.status, values: null, objective: null };
+
+  const ar = arithmeticOf(result.tableau);
+  const values = originalValues(ar, substitution, basicSolution(result.tableau));
+  return {
+    status: result.status,
+    values: substitution.map(({ name }) => ar.toNumber(values[name])),
+    objective: ar.toNumber(originalObjectiveValue(ar, model.objective, substitution, values)),
+  };
+};
+
+export type SlacknessCondition = {
+  // e.g. "y2 · (18 - (3x1 + 2x2)) = 3/2 · 0 = 0"
+  description: string;
+  holds: boolean;
+};
+
+// tolerance for products of values from two separate float solves
+const SLACKNESS_TOLERANCE = 1e-6;
+
+// yᵢ · (bᵢ - aᵢx) = 0 for every primal row and xⱼ · (aⱼᵀy - cⱼ) = 0 for every primal variable
+export const complementarySlackness = (formulation: DualFormulation, x: number[], y: number[]): SlacknessCondition[] => {
+  const { primal, dual } = formulation;
+  const xNames = modelVariableNames(primal);
+  const yNames = modelVariableNames(dual);
+  const dot = (coeffs: readonly number[], values: number[]) => coeffs.reduce((sum, v, k) => sum + v * values[k], 0);
+  const minus = (v: number) => (v < 0 ? `+ ${decimalToFraction(-v)}` : `- ${decimalToFraction(v)}`);
+  const condition = (variable: string, value: number, slack: number, expression: string): SlacknessCondition => ({
+    description: `${variable} · (${expression}) = ${decimalToFraction(value)} · ${decimalToFraction(slack)} = ${decimalToFraction(value * slack)}`,
+    holds: Math.abs(value * slack) < SLACKNESS_TOLERANCE,
+  });
+
+  return [
+    ...primal.constraintsMatrix.map((row, i) =>
+      condition(yNames[i], y[i], primal.rhs[i] - dot(row, x), `${decimalToFraction(primal.rhs[i])} - (${formatLinearExpression(row, xNames)})`)
+    ),
+    ...dual.constraintsMatrix.map((row, j) =>
+      condition(xNames[j], x[j], dot(row, y) - dual.rhs[j], `${formatLinearExpression(row, yNames)} ${minus(dual.rhs[j])}`)
+    ),
+  ];
+};
@@ -0,0 +1,129 @@
+import { Fraction } from "fraction.js";
+import { ExactValues, fractionFromNumber } from "./arithmetic";
+
+// A single coefficient cell: integers, decimals, fractions, mixed numbers and simple arithmetic
+//   3   -2.5   3/4   1 1/2   -(2*3 - 1)/4
+// Evaluated with exact rationals, so "1/3" stays a third rather than 0.333…
+
+// An empty cell stands for zero
+export type ExpressionResult =
+  | { ok: true; value: Fraction }
+  | { ok: false; message: string; column: number };
+
+// Thrown inside the evaluator and turned into the error result by evaluateExpression
+class ExpressionFailure {
+  constructor(readonly message: string, readonly column: number) {}
+}
+
+export const evaluateExpression = (text: string): ExpressionResult => {
+  let position = 0;
+
+  const fail = (message: string, at = position): never => {
+    throw new ExpressionFailure(message, at + 1);
+  };
+
+  const skipSpaces = () => {
+    while (position < text.length && /\s/.test(text[position])) position++;
+  };
+
+  const peek = (): string => {
+    skipSpaces();
+    return text[position] ?? "";
+  };
+
+  const describe = (): string => (position < text.length ? `"${text[position]}"` : "end of input");
+
+  // digits with at most one decimal point, exact as written
+  const readNumber = (): Fraction => {
+    const found = /^(\d+(\.\d*)?|\.\d+)/.exec(text.slice(position))?.[0];
+    if (!found) return fail(`Expected a number but found ${describe()}.`);
+    position += found.length;
+    if (text[position] === ".") fail("A number can only have one decimal point.");
+    return new Fraction(found);
+  };
+
+  const divide = (a: Fraction, b: Fraction, at: number): Fraction => (b.equals(0) ? fail("Division by zero.", at) : a.div(b));
+
+  // "1 1/2": a whole number, a space, then a fraction of two whole numbers
+  const readMixedNumber = (): Fraction => {
+    const mixed = /^(\d+)\s+(\d+)\s*\/\s*(\d+)/.exec(text.slice(position));
+    if (!mixed) return readNumber();
+    const start = position;
+    position += mixed[0].length;
+    if (/^[\d.]/.test(text[position] ?? "")) fail(`Unexpected ${describe()}.`);
+    return new Fraction(mixed[1]).add(divide(new Fraction(mixed[2]), new Fraction(mixed[3]), start));
+  };
+
+  const primary = (): Fraction => {
+    const next = peek();
+    if (next === "(") {
+      position++;
+      const value = sum();
+      if (peek() !== ")") fail(`Expected ")" but found ${describe()}.`);
+      position++;
+      return value;
+    }
+    return readMixedNumber();
+  };
+
+  const unary = (): Fraction => {
+    const next = peek();
+    if (next === "-" || next === "+" || next === "−") {
+      position++;
+      const value = unary();
+      return next === "+" ? value : value.neg();
+    }
+    return primary();
+  };
+
+  const product = (): Fraction => {
+    let value = unary();
+    for (let next = peek(); next === "*" || next === "×" || next === "/" || next === "÷"; next = peek()) {
+      const at = position++;
+      const operand = unary();
+      value = next === "*" || next === "×" ? value.mul(operand) : divide(value, operand, at);
+    }
+    return value;
+  };
+
+  const sum = (): Fraction => {
+    let value = product();
+    for (let next = peek(); next === "+" || next === "-" || next === "−"; next = peek()) {
+      position++;
+      const operand = product();
+      value = next === "+" ? value.add(operand) : value.sub(operand);
+    }
+    return value;
+  };
+
+  if (text.trim() === "") return { ok: true, value: new Fraction(0) };
+  try {
+    const value = sum();
+    if (peek() !== "") fail(`Unexpected ${describe()}.`);
+    return { ok: true, value };
+  } catch (e) {
+    if (e instanceof ExpressionFailure) return { ok: false, message: e.message, column: e.column };
+    throw e;
+  }
+};
+
+// The cells whose floats would be read back as a different rational, for LPModel.exactValues. Cells that
+// share a float but not a value can't be told apart by it, so that float is left to the guess.
+export const exactCellValues = (cells: readonly string[]): ExactValues => {
+  const seen = new Map<string, Fraction>();
+  const ambiguous = new Set<string>();
+  cells.forEach((text) => {
+    const result = evaluateExpression(text);
+    if (!result.ok) return;
+    const value = result.value.abs();
+    const key = String(value.valueOf());
+    const other = seen.get(key);
+    if (other && !other.equals(value)) ambiguous.add(key);
+    else seen.set(key, value);
+  });
+  return Object.fromEntries(
+    [...seen]
+      .filter(([key, value]) => !ambiguous.has(key) && !fractionFromNumber(Number(key)).equals(value))
+      .map(([key, value]) => [key, value.toFraction()])
+  );
+};
@@ -0,0 +1,177 @@
+import { LPModel, VariableBound } from "./types";
+
+// Convert a decimal to a display fraction using continued fractions
+export const decimalToFraction = (decimal: number): string => {
+  // Handle special cases
+  if (decimal === Infinity) return "∞";
+  if (decimal === -Infinity) return "-∞";
+  if (!Number.isFinite(decimal)) return "NaN";
+  if (decimal === 0) return "0";
+  
+  // Handle very small numbers that should be treated as zero
+  if (Math.abs(decimal) < 1e-10) return "0";
+  
+  // Handle negative numbers
+  const isNegative = decimal < 0;
+  const absDecimal = Math.abs(decimal);
+  
+  // If it's a whole number, return it directly
+  if (Math.abs(absDecimal - Math.round(absDecimal)) < 1e-10) {
+    return isNegative ? `-${Math.round(absDecimal)}` : `${Math.round(absDecimal)}`;
+  }
+  
+  // Convert to fraction using continued fractions algorithm
+  const tolerance = 1.0E-10;
+  let h1 = 1, h2 = 0, k1 = 0, k2 = 1;
+  let b = absDecimal;
+  let iterations = 0;
+  const maxIterations = 50; // Prevent infinite loops
+  
+  while (iterations < maxIterations) {
+    const a = Math.floor(b);
+    let aux = h1;
+    h1 = a * h1 + h2;
+    h2 = aux;
+    aux = k1;
+    k1 = a * k1 + k2;
+    k2 = aux;
+    
+    // Check if we've found a good approximation
+    if (k1 !== 0 && Math.abs(absDecimal - h1 / k1) <= absDecimal * tolerance) {
+      break;
+    }
+    
+    // Prepare for next iteration
+    if (Math.abs(b - a) < tolerance) break;
+    b = 1 / (b - a);
+    if (!Number.isFinite(b)) break;
+    iterations++;
+  }
+  
+  // Handle edge cases
+  if (k1 === 0 || !Number.isFinite(h1) || !Number.isFinite(k1)) {
+    // Fall back to decimal representation with limited precision
+    return parseFloat(decimal.toFixed(6)).toString();
+  }
+  
+  // Simplify the fraction if possible
+  const gcd = (a: number, b: number): number => {
+    a = Math.abs(a);
+    b = Math.abs(b);
+    while (b !== 0) {
+      const temp = b;
+      b = a % b;
+      a = temp;
+    }
+    return a;
+  };
+  
+  const divisor = gcd(Math.abs(h1), Math.abs(k1));
+  const numerator = Math.abs(h1) / divisor;
+  const denominator = Math.abs(k1) / divisor;
+  
+  // Format the result
+  if (denominator === 1) {
+    return isNegative ? `-${numerator}` : `${numerator}`;
+  }
+  
+  // Check if the fraction is too complex, if so return decimal
+  if (denominator > 10000 || numerator > 10000) {
+    return parseFloat(decimal.toFixed(6)).toString();
+  }
+  
+  return isNegative ? `-${numerator}/${denominator}` : `${numerator}/${denominator}`;
+};
+
+// Render "3x1 - x2 + 1/2x3" style expressions, skipping zero coefficients
+export const formatLinearExpression = (coeffs: readonly number[], names: readonly string[]): string => {
+  const terms = coeffs
+    .map((coeff, index) => {
+      if (Math.abs(coeff) < 1e-10) return null; // Treat very small numbers as zero
+      const sign = coeff >= 0 ? "+" : "-";
+      const absCoeff = Math.abs(coeff);
+      const coeffStr = absCoeff === 1 ? "" : decimalToFraction(absCoeff);
+      // "3x1" but "3 chairs": only a letter with a subscript reads well run together with its coefficient
+      const separator = coeffStr !== "" && !/^[A-Za-z][\d'⁺⁻]*$/.test(names[index]) ? " " : "";
+      return `${sign} ${coeffStr}${separator}${names[index]}`;
+    })
+    .filter((t) => t !== null) as string[];
+
+  let expression = terms.join(" ");
+  if (expression.startsWith("+ ")) expression = expression.substring(2);
+  if (expression === "") expression = "0"; // Handle case where all coefficients are zero
+  return expression;
+};
+
+export const decisionVariableNames = (count: number): string[] =>
+  Array.from({ length: count }, (_, i) => `x${i + 1}`);
+
+export const modelVariableNames = (model: LPModel): string[] =>
+  model.variableNames ?? decisionVariableNames(model.objective.length);
+
+export const modelConstraintNames = (model: LPModel): string[] =>
+  model.rhs.map((_, i) => model.constraintNames?.[i] || `c${i + 1}`);
+
+// Variable names and constraint labels are letters, digits and _, so every model file format carries
+// them unchanged; "labour hours" has to be entered as labour_hours
+export const isIdentifier = (name: string): boolean => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+
+// Model text is read column by column in order of first appearance, objective first; when that isn't
+// the column order, writers spell out zero objective terms to keep it
+export const columnsAppearInOrder = (model: LPModel): boolean => {
+  const seen: number[] = [];
+  [model.objective, ...model.constraintsMatrix].forEach((row) =>
+    row.forEach((value, j) => {
+      if (value !== 0 && !seen.includes(j)) seen.push(j);
+    })
+  );
+  return seen.length === model.objective.length && seen.every((j, k) => j === k);
+};
+
+export const NON_NEGATIVE: VariableBound = { lower: 0, upper: Infinity };
+
+export const boundsOf = (model: LPModel): VariableBound[] =>
+  model.objective.map((_, i) => model.bounds?.[i] ?? NON_NEGATIVE);
+
+export const formatObjective = (model: LPModel, symbol: string = "Z"): string =>
+  `${model.optType} ${symbol} = ${formatLinearExpression(model.objective, modelVariableNames(model))}`;
+
+// Rows are prefixed with their labels when the model has any
+export const formatConstraints = (model: LPModel): string[] => {
+  const names = modelVariableNames(model);
+  const labels = modelConstraintNames(model);
+  return model.constraintsMatrix.map(
+    (row, i) =>
+      `${model.constraintNames ? `${labels[i]}: ` : ""}${formatLinearExpression(row, names)} ` +
+      `${model.constraintTypes[i] ?? "≤"} ${decimalToFraction(model.rhs[i])}`
+  );
+};
+
+export const formatNonNegativity = (names: readonly string[]): string[] => names.map((name) => `${name} ≥ 0`);
+
+// "x1 ≥ 0", "2 ≤ x3 ≤ 10", "x2 unrestricted" and so on
+export const formatBounds = (model: LPModel): string[] => {
+  const names = modelVariableNames(model);
+  return boundsOf(model).map(({ lower, upper }, i) => {
+    if (lower === -Infinity && upper === Infinity) return `${names[i]} unrestricted`;
+    if (lower === -Infinity) return `${names[i]} ≤ ${decimalToFraction(upper)}`;
+    if (upper === Infinity) return `${names[i]} ≥ ${decimalToFraction(lower)}`;
+    return `${decimalToFraction(lower)} ≤ ${names[i]} ≤ ${decimalToFraction(upper)}`;
+  });
+};
+
+// "x1 integer", "x2 binary"; continuous variables are skipped
+export const formatIntegrality = (model: LPModel): string[] => {
+  const names = modelVariableNames(model);
+  return (model.kinds ?? [])
+    .map((kind, i) => (kind === "continuous" ? null : `${names[i]} ${kind}`))
+    .filter((line): line is string => line !== null);
+};
+
+// Objective, constraints, sign restrictions and integrality, one line each
+export const formatEquations = (model: LPModel): string[] => [
+  formatObjective(model),
+  ...formatConstraints(model),
+  ...formatBounds(model),
+  ...formatIntegrality(model),
+];
@@ -0,0 +1,306 @@
+import { Arithmetic } from "./arithmetic";
+import { originalValues, substituteBounds } from "./bounds";
+import { decimalToFraction, formatBounds, formatConstraints, formatLinearExpression, modelVariableNames } from "./format";
+import { choosePivot, MAX_ITERATIONS, repeatsBasis } from "./solver";
+import {
+  arithmeticOf,
+  basicSolution,
+  computeZjAndCjMinusZj,
+  createInitialPhase1Table,
+  createTableau,
+  isArtificialColumn,
+  objectiveValue,
+  performPivot,
+} from "./tableau";
+import { ConstraintType, LPModel, PivotRule, SolveStatus, Tableau, VariableSubstitution } from "./types";
+
+// A soft constraint: coefficients · x + d⁻ - d⁺ = target, where the unwanted deviation is minimized.
+// "≥" goals penalize falling short (d⁻), "≤" goals overshooting (d⁺) and "=" goals both.
+export type Goal = {
+  coefficients: number[];
+  type: ConstraintType;
+  target: number;
+  // 1 is the most important level; only used by preemptive goal programming
+  priority: number;
+  weight: number;
+};
+
+// Preemptive goals are met in priority order; weighted goals trade off in one objective
+export type GoalMode = "preemptive" | "weighted";
+
+export type GoalProgram = {
+  // hard constraints, variable bounds and names; the objective row is not used
+  model: LPModel;
+  goals: Goal[];
+  mode: GoalMode;
+};
+
+// Lexicographic tableau: one Cj / Zj / Cj - Zj row per level over the same constraint rows and basis
+export type GoalTableau<T> = {
+  levels: Tableau<T>[];
+  labels: string[];
+  // level 0 minimizes the artificial variables of ≥ and = hard constraints, like Phase 1
+  hard: boolean;
+  // the level being minimized; the levels before it are already at their optimum
+  current: number;
+  substitution: VariableSubstitution[];
+};
+
+export type GoalStepResult<T> = {
+  goal: GoalTableau<T>;
+  status: SolveStatus | null;
+  entering: string | null;
+  leaving: string | null;
+  degenerate?: boolean;
+  error?: string;
+};
+
+export type GoalSolveResult<T> = {
+  status: SolveStatus;
+  goal: GoalTableau<T>;
+  history: GoalTableau<T>[];
+  iterations: number;
+  error?: string;
+};
+
+// How one goal came out at the final tableau
+export type GoalOutcome<T> = {
+  value: T;
+  under: T;
+  over: T;
+  // the unwanted deviation is zero
+  achieved: boolean;
+};
+
+export const deviationNames = (goal: number): { under: string; over: string } => ({
+  under: `d${goal + 1}⁻`,
+  over: `d${goal + 1}⁺`,
+});
+
+const penalizesUnder = (goal: Goal): boolean => goal.type !== "≤";
+const penalizesOver = (goal: Goal): boolean => goal.type !== "≥";
+
+// Distinct priorities, most important first
+export const priorityLevels = (program: GoalProgram): number[] =>
+  [...new Set(program.goals.map(({ priority }) => priority))].sort((a, b) => a - b);
+
+// The goals each level minimizes, with their labels
+const levelGoals = (program: GoalProgram): { label: string; goals: number[] }[] => {
+  const all = program.goals.map((_, k) => k);
+  if (program.mode === "weighted") return [{ label: "Weighted deviations", goals: all }];
+  return priorityLevels(program).map((priority) => ({
+    label: `P${priority}`,
+    goals: all.filter((k) => program.goals[k].priority === priority),
+  }));
+};
+
+// "2d1⁻ + d2⁺", the weighted unwanted deviations of some goals
+const formatPenalty = (program: GoalProgram, goals: number[]): string => {
+  const coeffs: number[] = [];
+  const names: string[] = [];
+  goals.forEach((k) => {
+    const goal = program.goals[k];
+    const { under, over } = deviationNames(k);
+    if (penalizesUnder(goal)) {
+      coeffs.push(goal.weight);
+      names.push(under);
+    }
+    if (penalizesOver(goal)) {
+      coeffs.push(goal.weight);
+      names.push(over);
+    }
+  });
+  return formatLinearExpression(coeffs, names);
+};
+
+// Achievement function, hard constraints, goal rows with their deviational variables and sign restrictions
+export const formatGoalProgram = (program: GoalProgram): string[] => {
+  const names = modelVariableNames(program.model);
+  const levels = levelGoals(program);
+  const achievement =
+    program.mode === "weighted"
+      ? `Minimize ${formatPenalty(program, levels[0].goals)}`
+      : `Minimize ${levels.map(({ label, goals }) => `${label}(${formatPenalty(program, goals)})`).join(" + ")}`;
+  const goalRows = program.goals.map((goal, k) => {
+    const { under, over } = deviationNames(k);
+    const priority = program.mode === "preemptive" ? `P${goal.priority}: ` : "";
+    return `${priority}${formatLinearExpression(goal.coefficients, names)} + ${under} - ${over} = ${decimalToFraction(goal.target)}`;
+  });
+  return [
+    achievement,
+    ...formatConstraints(program.model),
+    ...goalRows,
+    ...formatBounds(program.model),
+    `${program.goals.map((_, k) => Object.values(deviationNames(k)).join(", ")).join(", ")} ≥ 0`,
+  ];
+};
+
+// Starting tableau. Hard constraints get slack, surplus and artificial columns as in Phase 1; each goal
+// row starts with its d⁻ basic (d⁺ when the shifted target is negative and the row is negated).
+export const createGoalTable = <T>(program: GoalProgram, ar: Arithmetic<T>, pivotRule: PivotRule): GoalTableau<T> => {
+  const { model, goals } = program;
+  const hardCount = model.constraintsMatrix.length;
+
+  // goal rows go through the bound substitution too, as = rows after the hard ones
+  const { model: substituted, substitution } = substituteBounds({
+    ...model,
+    constraintsMatrix: [...model.constraintsMatrix, ...goals.map(({ coefficients }) => coefficients)],
+    rhs: [...model.rhs, ...goals.map(({ target }) => target)],
+    constraintTypes: [...model.constraintTypes, ...goals.map((): ConstraintType => "=")],
+  });
+  const isGoalRow = (i: number) => i >= hardCount && i < hardCount + goals.length;
+  const keepHard = <R>(values: R[]) => values.filter((_, i) => !isGoalRow(i));
+
+  const hard = createInitialPhase1Table(
+    {
+      ...substituted,
+      constraintsMatrix: keepHard(substituted.constraintsMatrix),
+      rhs: keepHard(substituted.rhs),
+      constraintTypes: keepHard(substituted.constraintTypes),
+      constraintNames: substituted.constraintNames && keepHard(substituted.constraintNames),
+    },
+    ar
+  );
+
+  // deviational columns go right after the decision variables
+  const columnCount = substituted.objective.length;
+  const deviations = goals.flatMap((_, k) => Object.values(deviationNames(k)));
+  const variables = [...hard.variables.slice(0, columnCount), ...deviations, ...hard.variables.slice(columnCount)];
+  const withDeviations = (row: readonly T[], values: T[]) => [...row.slice(0, columnCount), ...values, ...row.slice(columnCount)];
+
+  const hardRows = hard.rows.map((row) => withDeviations(row, deviations.map(() => ar.zero)));
+  const goalRows = goals.map((_, k) => {
+    const i = hardCount + k;
+    const negate = substituted.rhs[i] < 0;
+    const sign = (v: number) => ar.fromNumber(negate ? -v : v);
+    const row = [
+      ...substituted.constraintsMatrix[i].map(sign),
+      ...hard.variables.slice(columnCount).map(() => ar.zero),
+      sign(substituted.rhs[i]),
+    ];
+    return withDeviations(row, deviations.map((_, d) => (d === 2 * k ? sign(1) : d === 2 * k + 1 ? sign(-1) : ar.zero)));
+  });
+  const goalBasis = goals.map((_, k) => (substituted.rhs[hardCount + k] < 0 ? deviationNames(k).over : deviationNames(k).under));
+
+  // level costs; Cj is zero except on the columns a level minimizes
+  const costs = (weights: Record<string, number>) => variables.map((name) => ar.fromNumber(weights[name] ?? 0));
+  const penalties = (ks: number[]) =>
+    Object.fromEntries(
+      ks.flatMap((k) => {
+        const goal = goals[k];
+        const { under, over } = deviationNames(k);
+        return [
+          ...(penalizesUnder(goal) ? [[under, goal.weight]] : []),
+          ...(penalizesOver(goal) ? [[over, goal.weight]] : []),
+        ];
+      })
+    );
+  const artificials = variables.filter(isArtificialColumn);
+  const levels = [
+    ...(artificials.length > 0
+      ? [{ label: "Hard constraints", cj: costs(Object.fromEntries(artificials.map((name) => [name, 1]))) }]
+      : []),
+    ...levelGoals(program).map(({ label, goals: ks }) => ({ label, cj: costs(penalties(ks)) })),
+  ];
+
+  const rows = [...hardRows, ...goalRows];
+  const basis = [...hard.basis, ...goalBasis];
+  return {
+    levels: levels.map(({ cj }) => createTableau(ar, { variables, cj, basis, rows, sense: "min", pivotRule })),
+    labels: levels.map(({ label }) => label),
+    hard: artificials.length > 0,
+    current: 0,
+    substitution,
+  };
+};
+
+// One lexicographic simplex iteration. A column may enter only if its Cj - Zj is zero at every level
+// already optimized, so reducing the current level never worsens a more important one.
+export const nextGoalIteration = <T>(goal: GoalTableau<T>): GoalStepResult<T> => {
+  for (let current = goal.current; ; current++) {
+    const tableau = goal.levels[current];
+    const ar = arithmeticOf(tableau);
+    const locked = (j: number) => goal.levels.slice(0, current).some((level) => ar.sign(level.cjMinusZj[j]) !== 0);
+    const choice = choosePivot({ ...tableau, cjMinusZj: tableau.cjMinusZj.map((v, j) => (locked(j) ? ar.zero : v)) });
+    const at = { ...goal, current };
+
+    if (choice.kind === "optimal") {
+      if (goal.hard && current === 0 && ar.sign(objectiveValue(tableau)) > 0) {
+        return { goal: at, status: SolveStatus.Infeasible, entering: null, leaving: null };
+      }
+      if (current === goal.levels.length - 1) return { goal: at, status: SolveStatus.Optimal, entering: null, leaving: null };
+      continue;
+    }
+    if (choice.kind === "unbounded") {
+      return { goal: at, status: SolveStatus.Unbounded, entering: choice.entering, leaving: null };
+    }
+
+    try {
+      const next = performPivot(tableau, choice.row, choice.column);
+      const levels = goal.levels.map((level) => computeZjAndCjMinusZj({ ...next, cj: level.cj }));
+      return {
+        goal: { ...at, levels },
+        status: repeatsBasis(next) ? SolveStatus.Cycling : null,
+        entering: choice.entering,
+        leaving: choice.leaving,
+        degenerate: choice.degenerate,
+      };
+    } catch (err) {
+      return {
+        goal: at,
+        status: SolveStatus.NumericalError,
+        entering: choice.entering,
+        leaving: choice.leaving,
+        error: (err as Error).message,
+      };
+    }
+  }
+};
+
+// Iterate until every level is at its optimum, the hard constraints prove infeasible or the cap is hit
+export const solveGoalProgram = <T>(goal: GoalTableau<T>, maxIterations: number = MAX_ITERATIONS): GoalSolveResult<T> => {
+  const history = [goal];
+  let current = goal;
+
+  while (history.length - 1 < maxIterations) {
+    const result = nextGoalIteration(current);
+    if (result.goal.levels !== current.levels) history.push(result.goal);
+    current = result.goal;
+    if (result.status !== null) {
+      return { status: result.status, goal: current, history, iterations: history.length - 1, error: result.error };
+    }
+  }
+
+  return { status: SolveStatus.IterationLimit, goal: current, history, iterations: history.length - 1 };
+};
+
+// The value of each level's achievement function; zero means every goal at that level is met
+export const levelAchievements = <T>(goal: GoalTableau<T>): { label: string; value: T; achieved: boolean }[] =>
+  goal.levels.map((level, i) => {
+    const value = objectiveValue(level);
+    return { label: goal.labels[i], value, achieved: arithmeticOf(level).sign(value) === 0 };
+  });
+
+// Values of the user's variables at the current tableau
+export const goalSolution = <T>(goal: GoalTableau<T>): Record<string, T> =>
+  originalValues(arithmeticOf(goal.levels[0]), goal.substitution, basicSolution(goal.levels[0]));
+
+export const goalOutcomes = <T>(goal: GoalTableau<T>, program: GoalProgram): GoalOutcome<T>[] => {
+  const ar = arithmeticOf(goal.levels[0]);
+  const columns = basicSolution(goal.levels[0]);
+  const values = goalSolution(goal);
+  return program.goals.map((g, k) => {
+    const { under, over } = deviationNames(k);
+    const value = goal.substitution.reduce(
+      (sum, { name }, j) => ar.add(sum, ar.mul(ar.fromNumber(g.coefficients[j]), values[name])),
+      ar.zero
+    );
+    const unwanted = [...(penalizesUnder(g) ? [columns[under]] : []), ...(penalizesOver(g) ? [columns[over]] : [])];
+    return {
+      value,
+      under: columns[under],
+      over: columns[over],
+      achieved: unwanted.every((d) => ar.sign(d) === 0),
+    };
+  });
+};
@@ -0,0 +1,94 @@
+import { compare } from "./arithmetic";
+import { relaxationBounds } from "./bounds";
+import { nextDualIteration } from "./dual";
+import { solve } from "./solver";
+import { arithmeticOf, createTableau, formatValue, isCutColumn, isDecisionColumn } from "./tableau";
+import { LPModel, SolveResult, Tableau } from "./types";
+
+export type GomoryCut<T> = {
+  // the tableau row the cut was read from and its basic variable
+  sourceRow: number;
+  source: string;
+  // e.g. "1/4s1 + 3/4s2 ≥ 1/2"
+  description: string;
+  // the optimal tableau with the cut appended; its new slack is basic at a negative value
+  tableau: Tableau<T>;
+  // dual simplex re-optimization starting from that tableau
+  result: SolveResult<T>;
+};
+
+// The cuts take every slack, surplus and shifted variable to be an integer, which holds only when every
+// variable is integer and so is every coefficient, right-hand side and finite bound
+export const fractionalCutsApply = (model: LPModel): boolean => {
+  const integral = (value: number) => !Number.isFinite(value) || Number.isInteger(value);
+  return (
+    !!model.kinds &&
+    model.kinds.length > 0 &&
+    model.kinds.every((kind) => kind !== "continuous") &&
+    model.constraintsMatrix.every((row) => row.every(integral)) &&
+    model.rhs.every(integral) &&
+    relaxationBounds(model).every(({ lower, upper }) => integral(lower) && integral(upper))
+  );
+};
+
+const fractionalPart = <T>(tableau: Tableau<T>, value: T): T => {
+  const ar = arithmeticOf(tableau);
+  const part = ar.sub(value, ar.floor(value));
+  return ar.sign(part) === 0 ? ar.zero : part;
+};
+
+// Source row for the next cut: the basic decision variable with the largest fractional value,
+// or -1 when every decision variable is already integral
+export const gomorySourceRow = <T>(tableau: Tableau<T>): number => {
+  const ar = arithmeticOf(tableau);
+  let best = -1;
+  let bestPart = ar.zero;
+  tableau.basis.forEach((name, i) => {
+    if (!isDecisionColumn(name)) return;
+    const row = tableau.rows[i];
+    const part = fractionalPart(tableau, row[row.length - 1]);
+    if (compare(ar, part, bestPart) > 0) {
+      best = i;
+      bestPart = part;
+    }
+  });
+  return best;
+};
+
+// Fractional cut from source row r of an optimal tableau of a pure integer program with integer data
+// (see fractionalCutsApply):
+//   Σ frac(a_rj) x_j ≥ frac(b_r) over the nonbasic columns,
+// appended as -Σ frac(a_rj) x_j + g = -frac(b_r) with g a new basic slack, then re-optimized by the dual simplex
+export const addGomoryCut = <T>(tableau: Tableau<T>, sourceRow: number = gomorySourceRow(tableau)): GomoryCut<T> => {
+  const ar = arithmeticOf(tableau);
+  const { variables, rows } = tableau;
+  const source = rows[sourceRow];
+  const slack = `g${variables.filter(isCutColumn).length + 1}`;
+
+  const coefficients = variables.map((_, j) => fractionalPart(tableau, source[j]));
+  const rhs = fractionalPart(tableau, source[source.length - 1]);
+
+  const cutTableau = createTableau(ar, {
+    variables: [...variables, slack],
+    cj: [...tableau.cj, ar.zero],
+    basis: [...tableau.basis, slack],
+    rows: [
+      ...rows.map((row) => [...row.slice(0, variables.length), ar.zero, row[row.length - 1]]),
+      [...coefficients.map((v) => (ar.sign(v) === 0 ? ar.zero : ar.neg(v))), ar.one, ar.neg(rhs)],
+    ],
+    sense: tableau.sense,
+    pivotRule: tableau.pivotRule,
+  });
+
+  const terms = coefficients
+    .map((v, j) => (ar.sign(v) === 0 ? null : `${formatValue(tableau, v)}${variables[j]}`))
+    .filter((term): term is string => term !== null);
+
+  return {
+    sourceRow,
+    source: tableau.basis[sourceRow],
+    description: `${terms.join(" + ") || "0"} ≥ ${formatValue(tableau, rhs)}`,
+    tableau: cutTableau,
+    result: solve(cutTableau, undefined, nextDualIteration),
+  };
+};
@@ -0,0 +1,164 @@
+import { originalValues } from "./bounds";
+import { boundsOf, decimalToFraction, formatConstraints, modelVariableNames } from "./format";
+import { arithmeticOf, basicSolution } from "./tableau";
+import { ConstraintType, LPModel, Tableau, VariableSubstitution } from "./types";
+import { UnboundedRay } from "./unbounded";
+
+// Geometry is only drawn, so it is done in floats whatever the solver mode
+const TOLERANCE = 1e-7;
+
+export type PlotPoint = { x: number; y: number };
+
+// a·(x, y) type b, from a constraint row or a variable bound
+export type HalfPlane = {
+  label: string;
+  a: [number, number];
+  b: number;
+  type: ConstraintType;
+  bound: boolean;
+};
+
+export type CornerPoint = PlotPoint & { z: number; optimal: boolean };
+
+export type PlotRange = { xMin: number; xMax: number; yMin: number; yMax: number };
+
+export type GraphicalSolution = {
+  halfPlanes: HalfPlane[];
+  // feasible vertices with their objective values
+  corners: CornerPoint[];
+  // the feasible region clipped to the plotted range, counterclockwise; empty when infeasible
+  region: PlotPoint[];
+  range: PlotRange;
+  // "unbounded" when the objective keeps improving past every corner inside the plotted range
+  status: "optimal" | "unbounded" | "infeasible";
+};
+
+const satisfies = ({ a, b, type }: HalfPlane, { x, y }: PlotPoint): boolean => {
+  const lhs = a[0] * x + a[1] * y;
+  if (type === "≤") return lhs <= b + TOLERANCE;
+  if (type === "≥") return lhs >= b - TOLERANCE;
+  return Math.abs(lhs - b) <= TOLERANCE;
+};
+
+const intersection = (p: HalfPlane, q: HalfPlane): PlotPoint | null => {
+  const det = p.a[0] * q.a[1] - p.a[1] * q.a[0];
+  if (Math.abs(det) < TOLERANCE) return null;
+  return { x: (p.b * q.a[1] - p.a[1] * q.b) / det, y: (p.a[0] * q.b - p.b * q.a[0]) / det };
+};
+
+// Sutherland–Hodgman: the part of a convex polygon on the feasible side of one boundary line
+const clip = (polygon: PlotPoint[], plane: HalfPlane): PlotPoint[] => {
+  if (plane.type === "=") {
+    return clip(clip(polygon, { ...plane, type: "≤" }), { ...plane, type: "≥" });
+  }
+  const value = ({ x, y }: PlotPoint) => plane.a[0] * x + plane.a[1] * y - plane.b;
+  const inside = (p: PlotPoint) => (plane.type === "≤" ? value(p) <= TOLERANCE : value(p) >= -TOLERANCE);
+
+  return polygon.flatMap((current, i) => {
+    const previous = polygon[(i + polygon.length - 1) % polygon.length];
+    const crossing = (): PlotPoint => {
+      const t = value(previous) / (value(previous) - value(current));
+      return { x: previous.x + t * (current.x - previous.x), y: previous.y + t * (current.y - previous.y) };
+    };
+    if (inside(current)) return inside(previous) ? [current] : [crossing(), current];
+    return inside(previous) ? [crossing()] : [];
+  });
+};
+
+// Every constraint row and every finite variable bound as a half-plane in the (x1, x2) plane
+export const halfPlanes = (model: LPModel): HalfPlane[] => {
+  const names = modelVariableNames(model);
+  const labels = formatConstraints(model);
+  const rows: HalfPlane[] = model.constraintsMatrix.map((row, i) => ({
+    label: labels[i],
+    a: [row[0], row[1]],
+    b: model.rhs[i],
+    type: model.constraintTypes[i],
+    bound: false,
+  }));
+  const bounds = boundsOf(model).flatMap(({ lower, upper }, j): HalfPlane[] => {
+    const a: [number, number] = j === 0 ? [1, 0] : [0, 1];
+    return [
+      ...(lower !== -Infinity ? [{ label: `${names[j]} ≥ ${decimalToFraction(lower)}`, a, b: lower, type: "≥" as const, bound: true }] : []),
+      ...(upper !== Infinity ? [{ label: `${names[j]} ≤ ${decimalToFraction(upper)}`, a, b: upper, type: "≤" as const, bound: true }] : []),
+    ];
+  });
+  return [...rows, ...bounds];
+};
+
+// Solve a two-variable model by enumerating the vertices of its feasible region
+export const solveGraphically = (model: LPModel): GraphicalSolution => {
+  const planes = halfPlanes(model);
+  const [c1, c2] = model.objective;
+  const objective = ({ x, y }: PlotPoint) => c1 * x + c2 * y;
+  const better = (z: number, than: number) => (model.optType === "Maximize" ? z > than + TOLERANCE : z < than - TOLERANCE);
+
+  const vertices: PlotPoint[] = [];
+  planes.forEach((p, i) =>
+    planes.slice(i + 1).forEach((q) => {
+      const point = intersection(p, q);
+      if (!point || !planes.every((plane) => satisfies(plane, point))) return;
+      if (vertices.some((v) => Math.abs(v.x - point.x) < TOLERANCE && Math.abs(v.y - point.y) < TOLERANCE)) return;
+      vertices.push(point);
+    })
+  );
+
+  // Show the origin, every vertex and where each constraint line crosses the axes, with a margin
+  const xs = [0, ...vertices.map((v) => v.x)];
+  const ys = [0, ...vertices.map((v) => v.y)];
+  planes.forEach(({ a, b }) => {
+    if (Math.abs(a[0]) > TOLERANCE) xs.push(b / a[0]);
+    if (Math.abs(a[1]) > TOLERANCE) ys.push(b / a[1]);
+  });
+  // variables that may go negative get room on that side of the axis too
+  const [b1, b2] = boundsOf(model);
+  const pad = (min: number, max: number, negative: boolean): [number, number] => {
+    const margin = Math.max(max - min, 1) * 0.2;
+    return [min < 0 || negative ? min - margin : 0, max + margin];
+  };
+  const [xMin, xMax] = pad(Math.min(...xs), Math.max(...xs), b1.lower < 0);
+  const [yMin, yMax] = pad(Math.min(...ys), Math.max(...ys), b2.lower < 0);
+
+  const box: PlotPoint[] = [
+    { x: xMin, y: yMin },
+    { x: xMax, y: yMin },
+    { x: xMax, y: yMax },
+    { x: xMin, y: yMax },
+  ];
+  const region = planes.reduce((polygon, plane) => (polygon.length === 0 ? polygon : clip(polygon, plane)), box);
+
+  const best = vertices.reduce<number | null>((z, v) => (z === null || better(objective(v), z) ? objective(v) : z), null);
+
+  // a bounded optimum sits at a vertex, so a clipped edge point beating every vertex means the region runs off the plot
+  const status =
+    region.length === 0 && vertices.length === 0
+      ? "infeasible"
+      : best === null || region.some((p) => better(objective(p), best))
+        ? "unbounded"
+        : "optimal";
+
+  const corners = vertices.map((v) => ({
+    ...v,
+    z: objective(v),
+    optimal: status === "optimal" && best !== null && Math.abs(objective(v) - best) <= TOLERANCE,
+  }));
+
+  return { halfPlanes: planes, corners, region, range: { xMin, xMax, yMin, yMax }, status };
+};
+
+// The point of the (x1, x2) plane a simplex tableau is currently at
+export const tableauPoint = <T>(tableau: Tableau<T>, substitution: readonly VariableSubstitution[]): PlotPoint => {
+  const ar = arithmeticOf(tableau);
+  const values = originalValues(ar, substitution, basicSolution(tableau));
+  return { x: ar.toNumber(values[substitution[0].name]), y: ar.toNumber(values[substitution[1].name]) };
+};
+
+// An unbounded ray of a two-variable model, in plot coordinates
+export const plotRay = <T>(tableau: Tableau<T>, ray: UnboundedRay<T>): { origin: PlotPoint; direction: PlotPoint } => {
+  const ar = arithmeticOf(tableau);
+  const [x, y] = Object.keys(ray.origin);
+  return {
+    origin: { x: ar.toNumber(ray.origin[x]), y: ar.toNumber(ray.origin[y]) },
+    direction: { x: ar.toNumber(ray.direction[x]), y: ar.toNumber(ray.direction[y]) },
+  };
+};
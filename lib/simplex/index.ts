@@ -0,0 +1,22 @@
+export * from "./types";
+export * from "./arithmetic";
+export * from "./format";
+export * from "./tableau";
+export * from "./solver";
+export * from "./dual";
+export * from "./alternative";
+export * from "./bounds";
+export * from "./branchAndBound";
+export * from "./gomory";
+export * from "./sensitivity";
+export * from "./duality";
+export * from "./graphical";
+export * from "./infeasibility";
+export * from "./unbounded";
+export * from "./parametric";
+export * from "./goal";
+export * from "./transportation";
+export * from "./assignment";
+export * from "./expression";
+export * from "./parser";
+export * from "./modelFiles";
@@ -0,0 +1,74 @@
+import { Arithmetic } from "./arithmetic";
+import { substituteBounds } from "./bounds";
+import { decimalToFraction, formatConstraints, formatLinearExpression, modelVariableNames } from "./format";
+import { solve } from "./solver";
+import { arithmeticOf, constraintColumns, createInitialPhase1Table, withPivotRule } from "./tableau";
+import { LPModel, SolveStatus, Tableau } from "./types";
+
+export type FarkasMultiplier<T> = {
+  row: number;
+  constraint: string;
+  multiplier: T;
+};
+
+// Multipliers uᵢ, ≥ 0 on ≤ rows and ≤ 0 on ≥ rows, whose combination Σ uᵢaᵢx ≤ Σ uᵢbᵢ has
+// nonnegative coefficients and a negative right-hand side: no x ≥ 0 can satisfy it
+export type FarkasCertificate<T> = {
+  multipliers: FarkasMultiplier<T>[];
+  // e.g. "x1 + 0x2 ≤ -2", over the columns Phase 1 was solved in
+  combination: string;
+};
+
+// Read the certificate off an infeasible final Phase 1 tableau. `model` is the model the tableau was built
+// from. The Phase 1 duals yᵢ = sign × Zj of row i's own column satisfy yᵀA ≤ 0 and yᵀb = W > 0; u = -y.
+export const farkasCertificate = <T>(phase1: Tableau<T>, model: LPModel): FarkasCertificate<T> => {
+  const ar = arithmeticOf(phase1);
+  const labels = formatConstraints(model);
+  const u = constraintColumns(model).map(({ name, sign }) => {
+    const zj = phase1.zj[phase1.variables.indexOf(name)];
+    return sign < 0 ? zj : ar.neg(zj);
+  });
+
+  const coefficients = model.objective.map((_, j) =>
+    u.reduce((sum, ui, i) => ar.add(sum, ar.mul(ui, ar.fromNumber(model.constraintsMatrix[i][j]))), ar.zero)
+  );
+  const rhs = u.reduce((sum, ui, i) => ar.add(sum, ar.mul(ui, ar.fromNumber(model.rhs[i]))), ar.zero);
+
+  return {
+    multipliers: u
+      .map((multiplier, row) => ({ row, constraint: labels[row], multiplier }))
+      .filter(({ multiplier }) => ar.sign(multiplier) !== 0),
+    combination: `${formatLinearExpression(coefficients.map(ar.toNumber), modelVariableNames(model))} ≤ ${decimalToFraction(ar.toNumber(rhs))}`,
+  };
+};
+
+const isFeasible = <T>(model: LPModel, base: Arithmetic<T>): boolean => {
+  const { model: substituted } = substituteBounds(model);
+  if (substituted.constraintsMatrix.length === 0) return true;
+  return solve(withPivotRule(createInitialPhase1Table(substituted, base), "bland")).status === SolveStatus.Optimal;
+};
+
+const withRows = (model: LPModel, rows: number[]): LPModel => ({
+  ...model,
+  constraintsMatrix: rows.map((i) => model.constraintsMatrix[i]),
+  rhs: rows.map((i) => model.rhs[i]),
+  constraintTypes: rows.map((i) => model.constraintTypes[i]),
+});
+
+// Deletion filter: drop each constraint whose removal leaves the rest infeasible. What remains is an
+// irreducible infeasible subset: infeasible together, feasible once any one row is removed. Variable
+// bounds are kept throughout. `candidates` narrows the search, e.g. to a Farkas certificate's rows.
+export const irreducibleInfeasibleSubset = <T>(
+  model: LPModel,
+  base: Arithmetic<T>,
+  candidates: number[] = model.rhs.map((_, i) => i)
+): number[] => {
+  let rows = isFeasible(withRows(model, candidates), base) ? model.rhs.map((_, i) => i) : [...candidates];
+  if (isFeasible(withRows(model, rows), base)) return [];
+
+  [...rows].forEach((row) => {
+    const rest = rows.filter((i) => i !== row);
+    if (!isFeasible(withRows(model, rest), base)) rows = rest;
+  });
+  return rows;
+};
@@ -0,0 +1,641 @@
+import { boundsOf, columnsAppearInOrder, modelConstraintNames, modelVariableNames } from "./format";
+import { formatModelText, ModelParseError, ModelParseResult, parseModelText } from "./parser";
+import { isAuxiliaryColumn } from "./tableau";
+import { ConstraintType, LPModel, OptType, VariableBound, VariableKind } from "./types";
+
+// CPLEX-LP and free-MPS files, as read and written by desktop solvers. Numbers are written in full
+// precision, and every bound, integrality mark and name is kept, so written models read back unchanged.
+
+export type ModelFormat = "algebraic" | "lp" | "mps";
+
+export const modelFormatLabels: Record<ModelFormat, string> = {
+  algebraic: "Algebraic",
+  lp: "CPLEX LP",
+  mps: "Free MPS",
+};
+
+// Thrown inside the readers and turned into the error result
+class FileFailure {
+  constructor(readonly error: ModelParseError) {}
+}
+
+const fail = (line: number, column: number, message: string): never => {
+  throw new FileFailure({ message, line, column });
+};
+
+const catchFailure = (read: () => ModelParseResult): ModelParseResult => {
+  try {
+    return read();
+  } catch (failure) {
+    if (failure instanceof FileFailure) return { ok: false, error: failure.error };
+    throw failure;
+  }
+};
+
+const formatNumber = (value: number): string => String(value);
+
+const isInfinity = (word: string): boolean => /^[+-]?(inf|infinity)$/i.test(word);
+
+const parseNumber = (word: string, line: number, column: number): number => {
+  if (isInfinity(word)) return word.startsWith("-") ? -Infinity : Infinity;
+  const value = Number(word);
+  if (word === "" || !Number.isFinite(value)) fail(line, column, `Expected a number, found "${word}".`);
+  return value;
+};
+
+// What both readers collect before it becomes an LPModel; columns keep their order of first appearance
+type ModelParts = {
+  optType: OptType;
+  columns: string[];
+  objective: Map<string, number>;
+  rows: { name: string; terms: Map<string, number>; type: ConstraintType; rhs: number }[];
+  bounds: Map<string, Partial<VariableBound>>;
+  kinds: Map<string, VariableKind>;
+  warnings: string[];
+};
+
+const emptyParts = (): ModelParts => ({
+  optType: "Minimize",
+  columns: [],
+  objective: new Map(),
+  rows: [],
+  bounds: new Map(),
+  kinds: new Map(),
+  warnings: [],
+});
+
+const addColumn = (parts: ModelParts, name: string) => {
+  if (!parts.columns.includes(name)) parts.columns.push(name);
+};
+
+// The methods pick their slack, surplus, artificial and cut columns out by name
+const checkColumnName = (name: string, line: number, column: number) => {
+  if (isAuxiliaryColumn(name)) fail(line, column, `"${name}" is reserved for slack, surplus, artificial and cut columns; rename the variable.`);
+};
+
+const setBound = (parts: ModelParts, name: string, bound: Partial<VariableBound>) => {
+  addColumn(parts, name);
+  parts.bounds.set(name, { ...parts.bounds.get(name), ...bound });
+};
+
+const toResult = (parts: ModelParts): ModelParseResult => {
+  const { columns, rows } = parts;
+  if (columns.length === 0) fail(1, 1, "The file has no variables.");
+  return {
+    ok: true,
+    model: {
+      objective: columns.map((name) => parts.objective.get(name) ?? 0),
+      constraintsMatrix: rows.map((row) => columns.map((name) => row.terms.get(name) ?? 0)),
+      rhs: rows.map((row) => row.rhs),
+      constraintTypes: rows.map((row) => row.type),
+      optType: parts.optType,
+      bounds: columns.map((name) => ({ lower: 0, upper: Infinity, ...parts.bounds.get(name) })),
+      variableNames: columns,
+      constraintNames: rows.map((row) => row.name),
+      kinds: columns.map((name) => parts.kinds.get(name) ?? "continuous"),
+    },
+    constraintNames: rows.map((row) => row.name),
+    warnings: parts.warnings,
+  };
+};
+
+// Objective row name that no constraint uses
+const objectiveRowName = (constraintNames: readonly string[]): string => {
+  let name = "obj";
+  while (constraintNames.includes(name)) name += "_";
+  return name;
+};
+
+const rowNames = (model: LPModel, constraintNames?: readonly string[]): string[] => {
+  const labels = constraintNames ?? modelConstraintNames(model);
+  return model.rhs.map((_, i) => labels[i] || `c${i + 1}`);
+};
+
+// ---------------------------------------------------------------------------------------------------
+// CPLEX LP
+
+type LPToken = { kind: "number" | "name" | "sign" | "relation" | "colon" | "bracket"; text: string; line: number; column: number };
+
+type LPSection = "objective" | "constraints" | "bounds" | "general" | "binary" | "unsupported" | "end";
+
+const LP_SECTIONS: [RegExp, LPSection][] = [
+  [/^(maximize|maximise|maximum|max)(?=\s|$)/i, "objective"],
+  [/^(minimize|minimise|minimum|min)(?=\s|$)/i, "objective"],
+  [/^(subject\s+to|such\s+that|st|s\.t\.)(?=\s|$)/i, "constraints"],
+  [/^bounds?(?=\s|$)/i, "bounds"],
+  [/^(generals?|gen|integers?)(?=\s|$)/i, "general"],
+  [/^(binary|binaries|bin)(?=\s|$)/i, "binary"],
+  [/^(semi-continuous|semis?|sos|lazy\s+constraints|user\s+cuts|pwl|general\s+constraints|gencons)(?=\s|$)/i, "unsupported"],
+  [/^end(?=\s|$)/i, "end"],
+];
+
+const LP_RELATIONS: Record<string, ConstraintType> = { "<=": "≤", "=<": "≤", "<": "≤", ">=": "≥", "=>": "≥", ">": "≥", "=": "=" };
+
+const LP_NAME = /^[A-Za-z_!"#$%&()/,.;?@`'{}|~][A-Za-z0-9_!"#$%&()/,.;?@`'{}|~]*/;
+
+const tokenizeLP = (text: string, line: number, offset: number): LPToken[] => {
+  const tokens: LPToken[] = [];
+  const patterns: [LPToken["kind"] | "space", RegExp][] = [
+    ["space", /^\s+/],
+    ["number", /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/],
+    ["name", LP_NAME],
+    ["relation", /^(<=|>=|=<|=>|<|>|=)/],
+    ["sign", /^[+-]/],
+    ["colon", /^:/],
+    ["bracket", /^[[\]]/],
+  ];
+  let column = offset + 1;
+  let rest = text;
+  while (rest.length > 0) {
+    const match = patterns.map(([kind, pattern]) => [kind, pattern.exec(rest)?.[0]] as const).find(([, found]) => found);
+    if (!match) fail(line, column, `Unexpected character "${rest[0]}".`);
+    const [kind, found] = match!;
+    if (kind === "bracket") fail(line, column, "Quadratic terms are not supported.");
+    if (kind !== "space") tokens.push({ kind, text: found!, line, column });
+    column += found!.length;
+    rest = rest.slice(found!.length);
+  }
+  return tokens;
+};
+
+export const parseLPFile = (text: string): ModelParseResult =>
+  catchFailure(() => {
+    const parts = emptyParts();
+    const sections: { section: LPSection; header: string; line: number; tokens: LPToken[]; lines: string[] }[] = [];
+    let sawObjective = false;
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+      const line = index + 1;
+      const content = raw.replace(/\\.*$/, "");
+      const indent = content.length - content.trimStart().length;
+      const trimmed = content.trim();
+      if (trimmed === "") return;
+      const header = LP_SECTIONS.find(([pattern]) => pattern.test(trimmed) && !/^\S+\s*:/.test(trimmed));
+      let body = trimmed;
+      let bodyOffset = indent;
+      if (header) {
+        const word = header[0].exec(trimmed)![0];
+        if (header[1] === "objective") {
+          if (sawObjective) fail(line, indent + 1, "The file has two objective sections.");
+          sawObjective = true;
+          parts.optType = /^max/i.test(word) ? "Maximize" : "Minimize";
+        }
+        sections.push({ section: header[1], header: word, line, tokens: [], lines: [] });
+        body = trimmed.slice(word.length).trimStart();
+        bodyOffset = indent + trimmed.length - body.length;
+        if (body === "") return;
+      }
+      const current = sections[sections.length - 1];
+      if (!current) fail(line, indent + 1, `Expected Maximize or Minimize, found "${trimmed.split(/\s+/)[0]}".`);
+      if (current.section === "end") fail(line, indent + 1, "Nothing may follow End.");
+      current.lines.push(body);
+      if (current.section !== "unsupported") current.tokens.push(...tokenizeLP(body, line, bodyOffset));
+    });
+    if (!sawObjective) fail(1, 1, "The file has no Maximize or Minimize section.");
+
+    sections.forEach(({ section, header, tokens, lines }) => {
+      if (section === "objective") readLPObjective(parts, tokens);
+      else if (section === "constraints") readLPConstraints(parts, tokens);
+      else if (section === "bounds") readLPBounds(parts, tokens);
+      else if (section === "general" || section === "binary") {
+        tokens.forEach((token) => {
+          if (token.kind !== "name") fail(token.line, token.column, `Expected a variable name, found "${token.text}".`);
+          checkColumnName(token.text, token.line, token.column);
+          addColumn(parts, token.text);
+          parts.kinds.set(token.text, section === "binary" ? "binary" : "integer");
+        });
+      } else if (section === "unsupported") {
+        parts.warnings.push(`The ${header} section is not supported; its ${lines.length} line(s) were skipped.`);
+      }
+    });
+    return toResult(parts);
+  });
+
+// [sign] [number] name or [sign] number terms, until a relation or the end of the section
+const readLPExpression = (parts: ModelParts, tokens: LPToken[], start: number, stopAtLabel: boolean) => {
+  const terms = new Map<string, number>();
+  let constant = 0;
+  let i = start;
+  let first = true;
+  while (i < tokens.length && tokens[i].kind !== "relation") {
+    // a new label ends the expression
+    if (stopAtLabel && tokens[i].kind === "name" && tokens[i + 1]?.kind === "colon") break;
+    let sign = 1;
+    if (tokens[i].kind === "sign") {
+      sign = tokens[i].text === "-" ? -1 : 1;
+      i++;
+    } else if (!first) {
+      fail(tokens[i].line, tokens[i].column, `Expected + or -, found "${tokens[i].text}".`);
+    }
+    const token = tokens[i];
+    if (!token) break;
+    if (token.kind === "number") {
+      i++;
+      if (tokens[i]?.kind === "name" && tokens[i + 1]?.kind !== "colon") {
+        checkColumnName(tokens[i].text, tokens[i].line, tokens[i].column);
+        addColumn(parts, tokens[i].text);
+        terms.set(tokens[i].text, (terms.get(tokens[i].text) ?? 0) + sign * Number(token.text));
+        i++;
+      } else {
+        constant += sign * Number(token.text);
+      }
+    } else if (token.kind === "name") {
+      checkColumnName(token.text, token.line, token.column);
+      addColumn(parts, token.text);
+      terms.set(token.text, (terms.get(token.text) ?? 0) + sign);
+      i++;
+    } else {
+      fail(token.line, token.column, `Expected a number or a variable, found "${token.text}".`);
+    }
+    first = false;
+  }
+  return { terms, constant, next: i };
+};
+
+const readLPObjective = (parts: ModelParts, tokens: LPToken[]) => {
+  const start = tokens[0]?.kind === "name" && tokens[1]?.kind === "colon" ? 2 : 0;
+  const { terms, constant, next } = readLPExpression(parts, tokens, start, false);
+  if (next < tokens.length) fail(tokens[next].line, tokens[next].column, `Unexpected "${tokens[next].text}" in the objective.`);
+  parts.objective = terms;
+  if (constant !== 0) parts.warnings.push(`The objective constant ${formatNumber(constant)} was dropped.`);
+};
+
+const readLPConstraints = (parts: ModelParts, tokens: LPToken[]) => {
+  let i = 0;
+  while (i < tokens.length) {
+    const labelled = tokens[i].kind === "name" && tokens[i + 1]?.kind === "colon";
+    const name = labelled ? tokens[i].text : `c${parts.rows.length + 1}`;
+    const at = tokens[i];
+    if (labelled) i += 2;
+    const { terms, constant, next } = readLPExpression(parts, tokens, i, true);
+    const relation = tokens[next];
+    if (!relation || relation.kind !== "relation") {
+      const where = relation ?? tokens[next - 1];
+      fail(where.line, where.column, `Expected <=, >= or = in constraint ${name}.`);
+    }
+    i = next + 1;
+    let sign = 1;
+    if (tokens[i]?.kind === "sign") sign = tokens[i++].text === "-" ? -1 : 1;
+    const value = tokens[i];
+    if (!value || value.kind !== "number") {
+      const where = value ?? relation;
+      fail(where.line, where.column, `Expected a number on the right of constraint ${name}.`);
+    }
+    i++;
+    if (terms.size === 0) fail(at.line, at.column, `Constraint ${name} has no variables.`);
+    if (parts.rows.some((row) => row.name === name)) fail(at.line, at.column, `Constraint ${name} is defined twice.`);
+    parts.rows.push({ name, terms, type: LP_RELATIONS[relation.text], rhs: sign * Number(value.text) - constant });
+  }
+};
+
+// One bound per statement: x free, x >= l, x <= u, x = v, l <= x, l <= x <= u; inf and -inf allowed
+const readLPBounds = (parts: ModelParts, tokens: LPToken[]) => {
+  let i = 0;
+  // a number, possibly signed or infinite ("inf" and "infinity" lex as names)
+  const value = (): number | null => {
+    let sign = "";
+    let j = i;
+    if (tokens[j]?.kind === "sign") sign = tokens[j++].text;
+    const token = tokens[j];
+    if (!token || !(token.kind === "number" || (token.kind === "name" && isInfinity(token.text)))) return null;
+    i = j + 1;
+    return parseNumber(sign + token.text, token.line, token.column);
+  };
+  const variable = (): LPToken => {
+    const token = tokens[i];
+    if (!token || token.kind !== "name") {
+      const where = token ?? tokens[i - 1];
+      fail(where.line, where.column, "Expected a variable in the bound.");
+    }
+    checkColumnName(token.text, token.line, token.column);
+    i++;
+    return token;
+  };
+  const relation = (): LPToken | null => (tokens[i]?.kind === "relation" ? tokens[i++] : null);
+  const apply = (name: string, op: LPToken, limit: number, limitOnLeft: boolean) => {
+    const type = LP_RELATIONS[op.text];
+    // "l <= x" is a lower bound, as is "x >= l"
+    const lower = type === "≥" ? !limitOnLeft : limitOnLeft;
+    if (type === "=") setBound(parts, name, { lower: limit, upper: limit });
+    else setBound(parts, name, lower ? { lower: limit } : { upper: limit });
+  };
+
+  while (i < tokens.length) {
+    const start = tokens[i];
+    const left = value();
+    if (left !== null) {
+      const op = relation();
+      if (!op) fail(start.line, start.column, "Expected <=, >= or = after the bound.");
+      const name = variable().text;
+      apply(name, op!, left, true);
+      const second = relation();
+      if (second) {
+        const right = value();
+        if (right === null) fail(second.line, second.column, "Expected a number after the relation.");
+        apply(name, second, right!, false);
+      }
+      continue;
+    }
+    const name = variable();
+    if (tokens[i]?.kind === "name" && tokens[i].text.toLowerCase() === "free") {
+      i++;
+      setBound(parts, name.text, { lower: -Infinity, upper: Infinity });
+      continue;
+    }
+    const op = relation();
+    if (!op) fail(name.line, name.column, `Expected a relation or "free" after ${name.text}.`);
+    const limit = value();
+    if (limit === null) fail(op!.line, op!.column, "Expected a number after the relation.");
+    apply(name.text, op!, limit!, false);
+  }
+};
+
+const formatLPLimit = (value: number): string => (value === Infinity ? "+inf" : value === -Infinity ? "-inf" : formatNumber(value));
+
+// " + 3 x - y" style terms; a zero coefficient is only written when asked for
+const formatLPExpression = (coefficients: readonly number[], names: readonly string[], keepZeros = false): string => {
+  const terms = coefficients
+    .map((value, j) => {
+      if (value === 0 && !keepZeros) return null;
+      const magnitude = Math.abs(value) === 1 ? "" : `${formatNumber(Math.abs(value))} `;
+      return `${value < 0 ? "-" : "+"} ${magnitude}${names[j]}`;
+    })
+    .filter((term): term is string => term !== null);
+  if (terms.length === 0) return "0";
+  return terms.join(" ").replace(/^\+ /, "");
+};
+
+export const formatLPFile = (model: LPModel, constraintNames?: readonly string[]): string => {
+  const names = modelVariableNames(model);
+  const rows = rowNames(model, constraintNames);
+  const kinds = model.kinds ?? [];
+
+  const relation: Record<ConstraintType, string> = { "≤": "<=", "≥": ">=", "=": "=" };
+  const lines = [
+    "\\ Simplex Optimization model",
+    model.optType === "Maximize" ? "Maximize" : "Minimize",
+    ` ${objectiveRowName(rows)}: ${formatLPExpression(model.objective, names, !columnsAppearInOrder(model))}`,
+    "Subject To",
+    ...model.constraintsMatrix.map(
+      (row, i) => ` ${rows[i]}: ${formatLPExpression(row, names)} ${relation[model.constraintTypes[i] ?? "≤"]} ${formatNumber(model.rhs[i])}`
+    ),
+  ];
+
+  const bounds = boundsOf(model).flatMap(({ lower, upper }, j) => {
+    if (kinds[j] === "binary") return [];
+    if (lower === -Infinity && upper === Infinity) return [` ${names[j]} free`];
+    if (lower === upper) return [` ${names[j]} = ${formatNumber(lower)}`];
+    if (upper === Infinity) return lower === 0 ? [] : [` ${names[j]} >= ${formatLPLimit(lower)}`];
+    return [` ${formatLPLimit(lower)} <= ${names[j]} <= ${formatLPLimit(upper)}`];
+  });
+  if (bounds.length > 0) lines.push("Bounds", ...bounds);
+
+  const integers = names.filter((_, j) => kinds[j] === "integer");
+  if (integers.length > 0) lines.push("General", ` ${integers.join(" ")}`);
+  const binaries = names.filter((_, j) => kinds[j] === "binary");
+  if (binaries.length > 0) lines.push("Binary", ` ${binaries.join(" ")}`);
+
+  lines.push("End");
+  return lines.join("\n");
+};
+
+// ---------------------------------------------------------------------------------------------------
+// Free MPS
+
+const MPS_ROW_TYPES: Record<string, ConstraintType | "N"> = { N: "N", L: "≤", G: "≥", E: "=" };
+
+const MPS_SECTIONS = ["NAME", "OBJSENSE", "ROWS", "COLUMNS", "RHS", "RANGES", "BOUNDS", "ENDATA"];
+
+export const parseMPSFile = (text: string): ModelParseResult =>
+  catchFailure(() => {
+    const parts = emptyParts();
+    const rowIndex = new Map<string, number>();
+    const skippedRows = new Set<string>();
+    let objectiveRow: string | null = null;
+    let section = "";
+    let integerMarker = false;
+    let rhsSet: string | null = null;
+    let boundSet: string | null = null;
+    let ended = false;
+    const unsupported = new Map<string, number>();
+
+    // The constraint a COLUMNS or RHS entry belongs to; null for the objective and skipped free rows
+    const constraintOf = (row: string, line: number, column: number): number | null => {
+      if (row === objectiveRow || skippedRows.has(row)) return null;
+      const index = rowIndex.get(row);
+      if (index === undefined) fail(line, column, `Unknown row "${row}".`);
+      return index!;
+    };
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+      const line = index + 1;
+      if (raw.trim() === "" || raw.startsWith("*") || ended) return;
+      const fields: { text: string; column: number }[] = [];
+      const pattern = /\S+/g;
+      for (let match = pattern.exec(raw); match; match = pattern.exec(raw)) {
+        fields.push({ text: match[0], column: match.index + 1 });
+      }
+      const words = fields.map((field) => field.text);
+      const at = (k: number) => fields[Math.min(k, fields.length - 1)].column;
+
+      // Section headers start in the first column
+      if (!/^\s/.test(raw)) {
+        const header = words[0].toUpperCase();
+        section = header;
+        if (header === "ENDATA") ended = true;
+        else if (header === "OBJSENSE" && words[1]) parts.optType = /^MAX/i.test(words[1]) ? "Maximize" : "Minimize";
+        else if (!MPS_SECTIONS.includes(header)) unsupported.set(header, 0);
+        return;
+      }
+
+      switch (section) {
+        case "OBJSENSE":
+          parts.optType = /^MAX/i.test(words[0]) ? "Maximize" : "Minimize";
+          return;
+        case "ROWS": {
+          const type = MPS_ROW_TYPES[words[0].toUpperCase()];
+          if (!type || words.length !== 2) fail(line, at(0), `Expected a row type N, L, G or E and a row name.`);
+          const name = words[1];
+          if (type === "N") {
+            if (objectiveRow === null) objectiveRow = name;
+            else {
+              skippedRows.add(name);
+              parts.warnings.push(`Free row ${name} was skipped; only the first N row is the objective.`);
+            }
+            return;
+          }
+          if (rowIndex.has(name) || name === objectiveRow) fail(line, at(1), `Row ${name} is defined twice.`);
+          rowIndex.set(name, parts.rows.length);
+          parts.rows.push({ name, terms: new Map(), type: type as ConstraintType, rhs: 0 });
+          return;
+        }
+        case "COLUMNS": {
+          if (words[1] === "'MARKER'") {
+            if (words[2] === "'INTORG'") integerMarker = true;
+            else if (words[2] === "'INTEND'") integerMarker = false;
+            else fail(line, at(2), `Expected 'INTORG' or 'INTEND', found ${words[2] ?? "nothing"}.`);
+            return;
+          }
+          if (words.length !== 3 && words.length !== 5) fail(line, at(0), "Expected a column name and one or two row/value pairs.");
+          const column = words[0];
+          checkColumnName(column, line, at(0));
+          addColumn(parts, column);
+          if (integerMarker) parts.kinds.set(column, "integer");
+          for (let k = 1; k < words.length; k += 2) {
+            const value = parseNumber(words[k + 1], line, at(k + 1));
+            const row = constraintOf(words[k], line, at(k));
+            if (row !== null) parts.rows[row].terms.set(column, value);
+            else if (words[k] === objectiveRow) parts.objective.set(column, value);
+          }
+          return;
+        }
+        case "RHS": {
+          // the RHS set name is optional: it is there when the fields don't pair up
+          const offset = words.length % 2;
+          if (offset === 1) {
+            if (rhsSet === null) rhsSet = words[0];
+            else if (words[0] !== rhsSet) {
+              parts.warnings.push(`RHS set ${words[0]} was skipped; only the first set, ${rhsSet}, is used.`);
+              return;
+            }
+          }
+          for (let k = offset; k < words.length; k += 2) {
+            const value = parseNumber(words[k + 1], line, at(k + 1));
+            const row = constraintOf(words[k], line, at(k));
+            if (row !== null) parts.rows[row].rhs = value;
+            else if (words[k] === objectiveRow && value !== 0) {
+              parts.warnings.push(`The objective constant ${formatNumber(-value)} was dropped.`);
+            }
+          }
+          return;
+        }
+        case "BOUNDS": {
+          const type = words[0].toUpperCase();
+          const needsValue = ["UP", "LO", "FX", "LI", "UI", "SC"].includes(type);
+          const withSet = words.length === (needsValue ? 4 : 3) || (type === "BV" && words.length === 4);
+          const set = withSet ? words[1] : null;
+          if (set !== null) {
+            if (boundSet === null) boundSet = set;
+            else if (set !== boundSet) {
+              parts.warnings.push(`Bound set ${set} was skipped; only the first set, ${boundSet}, is used.`);
+              return;
+            }
+          }
+          const column = words[withSet ? 2 : 1];
+          if (column === undefined) fail(line, at(0), `Expected a column name after ${type}.`);
+          checkColumnName(column, line, at(withSet ? 2 : 1));
+          const value = needsValue ? parseNumber(words[withSet ? 3 : 2] ?? "", line, at(withSet ? 3 : 2)) : 0;
+          switch (type) {
+            case "UP":
+            case "UI":
+              // a negative upper bound with the default lower bound makes the variable unbounded below
+              if (value < 0 && parts.bounds.get(column)?.lower === undefined) {
+                setBound(parts, column, { lower: -Infinity });
+                parts.warnings.push(`${column} has a negative upper bound, so its lower bound became -∞.`);
+              }
+              setBound(parts, column, { upper: value });
+              break;
+            case "LO":
+            case "LI":
+              setBound(parts, column, { lower: value });
+              break;
+            case "FX":
+              setBound(parts, column, { lower: value, upper: value });
+              break;
+            case "FR":
+              setBound(parts, column, { lower: -Infinity, upper: Infinity });
+              break;
+            case "MI":
+              setBound(parts, column, { lower: -Infinity });
+              break;
+            case "PL":
+              setBound(parts, column, { upper: Infinity });
+              break;
+            case "BV":
+              addColumn(parts, column);
+              parts.kinds.set(column, "binary");
+              break;
+            case "SC":
+              parts.warnings.push(`The semi-continuous bound on ${column} was skipped.`);
+              break;
+            default:
+              fail(line, at(0), `Unknown bound type "${words[0]}".`);
+          }
+          if (type === "LI" || type === "UI") parts.kinds.set(column, "integer");
+          return;
+        }
+        case "RANGES":
+        default:
+          unsupported.set(section, (unsupported.get(section) ?? 0) + 1);
+      }
+    });
+
+    if (objectiveRow === null) fail(1, 1, "The file has no N row for the objective.");
+    unsupported.forEach((count, name) =>
+      parts.warnings.push(`The ${name} section is not supported; its ${count} line(s) were skipped.`)
+    );
+    return toResult(parts);
+  });
+
+export const formatMPSFile = (model: LPModel, constraintNames?: readonly string[]): string => {
+  const names = modelVariableNames(model);
+  const rows = rowNames(model, constraintNames);
+  const objective = objectiveRowName(rows);
+  const kinds = model.kinds ?? [];
+  const type: Record<ConstraintType, string> = { "≤": "L", "≥": "G", "=": "E" };
+
+  const lines = ["NAME model"];
+  if (model.optType === "Maximize") lines.push("OBJSENSE", "    MAX");
+  lines.push("ROWS", ` N ${objective}`, ...rows.map((row, i) => ` ${type[model.constraintTypes[i] ?? "≤"]} ${row}`));
+
+  lines.push("COLUMNS");
+  names.forEach((name, j) => {
+    const integer = kinds[j] === "integer";
+    const previous = j > 0 && kinds[j - 1] === "integer";
+    if (integer && !previous) lines.push(`    MARKER 'MARKER' 'INTORG'`);
+    if (!integer && previous) lines.push(`    MARKER 'MARKER' 'INTEND'`);
+    const entries = [
+      ...(model.objective[j] !== 0 ? [[objective, model.objective[j]] as const] : []),
+      ...model.constraintsMatrix.flatMap((row, i) => (row[j] !== 0 ? [[rows[i], row[j]] as const] : [])),
+    ];
+    // a column with no entries is still written, so it is read back
+    if (entries.length === 0) lines.push(`    ${name} ${objective} 0`);
+    entries.forEach(([row, value]) => lines.push(`    ${name} ${row} ${formatNumber(value)}`));
+  });
+  if (kinds[names.length - 1] === "integer") lines.push(`    MARKER 'MARKER' 'INTEND'`);
+
+  lines.push("RHS", ...model.rhs.flatMap((value, i) => (value !== 0 ? [`    RHS ${rows[i]} ${formatNumber(value)}`] : [])));
+
+  const bounds = boundsOf(model).flatMap(({ lower, upper }, j) => {
+    const name = names[j];
+    if (kinds[j] === "binary") return [` BV BND ${name}`];
+    if (lower === -Infinity && upper === Infinity) return [` FR BND ${name}`];
+    if (lower === upper) return [` FX BND ${name} ${formatNumber(lower)}`];
+    return [
+      ...(lower === -Infinity ? [` MI BND ${name}`] : lower !== 0 ? [` LO BND ${name} ${formatNumber(lower)}`] : []),
+      ...(upper !== Infinity ? [` UP BND ${name} ${formatNumber(upper)}`] : []),
+    ];
+  });
+  if (bounds.length > 0) lines.push("BOUNDS", ...bounds);
+
+  lines.push("ENDATA");
+  return lines.join("\n");
+};
+
+// ---------------------------------------------------------------------------------------------------
+
+export const parseModelFile = (format: ModelFormat, text: string): ModelParseResult => {
+  switch (format) {
+    case "lp": return parseLPFile(text);
+    case "mps": return parseMPSFile(text);
+    default: return parseModelText(text);
+  }
+};
+
+export const formatModelFile = (format: ModelFormat, model: LPModel, constraintNames?: readonly string[]): string => {
+  switch (format) {
+    case "lp": return formatLPFile(model, constraintNames);
+    case "mps": return formatMPSFile(model, constraintNames);
+    default: return formatModelText(model, constraintNames);
+  }
+};
@@ -0,0 +1,171 @@
+import { Arithmetic, BigM, compare } from "./arithmetic";
+import { originalObjectiveValue, originalValues, substituteBounds } from "./bounds";
+import { formatConstraints, modelVariableNames } from "./format";
+import { ratioTest, solve } from "./solver";
+import {
+  arithmeticOf,
+  basicSolution,
+  computeZjAndCjMinusZj,
+  constraintColumns,
+  createBigMTable,
+  isArtificialColumn,
+  performPivot,
+  withPivotRule,
+} from "./tableau";
+import { LPModel, PivotRule, SolveStatus, Tableau } from "./types";
+
+export const MAX_BREAKPOINTS = 50;
+
+// The model entry that becomes the parameter θ
+export type ParametricTarget = { kind: "rhs"; row: number } | { kind: "objective"; variable: number };
+
+export type ParametricInterval = {
+  from: number;
+  to: number;
+  basis: string[];
+  // optimal Z at both ends; it is linear in between
+  zFrom: number;
+  zTo: number;
+  // the pivot made at `to`, e.g. "s2 leaves, x1 enters"; null at the end of the range
+  pivot: string | null;
+};
+
+export type ParametricResult = {
+  intervals: ParametricInterval[];
+  // "complete" when the intervals cover the whole range; otherwise why and where the analysis stopped
+  status: "complete" | "infeasible" | "unbounded" | "stopped";
+  stoppedAt: number | null;
+};
+
+export const parametricTargetLabel = (model: LPModel, target: ParametricTarget): string =>
+  target.kind === "rhs"
+    ? `RHS of ${formatConstraints(model)[target.row]}`
+    : `coefficient of ${modelVariableNames(model)[target.variable]}`;
+
+const withParameter = (model: LPModel, target: ParametricTarget, theta: number): LPModel =>
+  target.kind === "rhs"
+    ? { ...model, rhs: model.rhs.map((v, i) => (i === target.row ? theta : v)) }
+    : { ...model, objective: model.objective.map((v, j) => (j === target.variable ? theta : v)) };
+
+// Parametric programming for θ from `from` to `to`: solve once at the start with the Big-M method, then
+// follow the optimal basis. A RHS parameter moves the basic values along B⁻¹eᵢ until one reaches zero,
+// where a dual simplex pivot restores feasibility. A cost parameter moves Cj - Zj until a nonbasic column
+// becomes improving, where a primal simplex pivot restores optimality.
+export const parametricAnalysis = <T>(
+  model: LPModel,
+  target: ParametricTarget,
+  from: number,
+  to: number,
+  base: Arithmetic<T>,
+  pivotRule: PivotRule
+): ParametricResult => {
+  const { model: substituted, substitution } = substituteBounds(withParameter(model, target, from));
+  const result = solve(withPivotRule(createBigMTable(substituted, base), pivotRule));
+  if (result.status !== SolveStatus.Optimal) {
+    const status = result.status === SolveStatus.Infeasible ? "infeasible" : result.status === SolveStatus.Unbounded ? "unbounded" : "stopped";
+    return { intervals: [], status, stoppedAt: from };
+  }
+
+  const ar = arithmeticOf(result.tableau);
+  const minimize = model.optType === "Minimize";
+  const own = target.kind === "rhs" ? constraintColumns(substituted)[target.row] : null;
+  const costColumns = target.kind === "objective" ? substitution[target.variable].columns : [];
+
+  // The tableau for the parameter moved by delta from the one `tableau` was solved at
+  const shift = (tableau: Tableau<BigM<T>>, theta: BigM<T>, delta: BigM<T>): Tableau<BigM<T>> => {
+    if (own) {
+      const column = tableau.variables.indexOf(own.name);
+      const rows = tableau.rows.map((row) => {
+        const direction = own.sign < 0 ? ar.neg(row[column]) : row[column];
+        return [...row.slice(0, -1), ar.add(row[row.length - 1], ar.mul(delta, direction))];
+      });
+      return computeZjAndCjMinusZj({ ...tableau, rows });
+    }
+    const cj = [...tableau.cj];
+    costColumns.forEach(({ name, coefficient }) => {
+      const cost = ar.mul(ar.fromNumber(minimize ? -coefficient : coefficient), ar.add(theta, delta));
+      cj[tableau.variables.indexOf(name)] = cost;
+    });
+    return computeZjAndCjMinusZj({ ...tableau, cj });
+  };
+
+  const objectiveAt = (tableau: Tableau<BigM<T>>, theta: BigM<T>): number => {
+    const objective = target.kind === "objective" ? withParameter(model, target, ar.toNumber(theta)).objective : model.objective;
+    const values = originalValues(ar, substitution, basicSolution(tableau));
+    return ar.toNumber(originalObjectiveValue(ar, objective, substitution, values));
+  };
+
+  const intervals: ParametricInterval[] = [];
+  const end = ar.fromNumber(to);
+  let theta = ar.fromNumber(from);
+  let tableau = result.tableau;
+
+  for (let breakpoints = 0; breakpoints < MAX_BREAKPOINTS; breakpoints++) {
+    // The rate each basic value (RHS) or Cj - Zj (cost) changes per unit of θ, and the first one to hit zero
+    const moved = shift(tableau, theta, ar.one);
+    const candidates = own
+      ? tableau.rows.map((row, r) => {
+          const value = row[row.length - 1];
+          const rate = ar.sub(moved.rows[r][row.length - 1], value);
+          return ar.sign(rate) < 0 ? { index: r, limit: ar.div(value, ar.neg(rate)) } : null;
+        })
+      : tableau.variables.map((name, k) => {
+          const rate = ar.sub(moved.cjMinusZj[k], tableau.cjMinusZj[k]);
+          if (tableau.basis.includes(name) || ar.sign(rate) <= 0) return null;
+          return { index: k, limit: ar.div(ar.neg(tableau.cjMinusZj[k]), rate) };
+        });
+    const first = candidates.reduce<{ index: number; limit: BigM<T> } | null>(
+      (best, c) => (c !== null && (best === null || compare(ar, c.limit, best.limit) < 0) ? c : best),
+      null
+    );
+    const breakpoint = first === null ? end : ar.add(theta, first.limit);
+    const stepEnd = compare(ar, breakpoint, end) < 0 ? breakpoint : end;
+
+    // an artificial variable held above zero means the model has no solution for these θ
+    const middle = shift(tableau, theta, ar.div(ar.sub(stepEnd, theta), ar.fromNumber(2)));
+    const infeasible = middle.basis.some(
+      (name, i) => isArtificialColumn(name) && ar.sign(middle.rows[i][middle.rows[i].length - 1]) > 0
+    );
+    if (infeasible) return { intervals, status: "infeasible", stoppedAt: ar.toNumber(theta) };
+
+    const atEnd = shift(tableau, theta, ar.sub(stepEnd, theta));
+    const interval: ParametricInterval = {
+      from: ar.toNumber(theta),
+      to: ar.toNumber(stepEnd),
+      basis: [...tableau.basis],
+      zFrom: objectiveAt(tableau, theta),
+      zTo: objectiveAt(atEnd, stepEnd),
+      pivot: null,
+    };
+    if (compare(ar, stepEnd, theta) > 0) intervals.push(interval);
+    if (first === null || compare(ar, stepEnd, end) >= 0) return { intervals, status: "complete", stoppedAt: null };
+
+    // Pivot at the breakpoint
+    let row: number;
+    let column: number;
+    if (own) {
+      // dual simplex: the row reaching zero leaves; entering by the dual ratio test over its negative entries
+      row = first.index;
+      const entries = atEnd.rows[row];
+      const options = atEnd.variables
+        .map((name, k) => k)
+        .filter((k) => !atEnd.basis.includes(atEnd.variables[k]) && ar.sign(entries[k]) < 0);
+      if (options.length === 0) return { intervals, status: "infeasible", stoppedAt: ar.toNumber(stepEnd) };
+      const ratio = (k: number) => ar.div(atEnd.cjMinusZj[k], entries[k]);
+      column = options.reduce((best, k) => (compare(ar, ratio(k), ratio(best)) < 0 ? k : best));
+    } else {
+      // primal simplex: the column becoming improving enters; leaving by the ratio test
+      column = first.index;
+      const leaving = ratioTest(atEnd, column);
+      if (leaving === null) return { intervals, status: "unbounded", stoppedAt: ar.toNumber(stepEnd) };
+      row = leaving.row;
+    }
+
+    const pivot = `${atEnd.basis[row]} leaves, ${atEnd.variables[column]} enters`;
+    if (intervals.length > 0 && intervals[intervals.length - 1] === interval) interval.pivot = pivot;
+    tableau = performPivot(atEnd, row, column);
+    theta = stepEnd;
+  }
+
+  return { intervals, status: "stopped", stoppedAt: ar.toNumber(theta) };
+};
@@ -0,0 +1,422 @@
+import {
+  boundsOf,
+  columnsAppearInOrder,
+  modelConstraintNames,
+  modelVariableNames,
+} from "./format";
+import { isAuxiliaryColumn } from "./tableau";
+import { ConstraintType, LPModel, OptType, VariableBound, VariableKind } from "./types";
+
+// Algebraic model text, statements separated by ";" or line breaks:
+//   max: 3x + 2y;  c1: x + y <= 4;  c2: x + 3y >= 6;  x free;  y int;  0 <= z <= 10;
+// Terms may come in any order with constants on either side. Keywords are case-insensitive, names are not.
+// A line break after an operator or before a relation doesn't end the statement, so long rows can be wrapped.
+
+export type ModelParseError = {
+  message: string;
+  // 1-based position of the offending token
+  line: number;
+  column: number;
+};
+
+// Warnings list what a model file held that the app can't represent and so left out
+export type ModelParseResult =
+  | { ok: true; model: LPModel; constraintNames: string[]; warnings: string[] }
+  | { ok: false; error: ModelParseError };
+
+type TokenKind = "number" | "name" | "operator" | "relation" | "colon" | "comma" | "end" | "eof";
+
+type Token = { kind: TokenKind; text: string; value: number; line: number; column: number };
+
+const OBJECTIVE_KEYWORDS: Record<string, OptType> = {
+  max: "Maximize",
+  maximize: "Maximize",
+  maximise: "Maximize",
+  min: "Minimize",
+  minimize: "Minimize",
+  minimise: "Minimize",
+};
+
+// "x free", "y int" or "int y, z"
+const DECLARATION_KEYWORDS: Record<string, VariableKind | "free"> = {
+  free: "free",
+  int: "integer",
+  integer: "integer",
+  bin: "binary",
+  binary: "binary",
+};
+
+// "subject to" is optional, and only separates the objective from the constraints
+const SUBJECT_TO = ["s.t.", "st", "subject", "such"];
+
+const RELATIONS: Record<string, ConstraintType> = {
+  "<=": "≤", "=<": "≤", "<": "≤", "≤": "≤",
+  ">=": "≥", "=>": "≥", ">": "≥", "≥": "≥",
+  "=": "=", "==": "=",
+};
+
+const INFINITY_WORDS = ["inf", "infinity", "∞"];
+
+const isKeyword = (table: object, word: string): boolean => Object.prototype.hasOwnProperty.call(table, word);
+
+const isReserved = (name: string): boolean =>
+  isKeyword(OBJECTIVE_KEYWORDS, name) ||
+  isKeyword(DECLARATION_KEYWORDS, name) ||
+  SUBJECT_TO.includes(name) ||
+  INFINITY_WORDS.includes(name);
+
+// Thrown inside the parser and turned into the error result by parseModelText
+class ParseFailure {
+  constructor(readonly error: ModelParseError) {}
+}
+
+const fail = (token: Pick<Token, "line" | "column">, message: string): never => {
+  throw new ParseFailure({ message, line: token.line, column: token.column });
+};
+
+const describe = (token: Token): string => (token.kind === "eof" ? "end of input" : token.kind === "end" ? "end of statement" : `"${token.text}"`);
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const patterns: [TokenKind | "space" | "comment" | "newline", RegExp][] = [
+    ["newline", /^\r?\n/],
+    ["space", /^[ \t\r]+/],
+    ["comment", /^(\/\/|#)[^\n]*/],
+    ["name", /^s\.t\./i],
+    ["number", /^(\d+\.?\d*|\.\d+)/],
+    ["name", /^(∞|[A-Za-z_][A-Za-z0-9_]*)/],
+    ["relation", /^(<=|>=|=<|=>|==|<|>|=|≤|≥)/],
+    ["operator", /^[-+*/]/],
+    ["colon", /^:/],
+    ["comma", /^,/],
+    ["end", /^;/],
+  ];
+  let line = 1;
+  let column = 1;
+  let rest = text;
+  while (rest.length > 0) {
+    const match = patterns.map(([kind, pattern]) => [kind, pattern.exec(rest)?.[0]] as const).find(([, found]) => found);
+    if (!match) fail({ line, column }, `Unexpected character "${rest[0]}".`);
+    const [kind, found] = match!;
+    if (kind === "newline") {
+      tokens.push({ kind: "end", text: "\n", value: 0, line, column });
+      line++;
+      column = 1;
+    } else {
+      if (kind !== "space" && kind !== "comment") {
+        const lower = found!.toLowerCase();
+        const isWord = kind === "name" && (isReserved(lower) || lower === "to" || lower === "that");
+        tokens.push({
+          kind,
+          text: isWord ? lower : found!,
+          value: kind === "number" ? parseFloat(found!) : INFINITY_WORDS.includes(lower) ? Infinity : 0,
+          line,
+          column,
+        });
+      }
+      column += found!.length;
+    }
+    rest = rest.slice(found!.length);
+  }
+  tokens.push({ kind: "eof", text: "", value: 0, line, column });
+
+  // A statement continues past a line break that follows an operator, relation, colon or comma, or
+  // precedes a relation; a leading "-" starts a new statement, as in "-inf <= x <= 5"
+  return tokens.filter((token, i) => {
+    if (token.text !== "\n") return true;
+    let next = i + 1;
+    while (tokens[next]?.text === "\n") next++;
+    const previous = tokens[i - 1];
+    const continued = previous !== undefined && ["operator", "relation", "colon", "comma"].includes(previous.kind);
+    return !(continued || tokens[next].kind === "relation");
+  });
+};
+
+type Expression = { terms: Map<string, number>; constant: number; first: Token };
+
+export const parseModelText = (text: string): ModelParseResult => {
+  try {
+    return { ok: true, ...parseTokens(tokenize(text)) };
+  } catch (failure) {
+    if (failure instanceof ParseFailure) return { ok: false, error: failure.error };
+    throw failure;
+  }
+};
+
+const parseTokens = (tokens: Token[]): { model: LPModel; constraintNames: string[]; warnings: string[] } => {
+  let position = 0;
+  const peek = (offset = 0): Token => tokens[Math.min(position + offset, tokens.length - 1)];
+  const advance = (): Token => tokens[Math.min(position++, tokens.length - 1)];
+  const atStatementEnd = () => peek().kind === "end" || peek().kind === "eof";
+  const isSubjectTo = () => peek().kind === "name" && SUBJECT_TO.includes(peek().text);
+
+  // Variables in order of first appearance
+  const names: string[] = [];
+  const declareVariable = (token: Token): string => {
+    if (isReserved(token.text)) fail(token, `"${token.text}" is a keyword and can't be used as a variable name.`);
+    // the methods name their slack, surplus, artificial and cut columns this way and pick them out by name
+    if (isAuxiliaryColumn(token.text)) {
+      fail(token, `"${token.text}" is reserved for slack, surplus, artificial and cut columns; rename the variable.`);
+    }
+    if (!names.includes(token.text)) names.push(token.text);
+    return token.text;
+  };
+
+  const skipSubjectTo = () => {
+    const word = advance().text;
+    if (word === "subject" || word === "such") {
+      const next = advance();
+      if (next.kind !== "name" || next.text !== (word === "subject" ? "to" : "that")) {
+        fail(next, `Expected "${word === "subject" ? "subject to" : "such that"}".`);
+      }
+    }
+    if (peek().kind === "colon") advance();
+  };
+
+  // [sign] number [*] [name] | [sign] name, joined by + and -; a number may be a fraction like 1/2
+  const parseExpression = (): Expression => {
+    const terms = new Map<string, number>();
+    let constant = 0;
+    const first = peek();
+    let expectTerm = true;
+    while (true) {
+      let sign = 1;
+      const start = peek();
+      if (start.kind === "operator" && (start.text === "+" || start.text === "-")) {
+        advance();
+        sign = start.text === "-" ? -1 : 1;
+      } else if (!expectTerm) {
+        break;
+      }
+
+      let coefficient: number | null = null;
+      if (peek().kind === "number") {
+        coefficient = advance().value;
+        if (peek().kind === "operator" && peek().text === "/" && peek(1).kind === "number") {
+          advance();
+          const denominator = advance();
+          if (denominator.value === 0) fail(denominator, "Division by zero.");
+          coefficient /= denominator.value;
+        }
+        if (peek().kind === "operator" && peek().text === "*") {
+          advance();
+          if (peek().kind !== "name") fail(peek(), `Expected a variable after "*", found ${describe(peek())}.`);
+        }
+      }
+      const term = peek();
+      if (term.kind === "name" && !isSubjectTo() && INFINITY_WORDS.includes(term.text)) {
+        fail(term, "Infinity is only allowed in a bound such as -inf <= x <= 10.");
+      }
+      if (term.kind === "name" && !isSubjectTo()) {
+        advance();
+        const name = declareVariable(term);
+        terms.set(name, (terms.get(name) ?? 0) + sign * (coefficient ?? 1));
+      } else if (coefficient !== null) {
+        constant += sign * coefficient;
+      } else {
+        fail(term, `Expected a number or a variable, found ${describe(term)}.`);
+      }
+      expectTerm = false;
+    }
+    return { terms, constant, first };
+  };
+
+  let optType: OptType | null = null;
+  let objective = new Map<string, number>();
+  const rows: { name: string; terms: Map<string, number>; type: ConstraintType; rhs: number }[] = [];
+  const bounds = new Map<string, VariableBound>();
+  const kinds = new Map<string, VariableKind>();
+  const free = new Set<string>();
+  const warnings: string[] = [];
+
+  const parseDeclaration = () => {
+    const leading = isKeyword(DECLARATION_KEYWORDS, peek().text) ? advance() : null;
+    const declared: Token[] = [];
+    while (peek().kind === "name" && !isKeyword(DECLARATION_KEYWORDS, peek().text)) {
+      declared.push(advance());
+      if (peek().kind === "comma") advance();
+    }
+    const keyword = leading ?? advance();
+    if (!isKeyword(DECLARATION_KEYWORDS, keyword.text)) fail(keyword, `Expected free, int or bin, found ${describe(keyword)}.`);
+    if (declared.length === 0) fail(keyword, `Expected a variable name after "${keyword.text}".`);
+    const declaration = DECLARATION_KEYWORDS[keyword.text];
+    declared.forEach((token) => {
+      const name = declareVariable(token);
+      if (declaration === "free") free.add(name);
+      else kinds.set(name, declaration);
+      if (free.has(name) && kinds.get(name) === "binary") fail(token, `${name} can't be both free and binary.`);
+    });
+  };
+
+  // "lo <= x <= hi" on a single variable is a bound rather than a constraint
+  const parseBound = (lower: Expression, relation: Token, middle: Expression) => {
+    const second = advance();
+    const upper = parseLimit();
+    const [name, coefficient] = [...middle.terms][0] ?? [];
+    if (middle.terms.size !== 1 || coefficient !== 1 || middle.constant !== 0) {
+      fail(middle.first, "Only a single variable can sit between two inequalities, as a bound.");
+    }
+    if (lower.terms.size > 0 || upper.terms.size > 0) fail(lower.first, "The limits of a bound must be numbers.");
+    if (RELATIONS[relation.text] !== "≤" || RELATIONS[second.text] !== "≤") {
+      fail(second, "Write a bound as lower <= variable <= upper.");
+    }
+    if (lower.constant > upper.constant) fail(lower.first, `The lower bound of ${name} is greater than its upper bound.`);
+    bounds.set(name, { lower: lower.constant, upper: upper.constant });
+  };
+
+  // A bound written with inf, -inf or ∞ on either side
+  const parseLimit = (): Expression => {
+    const first = peek();
+    const negative = first.kind === "operator" && first.text === "-" && INFINITY_WORDS.includes(peek(1).text);
+    if (negative) advance();
+    if (INFINITY_WORDS.includes(peek().text)) {
+      advance();
+      return { terms: new Map(), constant: negative ? -Infinity : Infinity, first };
+    }
+    return parseExpression();
+  };
+
+  const parseConstraint = (label: Token | null) => {
+    const left = parseLimit();
+    const relation = peek();
+    if (relation.kind !== "relation") {
+      fail(relation, `Expected <=, >= or =, found ${describe(relation)}.`);
+    }
+    advance();
+    const right = parseLimit();
+    if (peek().kind === "relation") {
+      if (label) fail(label, "A bound can't have a name.");
+      parseBound(left, relation, right);
+      return;
+    }
+    if (!Number.isFinite(left.constant) || !Number.isFinite(right.constant)) {
+      fail(left.first, "Infinity is only allowed in a bound such as -inf <= x <= 10.");
+    }
+
+    const terms = new Map(left.terms);
+    right.terms.forEach((value, name) => terms.set(name, (terms.get(name) ?? 0) - value));
+    if ([...terms.values()].every((value) => value === 0)) fail(left.first, "This constraint has no variables.");
+    const name = label?.text ?? `c${rows.length + 1}`;
+    if (rows.some((row) => row.name === name)) fail(label ?? left.first, `Constraint ${name} is defined twice.`);
+    rows.push({ name, terms, type: RELATIONS[relation.text], rhs: right.constant - left.constant });
+  };
+
+  while (peek().kind !== "eof") {
+    if (atStatementEnd()) {
+      advance();
+      continue;
+    }
+    const first = peek();
+    if (isSubjectTo()) {
+      skipSubjectTo();
+      continue;
+    }
+
+    if (first.kind === "name" && isKeyword(OBJECTIVE_KEYWORDS, first.text)) {
+      if (optType !== null) fail(first, "The model already has an objective.");
+      advance();
+      optType = OBJECTIVE_KEYWORDS[first.text];
+      // an optional objective name, as in "max profit: 3x + 2y"
+      if (peek().kind === "name" && peek(1).kind === "colon") advance();
+      if (peek().kind === "colon") advance();
+      const expression = parseExpression();
+      objective = expression.terms;
+      // a constant shifts Z but not the optimal point, and the tableau has no place for it
+      if (expression.constant !== 0) warnings.push(`The objective constant ${formatNumber(expression.constant)} was dropped.`);
+      // "max 3x + 2y s.t. ..." needs no separator before the constraints
+      if (!atStatementEnd() && !isSubjectTo()) fail(peek(), `Expected ";" after the objective, found ${describe(peek())}.`);
+      continue;
+    }
+
+    // "x, y int" is names and commas ending in a keyword; "int x, y" starts with one
+    const statement = tokens.slice(position, tokens.findIndex((token, i) => i >= position && (token.kind === "end" || token.kind === "eof")));
+    const isDeclaration =
+      isKeyword(DECLARATION_KEYWORDS, first.text) ||
+      (statement.every((token) => token.kind === "name" || token.kind === "comma") &&
+        isKeyword(DECLARATION_KEYWORDS, statement[statement.length - 1].text));
+    if (isDeclaration) {
+      parseDeclaration();
+    } else {
+      const label = first.kind === "name" && peek(1).kind === "colon" ? advance() : null;
+      if (label) {
+        if (isReserved(label.text)) fail(label, `"${label.text}" is a keyword and can't name a constraint.`);
+        advance();
+      }
+      parseConstraint(label);
+    }
+    if (!atStatementEnd()) fail(peek(), `Expected ";" or a new line, found ${describe(peek())}.`);
+  }
+
+  if (optType === null) fail(peek(), "The model has no objective; start it with max: or min:.");
+  if (names.length === 0) fail(peek(), "The model has no variables.");
+
+  return {
+    model: {
+      objective: names.map((name) => objective.get(name) ?? 0),
+      constraintsMatrix: rows.map((row) => names.map((name) => row.terms.get(name) ?? 0)),
+      rhs: rows.map((row) => row.rhs),
+      constraintTypes: rows.map((row) => row.type),
+      optType: optType!,
+      bounds: names.map((name) =>
+        free.has(name) ? { lower: -Infinity, upper: Infinity } : bounds.get(name) ?? { lower: 0, upper: Infinity }
+      ),
+      variableNames: names,
+      constraintNames: rows.map((row) => row.name),
+      kinds: names.map((name) => kinds.get(name) ?? "continuous"),
+    },
+    constraintNames: rows.map((row) => row.name),
+    warnings,
+  };
+};
+
+// Full precision without an exponent, which the tokenizer would read as a coefficient and a name
+const formatNumber = (value: number): string => {
+  const match = /^(-?)(\d)(?:\.(\d+))?e([+-]\d+)$/.exec(String(value));
+  if (!match) return String(value);
+  const [, sign, lead, fraction = "", exponent] = match;
+  const digits = lead + fraction;
+  const point = 1 + Number(exponent);
+  if (point <= 0) return `${sign}0.${"0".repeat(-point)}${digits}`;
+  return point >= digits.length ? `${sign}${digits.padEnd(point, "0")}` : `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+};
+
+const formatLimit = (value: number): string =>
+  value === Infinity ? "inf" : value === -Infinity ? "-inf" : formatNumber(value);
+
+// "3x1 - y" or "3 chairs"; a zero coefficient is only written when asked for
+const formatExpression = (coefficients: readonly number[], names: readonly string[], keepZeros = false): string => {
+  const terms = coefficients
+    .map((value, j) => {
+      if (value === 0 && !keepZeros) return null;
+      const magnitude = Math.abs(value) === 1 ? "" : formatNumber(Math.abs(value));
+      const separator = magnitude !== "" && !/^[A-Za-z]\d*$/.test(names[j]) ? " " : "";
+      return `${value < 0 ? "-" : "+"} ${magnitude}${separator}${names[j]}`;
+    })
+    .filter((term): term is string => term !== null);
+  if (terms.length === 0) return "0";
+  return terms.join(" ").replace(/^\+ /, "");
+};
+
+// The text form of a model, one statement per line; parseModelText reads it back
+export const formatModelText = (model: LPModel, constraintNames?: readonly string[]): string => {
+  const names = modelVariableNames(model);
+  const labels = constraintNames ?? modelConstraintNames(model);
+  const relation: Record<ConstraintType, string> = { "≤": "<=", "≥": ">=", "=": "=" };
+  const objective = formatExpression(model.objective, names, !columnsAppearInOrder(model));
+  const lines = [
+    `${model.optType === "Maximize" ? "max" : "min"}: ${objective};`,
+    ...model.constraintsMatrix.map(
+      (row, i) =>
+        `${labels[i] || `c${i + 1}`}: ${formatExpression(row, names)} ` +
+        `${relation[model.constraintTypes[i] ?? "≤"]} ${formatNumber(model.rhs[i])};`
+    ),
+  ];
+  boundsOf(model).forEach(({ lower, upper }, i) => {
+    if (lower === -Infinity && upper === Infinity) lines.push(`${names[i]} free;`);
+    else if (lower !== 0 || upper !== Infinity) lines.push(`${formatLimit(lower)} <= ${names[i]} <= ${formatLimit(upper)};`);
+  });
+  (model.kinds ?? []).forEach((kind, i) => {
+    if (kind !== "continuous") lines.push(`${names[i]} ${kind === "integer" ? "int" : "bin"};`);
+  });
+  return lines.join("\n");
+};
@@ -0,0 +1,107 @@
+import { Arithmetic, compare, solveLinearSystem } from "./arithmetic";
+import { formatConstraints } from "./format";
+import { arithmeticOf, constraintColumns, isDecisionColumn, toStandardForm } from "./tableau";
+import { LPModel, Tableau } from "./types";
+
+// Allowable changes are null when unlimited
+export type CostRange<T> = {
+  variable: string;
+  basic: boolean;
+  current: T;
+  increase: T | null;
+  decrease: T | null;
+};
+
+export type RhsRange<T> = {
+  constraint: string;
+  current: T;
+  increase: T | null;
+  decrease: T | null;
+};
+
+export type ReducedCost<T> = { variable: string; value: T };
+
+export type SensitivityReport<T> = {
+  costs: CostRange<T>[];
+  rhs: RhsRange<T>[];
+  reducedCosts: ReducedCost<T>[];
+};
+
+// Smallest of the candidate ratios, or null when there are none
+const minimum = <T>(ar: Arithmetic<T>, values: T[]): T | null =>
+  values.reduce<T | null>((best, v) => (best === null || compare(ar, v, best) < 0 ? v : best), null);
+
+// B⁻¹eᵢ for constraint i when its own column is gone, as the artificial column of an = row is after
+// Phase 1: the solution d of B·d = eᵢ, where B holds the standard form columns of the basic variables.
+// Null when a basic column isn't part of the standard form (a Gomory cut) or row i was dropped as
+// redundant, so that no such d exists.
+const inverseBasisColumn = <T>(tableau: Tableau<T>, model: LPModel, i: number): T[] | null => {
+  const ar = arithmeticOf(tableau);
+  const { originalVars, slackVars, surplusVars, artificialVars, rows } = toStandardForm(model);
+  const names = [...originalVars, ...slackVars, ...surplusVars, ...artificialVars];
+  const columns = tableau.basis.map((name) => names.indexOf(name));
+  if (columns.includes(-1)) return null;
+
+  const basisMatrix = rows.map((row) => columns.map((j) => ar.fromNumber(row[j])));
+  const unit = rows.map((_, k) => (k === i ? ar.one : ar.zero));
+  const d = solveLinearSystem(ar, basisMatrix, unit, columns.length);
+  const solves = basisMatrix.every((row, k) => compare(ar, row.reduce((sum, v, r) => ar.add(sum, ar.mul(v, d[r])), ar.zero), unit[k]) === 0);
+  return solves ? d : null;
+};
+
+// Ranging on an optimal "max" tableau. `model` is the model the tableau was built from; Minimize
+// problems were maximized with a negated objective, so their increases and decreases swap back.
+export const sensitivityReport = <T>(tableau: Tableau<T>, model: LPModel): SensitivityReport<T> => {
+  const ar = arithmeticOf(tableau);
+  const { variables, basis, rows, cj, cjMinusZj } = tableau;
+  const minimize = model.optType === "Minimize";
+  const user = (v: T) => (minimize ? ar.neg(v) : v);
+  const nonbasic = variables.map((_, j) => j).filter((j) => !basis.includes(variables[j]));
+
+  // Objective coefficients: a nonbasic cj can rise until its Cj - Zj reaches 0; changing a basic cj by Δ
+  // shifts every nonbasic Cj - Zj by -Δ·a_rj, which must stay ≤ 0
+  const costs = variables
+    .map((variable, j) => ({ variable, j }))
+    .filter(({ variable }) => isDecisionColumn(variable))
+    .map(({ variable, j }) => {
+      const row = basis.indexOf(variable);
+      let up: T | null;
+      let down: T | null;
+      if (row === -1) {
+        up = ar.neg(cjMinusZj[j]);
+        down = null;
+      } else {
+        up = minimum(ar, nonbasic.filter((k) => ar.sign(rows[row][k]) < 0).map((k) => ar.div(cjMinusZj[k], rows[row][k])));
+        down = minimum(ar, nonbasic.filter((k) => ar.sign(rows[row][k]) > 0).map((k) => ar.div(ar.neg(cjMinusZj[k]), rows[row][k])));
+      }
+      return {
+        variable,
+        basic: row !== -1,
+        current: user(cj[j]),
+        increase: minimize ? down : up,
+        decrease: minimize ? up : down,
+      };
+    });
+
+  // Right-hand sides: raising bᵢ by Δ moves the basic values by Δ·B⁻¹eᵢ, which must stay ≥ 0
+  const labels = formatConstraints(model);
+  const rhs = constraintColumns(model).flatMap(({ name, sign }, i) => {
+    const column = variables.indexOf(name);
+    const own = column === -1 ? inverseBasisColumn(tableau, model, i) : rows.map((row) => row[column]);
+    if (own === null) return [];
+    const direction = own.map((v) => (sign < 0 ? ar.neg(v) : v));
+    const value = (r: number) => rows[r][rows[r].length - 1];
+    const indexes = rows.map((_, r) => r);
+    return [{
+      constraint: labels[i],
+      current: ar.fromNumber(model.rhs[i]),
+      increase: minimum(ar, indexes.filter((r) => ar.sign(direction[r]) < 0).map((r) => ar.div(value(r), ar.neg(direction[r])))),
+      decrease: minimum(ar, indexes.filter((r) => ar.sign(direction[r]) > 0).map((r) => ar.div(value(r), direction[r]))),
+    }];
+  });
+
+  // Reduced costs in the user's orientation: ≤ 0 when maximizing, ≥ 0 when minimizing
+  const reducedCosts = nonbasic.map((j) => ({ variable: variables[j], value: user(cjMinusZj[j]) }));
+
+  return { costs, rhs, reducedCosts };
+};
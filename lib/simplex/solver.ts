@@ -0,0 +1,177 @@
+import { compare } from "./arithmetic";
+import { arithmeticOf, basisKey, isArtificialColumn, objectiveValue, performPivot } from "./tableau";
+import { PivotChoice, SolveResult, SolveStatus, StepResult, Tableau } from "./types";
+
+export const MAX_ITERATIONS = 100;
+
+type RatioTest<T> = { row: number; ratio: T };
+
+// Minimum ratio test on one column. Ties go to the first row, or under Bland's rule
+// to the basic variable with the smallest subscript.
+export const ratioTest = <T>(tableau: Tableau<T>, column: number): RatioTest<T> | null => {
+  const ar = arithmeticOf(tableau);
+  const { rows, variables, basis } = tableau;
+
+  let best: RatioTest<T> | null = null;
+  for (let i = 0; i < rows.length; i++) {
+    const colVal = rows[i][column];
+    const rhsVal = rows[i][rows[i].length - 1];
+    if (ar.sign(colVal) <= 0) continue;
+    const ratio = ar.div(rhsVal, colVal);
+    if (ar.sign(ratio) < 0) continue;
+    const order = best === null ? -1 : compare(ar, ratio, best.ratio);
+    const blandTie =
+      order === 0 &&
+      tableau.pivotRule === "bland" &&
+      variables.indexOf(basis[i]) < variables.indexOf(basis[best!.row]);
+    if (order < 0 || blandTie) best = { row: i, ratio };
+  }
+  return best;
+};
+
+// Pick the entering column among those whose Cj - Zj would improve the objective
+const chooseEnteringColumn = <T>(tableau: Tableau<T>, improvement: readonly T[]): number => {
+  const ar = arithmeticOf(tableau);
+  const candidates = improvement.map((_, j) => j).filter((j) => ar.sign(improvement[j]) > 0);
+  if (candidates.length === 0) return -1;
+
+  const argMax = (score: (j: number) => T) =>
+    candidates.reduce((best, j) => (compare(ar, score(j), score(best)) > 0 ? j : best));
+
+  switch (tableau.pivotRule) {
+    case "bland":
+      // smallest subscript among the improving columns
+      return candidates[0];
+    case "greatest-improvement": {
+      // largest Cj - Zj times the step length θ; a column without a ratio test row is unbounded
+      const unbounded = candidates.find((j) => ratioTest(tableau, j) === null);
+      if (unbounded !== undefined) return unbounded;
+      return argMax((j) => ar.mul(improvement[j], ratioTest(tableau, j)!.ratio));
+    }
+    case "steepest-edge": {
+      // largest Cj - Zj per unit length of the edge direction, compared as (Cj - Zj)² / (1 + Σ aij²)
+      const score = (j: number) => {
+        const d = ar.toNumber(improvement[j]);
+        const norm = tableau.rows.reduce((sum, row) => sum + ar.toNumber(row[j]) ** 2, 1);
+        return (d * d) / norm;
+      };
+      return candidates.reduce((best, j) => (score(j) > score(best) ? j : best));
+    }
+    default:
+      // Dantzig: largest Cj - Zj
+      return argMax((j) => improvement[j]);
+  }
+};
+
+// Entering column by the tableau's pivot rule, leaving row by the minimum ratio test
+export const choosePivot = <T>(tableau: Tableau<T>): PivotChoice => {
+  const ar = arithmeticOf(tableau);
+  const { variables, basis, sense } = tableau;
+  // Phase 1 and other "min" tableaux improve along negative Cj - Zj, so flip them to reuse the max logic
+  const improvement = tableau.cjMinusZj.slice(0, variables.length).map((v) => (sense === "max" ? v : ar.neg(v)));
+
+  const column = chooseEnteringColumn(tableau, improvement);
+  if (column === -1) return { kind: "optimal" };
+
+  const entering = variables[column];
+  const leavingRow = ratioTest(tableau, column);
+
+  if (leavingRow === null) return { kind: "unbounded", column, entering };
+  return {
+    kind: "pivot",
+    column,
+    row: leavingRow.row,
+    entering,
+    leaving: basis[leavingRow.row],
+    degenerate: ar.sign(leavingRow.ratio) === 0,
+  };
+};
+
+// A pivot that returns to a basis seen earlier means the simplex method is cycling
+export const repeatsBasis = <T>(tableau: Tableau<T>): boolean => tableau.visitedBases.includes(basisKey(tableau));
+
+// Artificial variables still basic at a positive level
+const positiveArtificials = <T>(tableau: Tableau<T>): string[] => {
+  const ar = arithmeticOf(tableau);
+  return tableau.basis.filter((name, i) => {
+    const row = tableau.rows[i];
+    return isArtificialColumn(name) && ar.sign(row[row.length - 1]) > 0;
+  });
+};
+
+// Status of a tableau that has no improving column left. Phase 1 is infeasible when W > 0,
+// Big-M when an artificial variable is still positive at the optimum.
+export const optimalStatus = <T>(tableau: Tableau<T>): SolveStatus => {
+  if (tableau.phase1 && arithmeticOf(tableau).sign(objectiveValue(tableau)) !== 0) return SolveStatus.Infeasible;
+  if (tableau.bigM && positiveArtificials(tableau).length > 0) return SolveStatus.Infeasible;
+  return SolveStatus.Optimal;
+};
+
+// Perform one simplex iteration, or report why none is possible
+export const nextIteration = <T>(tableau: Tableau<T>): StepResult<T> => {
+  const choice = choosePivot(tableau);
+
+  if (choice.kind === "optimal") {
+    return { tableau, status: optimalStatus(tableau), entering: null, leaving: null };
+  }
+  if (choice.kind === "unbounded") {
+    return { tableau, status: SolveStatus.Unbounded, entering: choice.entering, leaving: null };
+  }
+
+  try {
+    const next = performPivot(tableau, choice.row, choice.column);
+    const after = choosePivot(next);
+    return {
+      tableau: next,
+      status: repeatsBasis(next) ? SolveStatus.Cycling : after.kind === "optimal" ? optimalStatus(next) : null,
+      entering: choice.entering,
+      leaving: choice.leaving,
+      degenerate: choice.degenerate,
+    };
+  } catch (err) {
+    return {
+      tableau,
+      status: SolveStatus.NumericalError,
+      entering: choice.entering,
+      leaving: choice.leaving,
+      error: (err as Error).message,
+    };
+  }
+};
+
+// Iterate until the tableau is optimal, unbounded, infeasible or the iteration cap is hit.
+// `step` picks the method, e.g. nextDualIteration for the dual simplex.
+export const solve = <T>(
+  tableau: Tableau<T>,
+  maxIterations: number = MAX_ITERATIONS,
+  step: (tableau: Tableau<T>) => StepResult<T> = nextIteration
+): SolveResult<T> => {
+  const history = [tableau];
+  let current = tableau;
+
+  while (history.length - 1 < maxIterations) {
+    const result = step(current);
+    if (result.tableau !== current) {
+      current = result.tableau;
+      history.push(current);
+    }
+    if (result.status !== null) {
+      return {
+        status: result.status,
+        tableau: current,
+        history,
+        iterations: history.length - 1,
+        entering: result.status === SolveStatus.Unbounded ? result.entering : null,
+        error: result.error,
+      };
+    }
+  }
+
+  return {
+    status: SolveStatus.IterationLimit,
+    tableau: current,
+    history,
+    iterations: history.length - 1,
+    entering: null,
+  };
+};
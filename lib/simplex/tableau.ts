@@ -0,0 +1,380 @@
+import {
+  Arithmetic,
+  BigM,
+  bigMArithmetic,
+  bigMExactArithmetic,
+  bigMFloatArithmetic,
+  exactArithmetic,
+  exactArithmeticWith,
+  floatArithmetic,
+} from "./arithmetic";
+import { modelVariableNames } from "./format";
+import { ArtificialDriveOut, ConstraintType, LPModel, PivotRule, Sense, Tableau } from "./types";
+
+type TableauParts<T> = {
+  variables: readonly string[];
+  cj: readonly T[];
+  basis: readonly string[];
+  rows: readonly (readonly T[])[];
+  sense: Sense;
+  phase1?: boolean;
+  pivotRule?: PivotRule;
+};
+
+// Columns the methods add are a letter and a number: slack s, surplus e, artificial a and Gomory cut g, plus
+// the goal deviations d⁻ and d⁺. Every other column belongs to a decision variable, whatever its name.
+const AUXILIARY_COLUMN = /^([seag]\d+|d\d+[⁻⁺])$/;
+
+export const isAuxiliaryColumn = (name: string): boolean => AUXILIARY_COLUMN.test(name);
+
+export const isDecisionColumn = (name: string): boolean => !isAuxiliaryColumn(name);
+
+export const isArtificialColumn = (name: string): boolean => /^a\d+$/.test(name);
+
+export const isCutColumn = (name: string): boolean => /^g\d+$/.test(name);
+
+export const arithmeticOf = <T>(tableau: Tableau<T>): Arithmetic<T> => {
+  const exact = tableau.arithmetic === "exact";
+  // a tableau carrying entered cells reads them back the way its arithmetic did when it was built
+  if (exact && tableau.exactValues) {
+    const base = exactArithmeticWith(tableau.exactValues);
+    return (tableau.bigM ? bigMArithmetic(base) : base) as unknown as Arithmetic<T>;
+  }
+  if (tableau.bigM) return (exact ? bigMExactArithmetic : bigMFloatArithmetic) as unknown as Arithmetic<T>;
+  return (exact ? exactArithmetic : floatArithmetic) as unknown as Arithmetic<T>;
+};
+
+export const formatValue = <T>(tableau: Tableau<T>, value: T): string => arithmeticOf(tableau).format(value);
+
+// Build a tableau from its constraint rows, filling in Zj and Cj - Zj
+export const createTableau = <T>(
+  ar: Arithmetic<T>,
+  { variables, cj, basis, rows, sense, phase1 = false, pivotRule = "dantzig" }: TableauParts<T>
+): Tableau<T> =>
+  computeZjAndCjMinusZj({
+    variables,
+    cj,
+    basis,
+    rows,
+    zj: [],
+    cjMinusZj: [],
+    sense,
+    phase1,
+    arithmetic: ar.mode,
+    ...(ar.exactValues ? { exactValues: ar.exactValues } : {}),
+    bigM: ar.bigM ?? false,
+    pivotRule,
+    visitedBases: [],
+  });
+
+export const withPivotRule = <T>(tableau: Tableau<T>, pivotRule: PivotRule): Tableau<T> => ({ ...tableau, pivotRule });
+
+// Order-independent identifier of the current basis
+export const basisKey = <T>(tableau: Tableau<T>): string => [...tableau.basis].sort().join(",");
+
+export const computeZjAndCjMinusZj = <T>(tableau: Tableau<T>): Tableau<T> => {
+  const ar = arithmeticOf(tableau);
+  const { rows, basis, cj, variables } = tableau;
+  const cols = variables.length + 1; // last is RHS
+
+  // CB values come from the Cj of each basic variable
+  const cb = basis.map((b) => {
+    const idx = variables.indexOf(b);
+    return idx === -1 ? ar.zero : cj[idx] ?? ar.zero;
+  });
+
+  const zj: T[] = [];
+  for (let j = 0; j < cols; j++) {
+    let sum = ar.zero;
+    for (let i = 0; i < rows.length; i++) {
+      sum = ar.add(sum, ar.mul(cb[i], rows[i][j]));
+    }
+    zj.push(ar.sign(sum) === 0 ? ar.zero : sum);
+  }
+
+  const cjMinusZj: T[] = [];
+  for (let j = 0; j < cols; j++) {
+    const diff = j < variables.length ? ar.sub(cj[j], zj[j]) : ar.zero;
+    cjMinusZj.push(ar.sign(diff) === 0 ? ar.zero : diff);
+  }
+
+  return { ...tableau, zj, cjMinusZj };
+};
+
+// Gauss-Jordan pivot on (row, col); the entering variable replaces the row's basic variable
+export const performPivot = <T>(tableau: Tableau<T>, pivotRowIdx: number, pivotColIdx: number): Tableau<T> => {
+  const ar = arithmeticOf(tableau);
+  const rows = tableau.rows.map((r) => r.slice());
+  const cols = rows[pivotRowIdx].length;
+  const pivotVal = rows[pivotRowIdx][pivotColIdx];
+
+  if (ar.negligible(pivotVal)) {
+    throw new Error("Pivot value is too close to zero.");
+  }
+
+  // normalize pivot row
+  for (let j = 0; j < cols; j++) {
+    const value = ar.div(rows[pivotRowIdx][j], pivotVal);
+    rows[pivotRowIdx][j] = ar.negligible(value) ? ar.zero : value;
+  }
+
+  // eliminate other rows
+  for (let i = 0; i < rows.length; i++) {
+    if (i === pivotRowIdx) continue;
+    const factor = rows[i][pivotColIdx];
+    if (ar.negligible(factor)) continue;
+    for (let j = 0; j < cols; j++) {
+      const value = ar.sub(rows[i][j], ar.mul(factor, rows[pivotRowIdx][j]));
+      rows[i][j] = ar.negligible(value) ? ar.zero : value;
+    }
+  }
+
+  const basis = tableau.basis.slice();
+  basis[pivotRowIdx] = tableau.variables[pivotColIdx];
+  const visitedBases = [...tableau.visitedBases, basisKey(tableau)];
+
+  return computeZjAndCjMinusZj({ ...tableau, rows, basis, visitedBases });
+};
+
+// Standard simplex start for all-≤ problems: one slack per row, slacks form the basis.
+// Minimize problems are turned into maximization by negating the objective.
+export const createInitialSimplexTable = <T>(model: LPModel, ar: Arithmetic<T>): Tableau<T> => {
+  const { objective, constraintsMatrix, rhs, optType } = model;
+  const numConstraints = constraintsMatrix.length;
+
+  const adjustedObjective = optType === "Minimize" ? objective.map((v) => -v) : [...objective];
+  const slackVars = Array.from({ length: numConstraints }, (_, i) => `s${i + 1}`);
+
+  const rows = constraintsMatrix.map((constraint, i) => [
+    ...constraint,
+    ...slackVars.map((_, j) => (i === j ? 1 : 0)),
+    rhs[i],
+  ].map(ar.fromNumber));
+
+  return createTableau(ar, {
+    variables: [...modelVariableNames(model), ...slackVars],
+    cj: [...adjustedObjective, ...Array(numConstraints).fill(0)].map(ar.fromNumber),
+    basis: slackVars,
+    rows,
+    sense: "max",
+  });
+};
+
+export type StandardForm = {
+  originalVars: string[];
+  slackVars: string[];
+  surplusVars: string[];
+  artificialVars: string[];
+  rows: number[][];
+  basis: string[];
+};
+
+const flippedType: Record<ConstraintType, ConstraintType> = { "≤": "≥", "≥": "≤", "=": "=" };
+
+// Multiply rows with a negative RHS by -1 so the starting basis is feasible
+export const withNonNegativeRhs = (model: LPModel): LPModel => {
+  const flip = model.rhs.map((value) => value < 0);
+  return {
+    ...model,
+    constraintsMatrix: model.constraintsMatrix.map((row, i) => (flip[i] ? row.map((v) => -v) : row)),
+    rhs: model.rhs.map((value, i) => (flip[i] ? -value : value)),
+    constraintTypes: model.constraintTypes.map((type, i) => (flip[i] ? flippedType[type] : type)),
+  };
+};
+
+// The slack, surplus or artificial column each constraint gets in standard form, with the sign
+// linking it to that constraint's original RHS: B⁻¹eᵢ = sign × column. Rows flipped for a negative
+// RHS and surplus columns (coefficient -1) each contribute a factor of -1.
+export const constraintColumns = (model: LPModel): { name: string; sign: 1 | -1 }[] => {
+  const { constraintTypes } = withNonNegativeRhs(model);
+  let slackIndex = 0;
+  let surplusIndex = 0;
+  let artificialIndex = 0;
+
+  return constraintTypes.map((type, i) => {
+    const flip = model.rhs[i] < 0 ? -1 : 1;
+    if (type === "≤") return { name: `s${++slackIndex}`, sign: flip };
+    artificialIndex++;
+    if (type === "≥") return { name: `e${++surplusIndex}`, sign: -flip as 1 | -1 };
+    return { name: `a${artificialIndex}`, sign: flip };
+  });
+};
+
+// The label of the constraint each slack, surplus and artificial column belongs to, numbered as in
+// toStandardForm below; columns of constraints the user didn't name are left out
+export const auxiliaryColumnLabels = (model: LPModel): Record<string, string> => {
+  const { constraintTypes } = withNonNegativeRhs(model);
+  let slackIndex = 0;
+  let surplusIndex = 0;
+  let artificialIndex = 0;
+
+  const columns = constraintTypes.map((type) => {
+    if (type === "≤") return [`s${++slackIndex}`];
+    const artificial = `a${++artificialIndex}`;
+    return type === "≥" ? [`e${++surplusIndex}`, artificial] : [artificial];
+  });
+  return Object.fromEntries(
+    columns.flatMap((names, i) => {
+      const label = model.constraintNames?.[i]?.trim();
+      return label ? names.map((name) => [name, label]) : [];
+    })
+  );
+};
+
+// The same for the slack basis of createInitialSimplexTable, where row i always gets s(i + 1)
+export const slackColumnLabels = (model: LPModel): Record<string, string> =>
+  Object.fromEntries(
+    model.rhs.flatMap((_, i) => {
+      const label = model.constraintNames?.[i]?.trim();
+      return label ? [[`s${i + 1}`, label]] : [];
+    })
+  );
+
+// Slack for ≤, surplus + artificial for ≥, artificial for =; the slacks and artificials form the basis
+export const toStandardForm = (model: LPModel): StandardForm => {
+  const { constraintsMatrix, rhs, constraintTypes } = withNonNegativeRhs(model);
+
+  const slackCount = constraintTypes.filter((type) => type === "≤").length;
+  const surplusCount = constraintTypes.filter((type) => type === "≥").length;
+  const artificialCount = surplusCount + constraintTypes.filter((type) => type === "=").length;
+
+  const originalVars = modelVariableNames(model);
+  const slackVars = Array.from({ length: slackCount }, (_, i) => `s${i + 1}`);
+  const surplusVars = Array.from({ length: surplusCount }, (_, i) => `e${i + 1}`);
+  const artificialVars = Array.from({ length: artificialCount }, (_, i) => `a${i + 1}`);
+
+  const rows: number[][] = [];
+  const basis: string[] = [];
+  let slackIndex = 0;
+  let surplusIndex = 0;
+  let artificialIndex = 0;
+
+  constraintsMatrix.forEach((constraint, i) => {
+    const type = constraintTypes[i];
+    const isSlack = type === "≤";
+    const isSurplus = type === "≥";
+    const isArtificial = type === "≥" || type === "=";
+
+    rows.push([
+      ...constraint,
+      ...slackVars.map((_, j) => (isSlack && j === slackIndex ? 1 : 0)),
+      ...surplusVars.map((_, j) => (isSurplus && j === surplusIndex ? -1 : 0)),
+      ...artificialVars.map((_, j) => (isArtificial && j === artificialIndex ? 1 : 0)),
+      rhs[i],
+    ]);
+
+    if (isSlack) {
+      basis.push(slackVars[slackIndex++]);
+    } else {
+      basis.push(artificialVars[artificialIndex++]);
+      if (isSurplus) surplusIndex++;
+    }
+  });
+
+  return { originalVars, slackVars, surplusVars, artificialVars, rows, basis };
+};
+
+// Phase 1 of the Two-Phase method: minimize W = sum of artificials
+export const createInitialPhase1Table = <T>(model: LPModel, ar: Arithmetic<T>): Tableau<T> => {
+  const { originalVars, slackVars, surplusVars, artificialVars, rows, basis } = toStandardForm(model);
+
+  return createTableau(ar, {
+    variables: [...originalVars, ...slackVars, ...surplusVars, ...artificialVars],
+    cj: [
+      ...Array(originalVars.length + slackVars.length + surplusVars.length).fill(0),
+      ...Array(artificialVars.length).fill(1),
+    ].map(ar.fromNumber),
+    basis,
+    rows: rows.map((row) => row.map(ar.fromNumber)),
+    sense: "min",
+    phase1: true,
+  });
+};
+
+// Big-M method: one tableau where every artificial variable costs M. Like the standard simplex,
+// Minimize problems are maximized with a negated objective, so artificials are priced at -M.
+export const createBigMTable = <T>(model: LPModel, base: Arithmetic<T>): Tableau<BigM<T>> => {
+  const ar = bigMArithmetic(base);
+  const { originalVars, slackVars, surplusVars, artificialVars, rows, basis } = toStandardForm(model);
+  const adjustedObjective = model.optType === "Minimize" ? model.objective.map((v) => -v) : model.objective;
+
+  return createTableau(ar, {
+    variables: [...originalVars, ...slackVars, ...surplusVars, ...artificialVars],
+    cj: [
+      ...[...adjustedObjective, ...Array(slackVars.length + surplusVars.length).fill(0)].map(ar.fromNumber),
+      ...artificialVars.map(() => ar.neg({ m: base.one, c: base.zero })),
+    ],
+    basis,
+    rows: rows.map((row) => row.map(ar.fromNumber)),
+    sense: "max",
+  });
+};
+
+
+// Pivot every artificial variable left in the basis of a finished Phase 1 tableau out on any
+// nonzero non-artificial entry of its row. The artificial sits at zero level, so the pivot keeps
+// the basis feasible. A row with no such entry is a linear combination of the other constraints
+// and is dropped.
+export const driveOutArtificials = <T>(phase1: Tableau<T>): ArtificialDriveOut<T> => {
+  const ar = arithmeticOf(phase1);
+  let tableau = phase1;
+  const dropped: number[] = [];
+
+  phase1.basis.forEach((name, i) => {
+    if (!isArtificialColumn(name)) return;
+    const column = tableau.variables.findIndex((v, j) => !isArtificialColumn(v) && ar.sign(tableau.rows[i][j]) !== 0);
+    if (column === -1) dropped.push(i);
+    else tableau = performPivot(tableau, i, column);
+  });
+
+  if (dropped.length > 0) {
+    tableau = computeZjAndCjMinusZj({
+      ...tableau,
+      rows: tableau.rows.filter((_, i) => !dropped.includes(i)),
+      basis: tableau.basis.filter((_, i) => !dropped.includes(i)),
+    });
+  }
+  // Phase 1 keeps one row per constraint in input order, so row i is constraint i + 1
+  return { tableau, redundantRows: dropped };
+};
+
+// Drop the artificial columns from a finished Phase 1 tableau and restore the original objective
+export const createPhase2Table = <T>(
+  phase1: Tableau<T>,
+  originalObjective: readonly number[],
+  optType: string
+): Tableau<T> => {
+  const ar = arithmeticOf(phase1);
+  const { tableau } = driveOutArtificials(phase1);
+  const keep = tableau.variables
+    .map((name, index) => ({ name, index }))
+    .filter(({ name }) => !isArtificialColumn(name));
+  const variables = keep.map(({ name }) => name);
+
+  let originalIndex = 0;
+  const cj = variables.map((name) => {
+    if (!isDecisionColumn(name) || originalIndex >= originalObjective.length) return ar.zero;
+    const coeff = originalObjective[originalIndex++];
+    return ar.fromNumber(optType === "Minimize" ? -coeff : coeff);
+  });
+
+  const rows = tableau.rows.map((row) => [...keep.map(({ index }) => row[index]), row[row.length - 1]]);
+
+  return createTableau(ar, { variables, cj, basis: tableau.basis, rows, sense: "max", pivotRule: phase1.pivotRule });
+};
+
+export const objectiveValue = <T>(tableau: Tableau<T>): T =>
+  tableau.zj[tableau.variables.length] ?? arithmeticOf(tableau).zero;
+
+// Current basic feasible solution: basic variables take their row's RHS, the rest are zero
+export const basicSolution = <T>(tableau: Tableau<T>): Record<string, T> => {
+  const solution: Record<string, T> = {};
+  tableau.variables.forEach((name) => {
+    solution[name] = arithmeticOf(tableau).zero;
+  });
+  tableau.basis.forEach((name, i) => {
+    const row = tableau.rows[i];
+    solution[name] = row[row.length - 1];
+  });
+  return solution;
+};
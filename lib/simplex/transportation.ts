@@ -0,0 +1,306 @@
+import { decimalToFraction } from "./format";
+
+// Allocations are sums and differences of the supplies and demands, so floats with a tolerance do
+const TOLERANCE = 1e-9;
+
+export const MAX_TRANSPORTATION_ITERATIONS = 100;
+
+// Minimize Σ cost[i][j] · x[i][j] subject to Σⱼ x[i][j] = supply[i] and Σᵢ x[i][j] = demand[j]
+export type TransportationProblem = {
+  costs: number[][];
+  supply: number[];
+  demand: number[];
+};
+
+export type InitialMethod = "northwest" | "least-cost" | "vogel";
+
+export type Cell = { row: number; col: number };
+
+// One allocation made by an initial method, with why that cell was chosen
+export type AllocationStep = Cell & { amount: number; note: string };
+
+export type TransportationPlan = {
+  // the balanced problem; a dummy source or destination has zero costs
+  problem: TransportationProblem;
+  dummy: "row" | "column" | null;
+  allocation: number[][];
+  // m + n - 1 basic cells; degenerate plans include some at zero
+  basic: boolean[][];
+};
+
+export type LoopCell = Cell & { sign: 1 | -1 };
+
+// One MODI iteration: potentials with uᵢ + vⱼ = cᵢⱼ on basic cells, reduced costs elsewhere,
+// and the stepping-stone loop along which the entering cell receives θ
+export type ModiStep = {
+  u: number[];
+  v: number[];
+  // cᵢⱼ - uᵢ - vⱼ on nonbasic cells, null on basic ones
+  reduced: (number | null)[][];
+  // null once no reduced cost is negative
+  entering: Cell | null;
+  loop: LoopCell[];
+  theta: number;
+  leaving: Cell | null;
+};
+
+export const initialMethodLabels: Record<InitialMethod, string> = {
+  northwest: "Northwest Corner",
+  "least-cost": "Least Cost",
+  vogel: "Vogel's Approximation",
+};
+
+const isDummyRow = ({ problem, dummy }: Pick<TransportationPlan, "problem" | "dummy">, row: number): boolean =>
+  dummy === "row" && row === problem.supply.length - 1;
+
+const isDummyColumn = ({ problem, dummy }: Pick<TransportationPlan, "problem" | "dummy">, col: number): boolean =>
+  dummy === "column" && col === problem.demand.length - 1;
+
+export const sourceLabel = (plan: Pick<TransportationPlan, "problem" | "dummy">, row: number): string =>
+  isDummyRow(plan, row) ? "Dummy" : `S${row + 1}`;
+
+export const destinationLabel = (plan: Pick<TransportationPlan, "problem" | "dummy">, col: number): string =>
+  isDummyColumn(plan, col) ? "Dummy" : `D${col + 1}`;
+
+const sum = (values: readonly number[]): number => values.reduce((total, v) => total + v, 0);
+
+// Add a zero-cost dummy source or destination that absorbs the difference between supply and demand
+export const balanceProblem = (problem: TransportationProblem): Pick<TransportationPlan, "problem" | "dummy"> => {
+  const difference = sum(problem.supply) - sum(problem.demand);
+  if (difference > TOLERANCE) {
+    return {
+      problem: {
+        costs: problem.costs.map((row) => [...row, 0]),
+        supply: [...problem.supply],
+        demand: [...problem.demand, difference],
+      },
+      dummy: "column",
+    };
+  }
+  if (difference < -TOLERANCE) {
+    return {
+      problem: {
+        costs: [...problem.costs.map((row) => [...row]), problem.demand.map(() => 0)],
+        supply: [...problem.supply, -difference],
+        demand: [...problem.demand],
+      },
+      dummy: "row",
+    };
+  }
+  return { problem, dummy: null };
+};
+
+// Shared loop of the initial methods: `choose` picks the next cell among the rows and columns not yet
+// crossed out; it gets min(supply, demand) and whichever runs out is crossed out
+const allocate = (
+  problem: TransportationProblem,
+  dummy: TransportationPlan["dummy"],
+  choose: (rows: number[], cols: number[], supply: number[], demand: number[]) => { cell: Cell; note: string }
+): { plan: TransportationPlan; steps: AllocationStep[] } => {
+  const m = problem.supply.length;
+  const n = problem.demand.length;
+  const supply = [...problem.supply];
+  const demand = [...problem.demand];
+  const allocation = problem.costs.map((row) => row.map(() => 0));
+  const basic = problem.costs.map((row) => row.map(() => false));
+  let rows = Array.from({ length: m }, (_, i) => i);
+  let cols = Array.from({ length: n }, (_, j) => j);
+  const steps: AllocationStep[] = [];
+
+  while (rows.length > 0 && cols.length > 0) {
+    const { cell, note } = choose(rows, cols, supply, demand);
+    const amount = Math.min(supply[cell.row], demand[cell.col]);
+    allocation[cell.row][cell.col] = amount;
+    basic[cell.row][cell.col] = true;
+    supply[cell.row] -= amount;
+    demand[cell.col] -= amount;
+    steps.push({ ...cell, amount, note });
+
+    const rowDone = supply[cell.row] <= TOLERANCE;
+    const colDone = demand[cell.col] <= TOLERANCE;
+    // Degeneracy: when both run out only the row is crossed out (the column if it is the last row), so
+    // the column later takes a zero allocation and the plan keeps m + n - 1 basic cells
+    if (rowDone && (!colDone || rows.length > 1)) rows = rows.filter((i) => i !== cell.row);
+    else cols = cols.filter((j) => j !== cell.col);
+  }
+
+  return { plan: { problem, dummy, allocation, basic }, steps };
+};
+
+// Cheapest cell among the given rows and columns; ties go to the one that can take the larger amount
+const cheapestCell = (costs: number[][], rows: number[], cols: number[], supply: number[], demand: number[]): Cell => {
+  let best: Cell | null = null;
+  rows.forEach((i) =>
+    cols.forEach((j) => {
+      if (best === null) {
+        best = { row: i, col: j };
+        return;
+      }
+      const difference = costs[i][j] - costs[best.row][best.col];
+      const more = Math.min(supply[i], demand[j]) > Math.min(supply[best.row], demand[best.col]);
+      if (difference < -TOLERANCE || (Math.abs(difference) <= TOLERANCE && more)) best = { row: i, col: j };
+    })
+  );
+  return best!;
+};
+
+// Difference between the two smallest costs along a line, or the only cost left
+const penalty = (costs: number[]): number => {
+  const sorted = [...costs].sort((a, b) => a - b);
+  return sorted.length > 1 ? sorted[1] - sorted[0] : sorted[0];
+};
+
+export const initialSolution = (
+  original: TransportationProblem,
+  method: InitialMethod
+): { plan: TransportationPlan; steps: AllocationStep[] } => {
+  const balanced = balanceProblem(original);
+  const { problem, dummy } = balanced;
+  const { costs } = problem;
+
+  switch (method) {
+    case "northwest":
+      // top-left cell of what is left
+      return allocate(problem, dummy, (rows, cols) => ({ cell: { row: rows[0], col: cols[0] }, note: "northwest corner" }));
+    case "least-cost":
+      return allocate(problem, dummy, (rows, cols, supply, demand) => {
+        const cell = cheapestCell(costs, rows, cols, supply, demand);
+        return { cell, note: `lowest cost ${decimalToFraction(costs[cell.row][cell.col])}` };
+      });
+    default:
+      // Vogel: the line with the largest penalty gets its cheapest cell
+      return allocate(problem, dummy, (rows, cols, supply, demand) => {
+        const rowPenalties = rows.map((i) => penalty(cols.map((j) => costs[i][j])));
+        const colPenalties = cols.map((j) => penalty(rows.map((i) => costs[i][j])));
+        const largest = Math.max(...rowPenalties, ...colPenalties);
+        const r = rowPenalties.findIndex((p) => p === largest);
+        if (r !== -1) {
+          const cell = cheapestCell(costs, [rows[r]], cols, supply, demand);
+          return { cell, note: `row ${sourceLabel(balanced, rows[r])} has the largest penalty, ${decimalToFraction(largest)}` };
+        }
+        const c = colPenalties.findIndex((p) => p === largest);
+        const cell = cheapestCell(costs, rows, [cols[c]], supply, demand);
+        return { cell, note: `column ${destinationLabel(balanced, cols[c])} has the largest penalty, ${decimalToFraction(largest)}` };
+      });
+  }
+};
+
+export const totalCost = (plan: TransportationPlan): number =>
+  sum(plan.allocation.flatMap((row, i) => row.map((amount, j) => amount * plan.problem.costs[i][j])));
+
+// Potentials from u₁ = 0, spreading along basic cells: uᵢ + vⱼ = cᵢⱼ
+const potentials = (plan: TransportationPlan): { u: number[]; v: number[] } => {
+  const { costs } = plan.problem;
+  const u: (number | null)[] = costs.map(() => null);
+  const v: (number | null)[] = costs[0].map(() => null);
+  u[0] = 0;
+  for (let changed = true; changed; ) {
+    changed = false;
+    plan.basic.forEach((row, i) =>
+      row.forEach((isBasic, j) => {
+        if (!isBasic) return;
+        if (u[i] !== null && v[j] === null) {
+          v[j] = costs[i][j] - u[i]!;
+          changed = true;
+        } else if (u[i] === null && v[j] !== null) {
+          u[i] = costs[i][j] - v[j]!;
+          changed = true;
+        }
+      })
+    );
+  }
+  return { u: u.map((value) => value ?? 0), v: v.map((value) => value ?? 0) };
+};
+
+// Stepping-stone loop: the entering cell, then the path between its column and its row through the
+// tree of basic cells. Signs alternate, so every row and column keeps its total.
+const closedLoop = (plan: TransportationPlan, entering: Cell): LoopCell[] => {
+  const m = plan.problem.supply.length;
+  const nodes = m + plan.problem.demand.length;
+  const cellBetween = (a: number, b: number): Cell => (a < m ? { row: a, col: b - m } : { row: b, col: a - m });
+  const neighbours = (node: number): number[] =>
+    node < m
+      ? plan.basic[node].flatMap((isBasic, j) => (isBasic ? [m + j] : []))
+      : plan.basic.flatMap((row, i) => (row[node - m] ? [i] : []));
+
+  // breadth-first search from the entering column to the entering row
+  const previous: (number | null)[] = Array(nodes).fill(null);
+  const start = m + entering.col;
+  const queue = [start];
+  const seen = new Set([start]);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === entering.row) break;
+    neighbours(node).forEach((next) => {
+      if (seen.has(next)) return;
+      seen.add(next);
+      previous[next] = node;
+      queue.push(next);
+    });
+  }
+
+  const path: Cell[] = [];
+  for (let node = entering.row; previous[node] !== null; node = previous[node]!) {
+    path.unshift(cellBetween(previous[node]!, node));
+  }
+  return [{ ...entering, sign: 1 }, ...path.map((cell, k) => ({ ...cell, sign: (k % 2 === 0 ? -1 : 1) as 1 | -1 }))];
+};
+
+// MODI test of a basic plan, and the stepping-stone pivot it calls for
+export const modiStep = (plan: TransportationPlan): ModiStep => {
+  const { costs } = plan.problem;
+  const { u, v } = potentials(plan);
+  const reduced = costs.map((row, i) => row.map((cost, j) => (plan.basic[i][j] ? null : cost - u[i] - v[j])));
+
+  let entering: Cell | null = null;
+  reduced.forEach((row, i) =>
+    row.forEach((value, j) => {
+      if (value === null || value >= -TOLERANCE) return;
+      if (entering === null || value < reduced[entering.row][entering.col]!) entering = { row: i, col: j };
+    })
+  );
+  if (entering === null) return { u, v, reduced, entering: null, loop: [], theta: 0, leaving: null };
+
+  // θ is the smallest allocation on a "-" cell; that cell leaves the basis
+  const loop = closedLoop(plan, entering);
+  const donors = loop.filter(({ sign }) => sign < 0);
+  const leaving = donors.reduce((best, cell) =>
+    plan.allocation[cell.row][cell.col] < plan.allocation[best.row][best.col] - TOLERANCE ? cell : best
+  );
+  return { u, v, reduced, entering, loop, theta: plan.allocation[leaving.row][leaving.col], leaving: { row: leaving.row, col: leaving.col } };
+};
+
+// Shift θ around the loop; the entering cell becomes basic and the leaving one nonbasic
+export const applyModiStep = (plan: TransportationPlan, step: ModiStep): TransportationPlan => {
+  if (step.entering === null || step.leaving === null) return plan;
+  const allocation = plan.allocation.map((row) => [...row]);
+  const basic = plan.basic.map((row) => [...row]);
+  step.loop.forEach(({ row, col, sign }) => {
+    const value = allocation[row][col] + sign * step.theta;
+    allocation[row][col] = Math.abs(value) <= TOLERANCE ? 0 : value;
+  });
+  basic[step.entering.row][step.entering.col] = true;
+  basic[step.leaving.row][step.leaving.col] = false;
+  return { ...plan, allocation, basic };
+};
+
+// Run MODI until no reduced cost is negative, keeping every plan visited
+export const solveTransportation = (
+  plan: TransportationPlan,
+  maxIterations: number = MAX_TRANSPORTATION_ITERATIONS
+): { plans: TransportationPlan[]; steps: ModiStep[]; optimal: boolean } => {
+  const plans = [plan];
+  const steps: ModiStep[] = [];
+  while (steps.length < maxIterations) {
+    const current = plans[plans.length - 1];
+    const step = modiStep(current);
+    steps.push(step);
+    if (step.entering === null) return { plans, steps, optimal: true };
+    plans.push(applyModiStep(current, step));
+  }
+  return { plans, steps, optimal: false };
+};
+
+// A zero reduced cost on a nonbasic cell of an optimal plan means another plan costs the same
+export const hasAlternativeOptima = (step: ModiStep): boolean =>
+  step.entering === null && step.reduced.some((row) => row.some((value) => value !== null && Math.abs(value) <= TOLERANCE));
@@ -0,0 +1,116 @@
+import { ArithmeticMode, ExactValues } from "./arithmetic";
+
+export type OptType = "Maximize" | "Minimize";
+
+export type ConstraintType = "≤" | "≥" | "=";
+
+// lower ≤ x ≤ upper; -Infinity and Infinity leave that side unrestricted
+export type VariableBound = { lower: number; upper: number };
+
+// Integer variables are handled by branch and bound; binary ones are integers in [0, 1]
+export type VariableKind = "continuous" | "integer" | "binary";
+
+// A linear program exactly as the user entered it on the input screen
+export type LPModel = {
+  objective: number[];
+  constraintsMatrix: number[][];
+  rhs: number[];
+  constraintTypes: ConstraintType[];
+  optType: OptType;
+  // one per variable, x ≥ 0 when missing
+  bounds?: VariableBound[];
+  // column names, x1, x2, ... when missing
+  variableNames?: string[];
+  // row labels such as labour_hours, c1, c2, ... when missing
+  constraintNames?: string[];
+  // one per variable, continuous when missing
+  kinds?: VariableKind[];
+  // cells typed as rationals their floats can't be read back as, for exact arithmetic
+  exactValues?: ExactValues;
+};
+
+// An original variable written in terms of nonnegative columns: offset + Σ coefficient · column
+export type VariableSubstitution = {
+  name: string;
+  offset: number;
+  columns: { name: string; coefficient: 1 | -1 }[];
+};
+
+// "max" tableaux are optimal once every Cj - Zj ≤ 0, "min" tableaux once every Cj - Zj ≥ 0
+export type Sense = "max" | "min";
+
+// How the entering variable is chosen; Bland's rule also breaks ratio-test ties by smallest subscript
+export type PivotRule = "dantzig" | "bland" | "greatest-improvement" | "steepest-edge";
+
+// Settings chosen on the input screen and passed along with the model
+export type SolverSettings = {
+  arithmetic?: ArithmeticMode;
+  pivotRule?: PivotRule;
+};
+
+export type Tableau<T = number> = {
+  readonly variables: readonly string[];
+  readonly cj: readonly T[];
+  readonly basis: readonly string[];
+  // one row per constraint: a coefficient for every variable, then the RHS
+  readonly rows: readonly (readonly T[])[];
+  // Zj and Cj - Zj carry the RHS column too, so zj[variables.length] is the objective value
+  readonly zj: readonly T[];
+  readonly cjMinusZj: readonly T[];
+  readonly sense: Sense;
+  // Phase 1 tableaux minimize W, the sum of the artificial variables
+  readonly phase1: boolean;
+  // values are floats or exact Fractions; see arithmeticOf()
+  readonly arithmetic: ArithmeticMode;
+  // the model's exact values, so later steps read its numbers the way the first tableau did
+  readonly exactValues?: ExactValues;
+  // Big-M tableaux price artificial variables at ±M, so Cj and Zj are aM + b pairs
+  readonly bigM: boolean;
+  readonly pivotRule: PivotRule;
+  // bases pivoted through on the way to this tableau, used to detect cycling
+  readonly visitedBases: readonly string[];
+};
+
+export enum SolveStatus {
+  Optimal = "optimal",
+  Unbounded = "unbounded",
+  Infeasible = "infeasible",
+  IterationLimit = "iteration-limit",
+  NumericalError = "numerical-error",
+  Cycling = "cycling",
+  // the dual simplex needs every Cj - Zj to be optimal while some RHS is still negative
+  NotDualFeasible = "not-dual-feasible",
+}
+
+export type PivotChoice =
+  | { kind: "optimal" }
+  | { kind: "unbounded"; column: number; entering: string }
+  // degenerate pivots leave the objective unchanged because the minimum ratio is zero
+  | { kind: "pivot"; column: number; row: number; entering: string; leaving: string; degenerate: boolean };
+
+export type StepResult<T = number> = {
+  tableau: Tableau<T>;
+  // set once the tableau can't be pivoted any further
+  status: SolveStatus | null;
+  entering: string | null;
+  leaving: string | null;
+  degenerate?: boolean;
+  error?: string;
+};
+
+export type SolveResult<T = number> = {
+  status: SolveStatus;
+  tableau: Tableau<T>;
+  // every tableau visited, starting with the one passed in
+  history: Tableau<T>[];
+  iterations: number;
+  entering: string | null;
+  error?: string;
+};
+
+export type ArtificialDriveOut<T = number> = {
+  // Phase 1 tableau with no artificial variable left in the basis
+  tableau: Tableau<T>;
+  // zero-based indexes of the constraints removed as linearly dependent
+  redundantRows: number[];
+};
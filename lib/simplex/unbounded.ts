@@ -0,0 +1,50 @@
+import { originalObjectiveValue, originalValues } from "./bounds";
+import { arithmeticOf, basicSolution } from "./tableau";
+import { Tableau, VariableSubstitution } from "./types";
+
+// Proof of unboundedness: the points x(t) = x₀ + t·d stay feasible for every t ≥ 0 while Z(t) = Z₀ + t·rate
+export type UnboundedRay<T> = {
+  entering: string;
+  // the current basic solution and the direction, over every tableau column
+  columnOrigin: Record<string, T>;
+  columnDirection: Record<string, T>;
+  // the same ray over the user's variables
+  origin: Record<string, T>;
+  direction: Record<string, T>;
+  objective: T;
+  rate: T;
+};
+
+// Ray from a tableau whose entering column has no positive entry, so the ratio test finds no row.
+// The entering variable rises by t and each basic variable moves by -aᵢⱼ·t, which is never negative.
+export const unboundedRay = <T>(
+  tableau: Tableau<T>,
+  entering: string,
+  objective: readonly number[],
+  substitution: readonly VariableSubstitution[]
+): UnboundedRay<T> => {
+  const ar = arithmeticOf(tableau);
+  const column = tableau.variables.indexOf(entering);
+
+  const columnOrigin = basicSolution(tableau);
+  const columnDirection: Record<string, T> = Object.fromEntries(
+    tableau.variables.map((name) => [name, name === entering ? ar.one : ar.zero])
+  );
+  tableau.basis.forEach((name, i) => {
+    columnDirection[name] = ar.sign(tableau.rows[i][column]) === 0 ? ar.zero : ar.neg(tableau.rows[i][column]);
+  });
+
+  // directions have no offset: x = L + x' moves exactly as x' does
+  const origin = originalValues(ar, substitution, columnOrigin);
+  const direction = originalValues(ar, substitution.map((s) => ({ ...s, offset: 0 })), columnDirection);
+
+  return {
+    entering,
+    columnOrigin,
+    columnDirection,
+    origin,
+    direction,
+    objective: originalObjectiveValue(ar, objective, substitution, origin),
+    rate: originalObjectiveValue(ar, objective, substitution, direction),
+  };
+};